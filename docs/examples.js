@@ -75,7 +75,7 @@ L.marker(londonLatLng)
   .bindPopup('A pretty popup.<br> Easily customizable.')
   .openPopup();
 
-await new Promise((resolve) => setTimeout(resolve, 1000));
+await map.whenRendered();
 await map.saveImage('quick-start.png');`,
       leafletNodeLabel: 'leaflet-node (Server)',
       notes: usageNotes([
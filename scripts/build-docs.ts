@@ -64,8 +64,8 @@ async function generateExampleImage(example: Example): Promise<void> {
     // Generate the filename
     const filename = path.join(imagesDir, `${example.id}.png`);
 
-    // Wait a bit for tiles to load
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    // Wait for tiles, icons and vector layers to finish rendering
+    await map.whenRendered({ partial: true });
 
     // Save the image
     await map.saveImage(filename);
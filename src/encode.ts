@@ -0,0 +1,52 @@
+/**
+ * Raster image encoding for map exports
+ *
+ * Maps raster formats onto `@napi-rs/canvas` encoders and infers the output
+ * format of `saveImage` targets from their file extension.
+ */
+
+import * as path from 'path';
+import type { Canvas } from '@napi-rs/canvas';
+import type { ExportFormat, ImageFormat } from './types.js';
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp',
+  '.avif': 'avif',
+  '.svg': 'svg',
+  '.pdf': 'pdf',
+};
+
+/**
+ * Work out the output format for a filename from its extension
+ *
+ * Filenames without a recognised extension are written as PNG.
+ */
+export function formatFromFilename(filename: string): ExportFormat {
+  return EXTENSION_FORMATS[path.extname(filename).toLowerCase()] ?? 'png';
+}
+
+/**
+ * Encode a canvas in the requested format
+ *
+ * @param quality - 0-100 for JPEG, WebP and AVIF (100 is lossless for AVIF); ignored for PNG
+ */
+export async function encodeCanvas(canvas: Canvas, format: ImageFormat, quality?: number): Promise<Buffer> {
+  if (quality !== undefined && !(quality >= 0 && quality <= 100)) {
+    throw new Error(`Image quality must be between 0 and 100, got ${quality}`);
+  }
+
+  switch (format) {
+  case 'png':
+    return await canvas.encode('png');
+  case 'jpeg':
+  case 'webp':
+    return await canvas.encode(format, quality);
+  case 'avif':
+    return await canvas.encode('avif', quality === undefined ? undefined : { quality });
+  default:
+    throw new Error(`Unsupported image format "${format as string}"`);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Poster-sized exports of geographic bounds
+ *
+ * Renders an area far larger than a sensible map size by moving and
+ * resizing the map one chunk at a time, compositing each row of chunks into
+ * a strip and streaming the strips out as PNG rows. Only one strip (output
+ * width times chunk size) is held in memory at once.
+ */
+
+import { Readable } from 'stream';
+import { createCanvas } from '@napi-rs/canvas';
+import type * as LeafletModule from 'leaflet';
+import type { Canvas } from '@napi-rs/canvas';
+import type { ExportBoundsOptions, LeafletHeadlessMap, WhenRenderedOptions } from './types.js';
+import { mapToCanvas } from './export-image.js';
+import { leafletOf } from './leaflet-instance.js';
+import { encodePngStream } from './png-stream.js';
+
+const DEFAULT_CHUNK_SIZE = 1024;
+
+/**
+ * Rows copied out of a strip per read
+ */
+const ROWS_PER_READ = 64;
+
+/**
+ * Where the output image sits in the map's pixel space
+ */
+interface BoundsExportPlan {
+  zoom: number;
+  /**
+   * Output pixels per map pixel at `zoom`
+   */
+  scale: number;
+  /**
+   * Map pixel at the top-left corner of the output
+   */
+  origin: { x: number; y: number };
+  width: number;
+  height: number;
+  chunkSize: number;
+}
+
+function assertPositiveInteger(name: string, value: number | undefined): void {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    throw new Error(`exportBounds ${name} must be a positive integer, got ${value}`);
+  }
+}
+
+function planBoundsExport(
+  map: LeafletHeadlessMap,
+  bounds: LeafletModule.LatLngBoundsExpression,
+  options: ExportBoundsOptions
+): BoundsExportPlan {
+  const L = leafletOf(map);
+  const latLngBounds = L.latLngBounds(bounds as LeafletModule.LatLngBoundsLiteral);
+  if (!latLngBounds.isValid()) {
+    throw new Error('exportBounds requires valid bounds');
+  }
+
+  const { zoom, width, height, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  assertPositiveInteger('width', width);
+  assertPositiveInteger('height', height);
+  assertPositiveInteger('chunkSize', chunkSize);
+
+  const hasSize = width !== undefined || height !== undefined;
+  if ((zoom === undefined) === !hasSize) {
+    throw new Error('exportBounds requires either a zoom or an output width and/or height');
+  }
+
+  const project = (z: number) => ({
+    nw: map.project(latLngBounds.getNorthWest(), z),
+    se: map.project(latLngBounds.getSouthEast(), z),
+  });
+
+  if (zoom !== undefined) {
+    if ((map as any)._limitZoom(zoom) !== zoom) {
+      throw new Error(`exportBounds zoom ${zoom} is not a valid zoom level for this map`);
+    }
+
+    const { nw, se } = project(zoom);
+    const origin = nw.round();
+    return {
+      zoom,
+      scale: 1,
+      origin,
+      width: Math.max(1, Math.round(se.x - origin.x)),
+      height: Math.max(1, Math.round(se.y - origin.y)),
+      chunkSize,
+    };
+  }
+
+  // Fill in a missing dimension from the bounds' aspect ratio
+  const base = project(0);
+  const aspect = (base.se.y - base.nw.y) / (base.se.x - base.nw.x);
+  const outputWidth = width ?? Math.max(1, Math.round(height! / aspect));
+  const outputHeight = height ?? Math.max(1, Math.round(width! * aspect));
+
+  // Like fitBounds, use the deepest whole zoom the bounds fit at, then scale up to the output size
+  const fitScale = Math.min(outputWidth / (base.se.x - base.nw.x), outputHeight / (base.se.y - base.nw.y));
+  const fitZoom = Math.floor(map.getScaleZoom(fitScale, 0) + 1e-9);
+  const renderZoom = Math.max(map.getMinZoom(), Math.min(map.getMaxZoom(), fitZoom));
+
+  const { nw, se } = project(renderZoom);
+  const scale = Math.min(outputWidth / (se.x - nw.x), outputHeight / (se.y - nw.y));
+  return {
+    zoom: renderZoom,
+    scale,
+    origin: {
+      x: (nw.x + se.x) / 2 - outputWidth / scale / 2,
+      y: (nw.y + se.y) / 2 - outputHeight / scale / 2,
+    },
+    width: outputWidth,
+    height: outputHeight,
+    chunkSize,
+  };
+}
+
+/**
+ * Render one chunk of the output
+ *
+ * @returns The chunk canvas and the output pixel its top-left corner lands on
+ */
+async function renderChunk(
+  map: LeafletHeadlessMap,
+  plan: BoundsExportPlan,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  waitOptions: WhenRenderedOptions | null
+): Promise<{ canvas: Canvas; x: number; y: number }> {
+  const L = leafletOf(map);
+  const { origin, scale, zoom } = plan;
+
+  // Cover the chunk with whole map pixels
+  const mapLeft = Math.floor(origin.x + left / scale);
+  const mapTop = Math.floor(origin.y + top / scale);
+  const mapWidth = Math.max(1, Math.ceil(origin.x + (left + width) / scale) - mapLeft);
+  const mapHeight = Math.max(1, Math.ceil(origin.y + (top + height) / scale) - mapTop);
+
+  map.setSize(mapWidth, mapHeight);
+  (map as any)._resetView(map.unproject(L.point(mapLeft + mapWidth / 2, mapTop + mapHeight / 2), zoom), zoom);
+
+  if (waitOptions) {
+    await map.whenRendered(waitOptions);
+  }
+
+  // Controls belong to the map view rather than the area, and would repeat in every chunk
+  const canvas = await mapToCanvas(map, scale, false);
+  const pixelOrigin = map.getPixelOrigin();
+  return {
+    canvas,
+    x: (pixelOrigin.x - origin.x) * scale,
+    y: (pixelOrigin.y - origin.y) * scale,
+  };
+}
+
+/**
+ * Render the plan a strip of chunks at a time, yielding RGBA rows
+ */
+async function* renderStrips(
+  map: LeafletHeadlessMap,
+  plan: BoundsExportPlan,
+  waitOptions: WhenRenderedOptions | null
+): AsyncGenerator<Buffer> {
+  const L = leafletOf(map);
+  const { width, height, chunkSize } = plan;
+  const strip = createCanvas(width, Math.min(chunkSize, height));
+  const ctx = strip.getContext('2d');
+
+  const loaded = (map as any)._loaded;
+  const previousSize = map.getSize();
+  const previousView = loaded ? { center: map.getCenter(), zoom: map.getZoom() } : null;
+  if (!loaded) {
+    // setSize keeps the current view, so the map needs one first
+    (map as any)._resetView(L.latLng(0, 0), plan.zoom);
+  }
+
+  try {
+    for (let top = 0; top < height; top += chunkSize) {
+      const stripHeight = Math.min(chunkSize, height - top);
+      ctx.clearRect(0, 0, strip.width, strip.height);
+
+      for (let left = 0; left < width; left += chunkSize) {
+        const chunkWidth = Math.min(chunkSize, width - left);
+        const chunk = await renderChunk(map, plan, left, top, chunkWidth, stripHeight, waitOptions);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(left, 0, chunkWidth, stripHeight);
+        ctx.clip();
+        ctx.drawImage(chunk.canvas, chunk.x, chunk.y - top);
+        ctx.restore();
+      }
+
+      for (let row = 0; row < stripHeight; row += ROWS_PER_READ) {
+        const { data } = ctx.getImageData(0, row, width, Math.min(ROWS_PER_READ, stripHeight - row));
+        yield Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+      }
+    }
+  } finally {
+    map.setSize(previousSize.x, previousSize.y);
+    if (previousView) {
+      (map as any)._resetView(previousView.center, previousView.zoom);
+    }
+  }
+}
+
+/**
+ * Export geographic bounds as a streamed PNG
+ *
+ * Options are validated straight away; rendering starts when the stream is
+ * read. The map should not be used for anything else until the stream ends.
+ *
+ * @param map - The Leaflet map instance
+ * @param bounds - Area to render
+ * @param options - Zoom level or output size, and chunking
+ * @returns Readable stream of PNG bytes
+ */
+export function exportMapBounds(
+  map: LeafletHeadlessMap,
+  bounds: LeafletModule.LatLngBoundsExpression,
+  options: ExportBoundsOptions
+): Readable {
+  const plan = planBoundsExport(map, bounds, options);
+  const waitForRender = options.waitForRender ?? true;
+  const waitOptions = waitForRender === false ? null : waitForRender === true ? {} : waitForRender;
+
+  return Readable.from(encodePngStream(plan.width, plan.height, renderStrips(map, plan, waitOptions)), {
+    objectMode: false,
+  });
+}
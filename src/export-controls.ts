@@ -0,0 +1,120 @@
+/**
+ * Map controls in exports
+ *
+ * Controls are laid out from their DOM content with Leaflet's stylesheet, so
+ * attribution links and separators, scale bars, zoom buttons and custom
+ * controls look as they do in a browser. Each corner is stacked again the
+ * way Leaflet's floated controls are, because jsdom reports no element sizes.
+ */
+
+import { layoutHtmlElement } from './html-render.js';
+import type { HtmlBox, HtmlLayoutContext } from './html-render.js';
+import type { ExportControlsOptions } from './types.js';
+
+export type ControlKind = keyof ExportControlsOptions;
+
+/**
+ * Built-in controls by their container class; anything else is custom
+ */
+const CONTROL_CLASSES: [ControlKind, string][] = [
+  ['attribution', 'leaflet-control-attribution'],
+  ['scale', 'leaflet-control-scale'],
+  ['zoom', 'leaflet-control-zoom'],
+  ['layers', 'leaflet-control-layers'],
+];
+
+/**
+ * Geometry and content of a control in container pixels
+ */
+export interface ControlLayout {
+  element: HTMLElement;
+  box: HtmlBox;
+  kind: ControlKind;
+  /**
+   * Top-left corner of the control's border box
+   */
+  left: number;
+  top: number;
+}
+
+/**
+ * Resolve the `controls` export option into a switch per kind of control
+ *
+ * @param option - `true` or `false` for all controls, or switches per kind that default to on;
+ * controls are left out when it is not given
+ */
+export function resolveControlToggles(option: boolean | ExportControlsOptions = false): Required<ExportControlsOptions> {
+  const all = option !== false;
+  const kinds = typeof option === 'object' ? option : {};
+  return {
+    attribution: kinds.attribution ?? all,
+    scale: kinds.scale ?? all,
+    zoom: kinds.zoom ?? all,
+    layers: kinds.layers ?? all,
+    custom: kinds.custom ?? all,
+  };
+}
+
+function controlKind(element: Element): ControlKind {
+  return CONTROL_CLASSES.find(([, className]) => element.classList.contains(className))?.[0] ?? 'custom';
+}
+
+/**
+ * Lay out the controls in each corner of a map and stack them as Leaflet's
+ * stylesheet does: top corners downwards and bottom corners upwards from the
+ * map edge, each control on its own row against the corner's side
+ *
+ * @param toggles - Which kinds of control to include
+ */
+export async function measureControlLayouts(
+  map: any,
+  context: HtmlLayoutContext,
+  toggles: Required<ExportControlsOptions>
+): Promise<ControlLayout[]> {
+  const size = map.getSize();
+  const layouts: ControlLayout[] = [];
+
+  for (const [position, corner] of Object.entries<HTMLElement>(map._controlCorners ?? {})) {
+    const stack: { element: HTMLElement; box: HtmlBox; kind: ControlKind; margin: Record<string, number> }[] = [];
+    for (const element of Array.from(corner.children) as HTMLElement[]) {
+      const kind = controlKind(element);
+      if (!toggles[kind]) {
+        continue;
+      }
+
+      const box = await layoutHtmlElement(element, context);
+      if (!box) {
+        continue;
+      }
+      const { margin } = box.style;
+      stack.push({
+        element,
+        box,
+        kind,
+        margin: {
+          top: parseFloat(margin.top) || 0,
+          right: parseFloat(margin.right) || 0,
+          bottom: parseFloat(margin.bottom) || 0,
+          left: parseFloat(margin.left) || 0,
+        },
+      });
+    }
+
+    // Floated controls clear each other, so their margins never collapse
+    const stackHeight = stack.reduce((total, { box, margin }) => total + margin.top + box.height + margin.bottom, 0);
+    let y = position.startsWith('bottom') ? size.y - stackHeight : 0;
+    for (const { element, box, kind, margin } of stack) {
+      y += margin.top;
+      layouts.push({
+        element,
+        box,
+        kind,
+        left: position.endsWith('right') ? size.x - margin.right - box.width : margin.left,
+        top: y,
+      });
+      y += box.height + margin.bottom;
+    }
+  }
+
+  return layouts;
+}
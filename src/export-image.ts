@@ -6,13 +6,89 @@
  */
 
 import { createCanvas, Canvas } from '@napi-rs/canvas';
+import type { Image as CanvasImage, SKRSContext2D } from '@napi-rs/canvas';
 import { loadImageSource } from './image.js';
+import { leafletOf } from './leaflet-instance.js';
+import { isImageLoading } from './render-wait.js';
+import { collectRetinaSources } from './retina.js';
+import type { RetinaSource } from './retina.js';
+import { createHtmlLayoutContext, layerStackingStyle, layerTransformStyle, layoutHtmlElement, paintHtmlBox } from './html-render.js';
+import type { HtmlBox, HtmlLayoutContext } from './html-render.js';
+import { collectTooltipLayers, drawTooltip, measureTooltipLayout } from './export-tooltip.js';
+import type { TooltipLayout } from './export-tooltip.js';
+import { collectPopupLayers, drawPopup, measurePopupLayout } from './export-popup.js';
+import type { PopupLayout } from './export-popup.js';
+import { measureControlLayouts, resolveControlToggles } from './export-controls.js';
+import type { ExportControlsOptions } from './types.js';
 
-interface PointLike {
+/**
+ * A 2D affine transform `[a, b, c, d, e, f]`, in the order `ctx.setTransform` takes
+ */
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export interface PointLike {
   x: number;
   y: number;
 }
 
+/**
+ * Receives the drawable parts of a map in paint order during export, so
+ * raster and vector outputs share one traversal of the map DOM
+ */
+export interface MapRenderTarget {
+  /**
+   * Draw a loaded image (tile, marker icon or image overlay)
+   *
+   * @param matrix - Maps the image's CSS pixels, from its top left corner, to map pixels
+   * @param opacity - Combined opacity of the image, its layer and its pane
+   */
+  drawImage(
+    element: HTMLImageElement,
+    image: CanvasImage,
+    matrix: AffineMatrix,
+    width: number,
+    height: number,
+    opacity: number
+  ): void | Promise<void>;
+
+  /**
+   * Draw a canvas element, such as a Leaflet canvas renderer
+   *
+   * @param matrix - Maps the canvas pixels, from its top left corner, to map pixels
+   * @param opacity - Combined opacity of the canvas and its pane
+   */
+  drawCanvas(element: HTMLCanvasElement, napiCanvas: Canvas, matrix: AffineMatrix, opacity: number): void;
+
+  /**
+   * Draw a laid out HTML element, such as a divIcon marker
+   *
+   * @param matrix - Maps the box's pixels, from its top left corner, to map pixels
+   * @param opacity - Combined opacity of the element's layer and pane; the box applies its own
+   */
+  drawHtml(element: Element, box: HtmlBox, matrix: AffineMatrix, opacity: number): void;
+
+  /**
+   * Start a group of elements that is filtered and blended as a whole; groups
+   * nest, and each is closed by `endGroup` with the same effects
+   */
+  beginGroup(effects: LayerEffects): void;
+
+  /**
+   * Composite the group started last onto what is below it
+   */
+  endGroup(effects: LayerEffects): void;
+
+  /**
+   * Draw an open tooltip
+   */
+  drawTooltip(layout: TooltipLayout): void;
+
+  /**
+   * Draw an open popup
+   */
+  drawPopup(layout: PopupLayout): void;
+}
+
 function parseCssPx(value?: string | null): number | null {
   if (!value) {
     return null;
@@ -22,178 +98,341 @@ function parseCssPx(value?: string | null): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
-function parseTransform(transform?: string | null): { x: number; y: number; hasValue: boolean } {
-  if (!transform || transform === 'none') {
-    return { x: 0, y: 0, hasValue: false };
+function multiplyMatrices(m: AffineMatrix, n: AffineMatrix): AffineMatrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function translation(x: number, y: number): AffineMatrix {
+  return [1, 0, 0, 1, x, y];
+}
+
+/**
+ * Whether a transform only moves, without scaling, rotating or skewing
+ */
+export function isTranslation(matrix: AffineMatrix): boolean {
+  return matrix[0] === 1 && matrix[1] === 0 && matrix[2] === 0 && matrix[3] === 1;
+}
+
+/**
+ * Resolve a CSS length along one axis, with percentages relative to the element's size
+ */
+function resolveAxisLength(value: string, size: number): number {
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) {
+    return 0;
+  }
+  return value.trim().endsWith('%') ? (number / 100) * size : number;
+}
+
+function parseAngle(value: string): number {
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) {
+    return 0;
   }
 
-  let totalX = 0;
-  let totalY = 0;
-  let hasValue = false;
+  const unit = /[a-z]+$/i.exec(value.trim())?.[0].toLowerCase();
+  switch (unit) {
+  case 'rad':
+    return number;
+  case 'grad':
+    return (number * Math.PI) / 200;
+  case 'turn':
+    return number * 2 * Math.PI;
+  default:
+    return (number * Math.PI) / 180;
+  }
+}
 
-  const regex = /(matrix3d|matrix|translate3d|translate|translateX|translateY)\(([^)]*)\)/g;
+/**
+ * Parse a CSS `transform` into one 2D affine matrix, composing its functions
+ * from left to right; 3D functions contribute their 2D part
+ *
+ * @param size - Border box size of the element, for percentage translations
+ * @returns The matrix, or null when there is no transform
+ */
+function parseTransform(transform: string | null | undefined, size: PointLike): AffineMatrix | null {
+  if (!transform || transform === 'none') {
+    return null;
+  }
+
+  let matrix: AffineMatrix | null = null;
+  const regex = /([a-zA-Z0-9]+)\(([^)]*)\)/g;
   let match: RegExpExecArray | null;
 
   while ((match = regex.exec(transform))) {
     const type = match[1];
-    const rawArgs = match[2].split(',').map((arg) => arg.trim()).filter((arg) => arg.length > 0);
-
-    if (type === 'matrix' && rawArgs.length >= 6) {
-      const x = parseFloat(rawArgs[4]);
-      const y = parseFloat(rawArgs[5]);
-      if (Number.isFinite(x)) {
-        totalX += x;
-        hasValue = hasValue || x !== 0;
-      }
-      if (Number.isFinite(y)) {
-        totalY += y;
-        hasValue = hasValue || y !== 0;
-      }
-      continue;
+    const args = match[2].split(/[\s,]+/).filter((arg) => arg.length > 0);
+    const number = (index: number, fallback: number) => {
+      const value = parseFloat(args[index]);
+      return Number.isFinite(value) ? value : fallback;
+    };
+
+    let step: AffineMatrix | null = null;
+    switch (type) {
+    case 'matrix':
+      step = args.length >= 6 ? [0, 1, 2, 3, 4, 5].map((index) => number(index, 0)) as AffineMatrix : null;
+      break;
+    case 'matrix3d':
+      step = args.length >= 16 ? [0, 1, 4, 5, 12, 13].map((index) => number(index, 0)) as AffineMatrix : null;
+      break;
+    case 'translate':
+    case 'translate3d':
+      step = translation(resolveAxisLength(args[0] ?? '0', size.x), resolveAxisLength(args[1] ?? '0', size.y));
+      break;
+    case 'translateX':
+      step = translation(resolveAxisLength(args[0] ?? '0', size.x), 0);
+      break;
+    case 'translateY':
+      step = translation(0, resolveAxisLength(args[0] ?? '0', size.y));
+      break;
+    case 'scale':
+    case 'scale3d':
+      step = [number(0, 1), 0, 0, number(1, number(0, 1)), 0, 0];
+      break;
+    case 'scaleX':
+      step = [number(0, 1), 0, 0, 1, 0, 0];
+      break;
+    case 'scaleY':
+      step = [1, 0, 0, number(0, 1), 0, 0];
+      break;
+    case 'rotate':
+    case 'rotateZ': {
+      const angle = parseAngle(args[0] ?? '0');
+      step = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+      break;
     }
-
-    if (type === 'matrix3d' && rawArgs.length >= 16) {
-      const x = parseFloat(rawArgs[12]);
-      const y = parseFloat(rawArgs[13]);
-      if (Number.isFinite(x)) {
-        totalX += x;
-        hasValue = hasValue || x !== 0;
-      }
-      if (Number.isFinite(y)) {
-        totalY += y;
-        hasValue = hasValue || y !== 0;
-      }
-      continue;
+    case 'skew':
+      step = [1, Math.tan(parseAngle(args[1] ?? '0')), Math.tan(parseAngle(args[0] ?? '0')), 1, 0, 0];
+      break;
+    case 'skewX':
+      step = [1, 0, Math.tan(parseAngle(args[0] ?? '0')), 1, 0, 0];
+      break;
+    case 'skewY':
+      step = [1, Math.tan(parseAngle(args[0] ?? '0')), 0, 1, 0, 0];
+      break;
+    default:
+      // Other 3D functions such as perspective leave the 2D projection unchanged
+      break;
     }
 
-    if (type === 'translate3d' || type === 'translate') {
-      const x = rawArgs.length >= 1 ? parseFloat(rawArgs[0]) : NaN;
-      const y = rawArgs.length >= 2 ? parseFloat(rawArgs[1]) : NaN;
-      if (Number.isFinite(x)) {
-        totalX += x;
-        hasValue = hasValue || x !== 0;
-      }
-      if (Number.isFinite(y)) {
-        totalY += y;
-        hasValue = hasValue || y !== 0;
-      }
-      continue;
+    if (step) {
+      matrix = matrix ? multiplyMatrices(matrix, step) : step;
     }
+  }
 
-    if (type === 'translateX' && rawArgs.length >= 1) {
-      const x = parseFloat(rawArgs[0]);
-      if (Number.isFinite(x)) {
-        totalX += x;
-        hasValue = hasValue || x !== 0;
-      }
-      continue;
-    }
+  return matrix;
+}
 
-    if (type === 'translateY' && rawArgs.length >= 1) {
-      const y = parseFloat(rawArgs[0]);
-      if (Number.isFinite(y)) {
-        totalY += y;
-        hasValue = hasValue || y !== 0;
-      }
-    }
+/**
+ * Resolve a CSS `transform-origin` against the element's border box
+ */
+function parseTransformOrigin(value: string, size: PointLike): PointLike {
+  const keywords: Record<string, string> = { left: '0%', center: '50%', right: '100%', top: '0%', bottom: '100%' };
+  let [first = '50%', second = '50%'] = value.trim().split(/\s+/);
+  // Vertical keywords may come first, as in `bottom center`
+  if (first === 'top' || first === 'bottom' || second === 'left' || second === 'right') {
+    [first, second] = [second, first];
   }
 
-  return { x: totalX, y: totalY, hasValue };
+  return {
+    x: resolveAxisLength(keywords[first] ?? first, size.x),
+    y: resolveAxisLength(keywords[second] ?? second, size.y),
+  };
 }
 
-function accumulateLeafletPosition(element: HTMLElement, container: HTMLElement): PointLike | null {
-  let current: HTMLElement | null = element;
-  let totalX = 0;
-  let totalY = 0;
-  let found = false;
-
-  while (current && current !== container) {
-    const leafletPos = (current as any)._leaflet_pos as PointLike | undefined;
-    if (leafletPos && Number.isFinite(leafletPos.x) && Number.isFinite(leafletPos.y)) {
-      totalX += leafletPos.x;
-      totalY += leafletPos.y;
-      found = true;
-    } else {
-      const transform = parseTransform(current.style?.transform);
-      if (transform.hasValue) {
-        totalX += transform.x;
-        totalY += transform.y;
-        found = true;
-      }
-    }
+/**
+ * Transform from an element's own pixels to its parent's: its `left`/`top`
+ * offset and margins (or the position Leaflet recorded for it), then its CSS
+ * transform around its transform origin
+ */
+function localTransform(element: HTMLElement, context: HtmlLayoutContext, size: PointLike): AffineMatrix {
+  const { transform, transformOrigin } = layerTransformStyle(element, context);
+  const matrix = parseTransform(transform, size);
+  let x = parseCssPx(element.style?.left);
+  let y = parseCssPx(element.style?.top);
+
+  const leafletPos = (element as any)._leaflet_pos as PointLike | undefined;
+  if (x === null && y === null && !matrix && leafletPos && Number.isFinite(leafletPos.x) && Number.isFinite(leafletPos.y)) {
+    x = leafletPos.x;
+    y = leafletPos.y;
+  }
 
-    current = current.parentElement;
+  const offset = translation(
+    (x ?? 0) + (parseCssPx(element.style?.marginLeft) ?? 0),
+    (y ?? 0) + (parseCssPx(element.style?.marginTop) ?? 0)
+  );
+  if (!matrix) {
+    return offset;
   }
 
-  return found ? { x: totalX, y: totalY } : null;
+  const origin = parseTransformOrigin(transformOrigin, size);
+  return [translation(origin.x, origin.y), matrix, translation(-origin.x, -origin.y)].reduce(multiplyMatrices, offset);
 }
 
-function resolveElementPosition(element: HTMLElement, container: HTMLElement): PointLike {
-  const accumulated = accumulateLeafletPosition(element, container);
-  let x = accumulated?.x ?? 0;
-  let y = accumulated?.y ?? 0;
+/**
+ * Compose the transforms of an element and its ancestors below the map
+ * container, mapping the element's own pixels to map pixels
+ *
+ * @param size - Border box size of the element, for its transform origin
+ */
+function accumulateLeafletPosition(
+  element: HTMLElement,
+  container: HTMLElement,
+  context: HtmlLayoutContext,
+  size: PointLike
+): AffineMatrix {
+  let matrix = localTransform(element, context, size);
+  for (let current = element.parentElement; current && current !== container; current = current.parentElement) {
+    const parentSize = { x: parseCssPx(current.style?.width) ?? 0, y: parseCssPx(current.style?.height) ?? 0 };
+    matrix = multiplyMatrices(localTransform(current, context, parentSize), matrix);
+  }
+  return matrix;
+}
 
-  if (!accumulated) {
-    const transform = parseTransform(element.style?.transform);
-    if (transform.hasValue) {
-      x += transform.x;
-      y += transform.y;
-    }
+/**
+ * Panes, layers and tile containers whose children are drawn individually
+ */
+const LAYER_CONTAINER_CLASSES = ['leaflet-pane', 'leaflet-layer', 'leaflet-tile-container'];
 
-    const left = parseCssPx(element.style?.left);
-    const top = parseCssPx(element.style?.top);
+/**
+ * CSS `filter` and `mix-blend-mode` of a pane, layer or element, whose
+ * contents are composited together as one group
+ */
+export interface LayerEffects {
+  filter: string | null;
+  blendMode: string;
+}
 
-    if (left !== null) {
-      x += left;
-    } else if (Number.isFinite(element.offsetLeft)) {
-      x += element.offsetLeft;
-    }
+/**
+ * An element to draw, with the opacity and effect groups it is composited in
+ */
+interface LayerElement {
+  element: Element;
+  /**
+   * Product of the opacities of the element's panes and layers, and of the
+   * element itself unless it is an HTML element, which applies its own
+   */
+  opacity: number;
+  /**
+   * Effects of the element and its ancestors, outermost first; elements of
+   * one group share the same objects
+   */
+  groups: LayerEffects[];
+}
 
-    if (top !== null) {
-      y += top;
-    } else if (Number.isFinite(element.offsetTop)) {
-      y += element.offsetTop;
-    }
-  }
+/**
+ * Whether an element is a tile Leaflet still hides while its image loads.
+ * Exports that do not wait for rendering load such tiles themselves.
+ */
+function isLoadingTile(element: Element): boolean {
+  return element.classList.contains('leaflet-tile') && isImageLoading(element as HTMLImageElement);
+}
 
-  const marginLeft = parseCssPx(element.style?.marginLeft);
-  if (marginLeft !== null) {
-    x += marginLeft;
-  }
+/**
+ * Collect the elements drawn for each layer in the order a browser stacks
+ * them: images and canvases, and HTML elements such as divIcon markers and
+ * div tiles
+ *
+ * Panes and layers with a `z-index` (or an opacity below 1, a filter or a
+ * blend mode) form stacking contexts whose contents are sorted by z-index and
+ * then DOM order, so custom panes, layer `zIndex` options and marker z-index
+ * offsets apply. Hidden elements are skipped. Popups and tooltips are drawn separately, so
+ * only images and canvases outside popups are kept from the popup pane.
+ */
+function collectLayerElements(container: HTMLElement, context: HtmlLayoutContext): LayerElement[] {
+  type StackEntry = { zIndex: number; elements: LayerElement[] };
+  const flatten = (entries: StackEntry[]) =>
+    entries.sort((a, b) => a.zIndex - b.zIndex).flatMap((entry) => entry.elements);
+
+  const visit = (parent: Element, opacity: number, groups: LayerEffects[], entries: StackEntry[]) => {
+    // Walking siblings avoids jsdom's slow indexed access to large child lists
+    for (let child = parent.firstElementChild; child; child = child.nextElementSibling) {
+      const { classList } = child;
+      if (
+        classList.contains('leaflet-tooltip-pane')
+        || classList.contains('leaflet-control-container')
+        || classList.contains('leaflet-proxy')
+      ) {
+        continue;
+      }
 
-  const marginTop = parseCssPx(element.style?.marginTop);
-  if (marginTop !== null) {
-    y += marginTop;
-  }
+      const style = layerStackingStyle(child, context);
+      if (style.display === 'none' || style.opacity <= 0) {
+        continue;
+      }
+      const childOpacity = opacity * style.opacity;
+      const zIndex = style.zIndex ?? 0;
+      // Tile containers isolate the blending of their tiles, which never overlap, so
+      // blend modes such as the `plus-lighter` Leaflet's stylesheet gives tiles change nothing
+      const blendMode = parent.classList.contains('leaflet-tile-container') ? 'normal' : style.mixBlendMode;
+      const effects = style.filter || blendMode !== 'normal' ? { filter: style.filter, blendMode } : null;
+      const childGroups = effects ? [...groups, effects] : groups;
+
+      if (classList.contains('leaflet-popup-pane')) {
+        const elements = Array.from(child.querySelectorAll('canvas, img'))
+          .filter((element) => !element.closest('.leaflet-popup'))
+          .map((element) => ({ element, opacity: childOpacity, groups: childGroups }));
+        entries.push({ zIndex, elements });
+      } else if (LAYER_CONTAINER_CLASSES.some((name) => classList.contains(name))) {
+        if (style.zIndex === null && style.opacity >= 1 && !effects) {
+          // No stacking context: the children are stacked with their parent's
+          visit(child, childOpacity, groups, entries);
+        } else {
+          const inner: StackEntry[] = [];
+          visit(child, childOpacity, childGroups, inner);
+          entries.push({ zIndex, elements: flatten(inner) });
+        }
+      } else if (style.visibility !== 'hidden' || isLoadingTile(child)) {
+        const tagName = child.tagName.toLowerCase();
+        const replaced = tagName === 'img' || tagName === 'canvas';
+        entries.push({
+          zIndex,
+          elements: [{ element: child, opacity: replaced ? childOpacity : opacity, groups: childGroups }],
+        });
+      }
+    }
+  };
 
-  return { x, y };
+  const entries: StackEntry[] = [];
+  visit(container, 1, [], entries);
+  return flatten(entries);
 }
 
 /**
- * Export a Leaflet map to a canvas element
+ * Walk the drawable elements of a map in stacking order, followed by open
+ * tooltips, popups and the map controls
  *
  * @param map - The Leaflet map instance
- * @returns Promise that resolves with a Canvas element
+ * @param target - Receives each element with its resolved position and size
+ * @param controls - Which map controls to draw; controls are drawn as HTML elements
+ * @param popupChrome - Draw popups with their bubble, tip and close button, or only their content
  */
-export async function mapToCanvas(map: any): Promise<Canvas> {
-  const size = map.getSize();
-  const canvas = createCanvas(size.x, size.y);
-  const ctx = canvas.getContext('2d');
-
+export async function renderMapLayers(
+  map: any,
+  target: MapRenderTarget,
+  controls: boolean | ExportControlsOptions = false,
+  popupChrome = true
+): Promise<void> {
   // Get the map container element
-  const container = map.getContainer();
+  const container: HTMLElement = map.getContainer();
 
-  // Find all drawable elements in the map (tile images, vector canvases, etc.)
-  const drawableElements = Array.from(
-    container.querySelectorAll<HTMLCanvasElement | HTMLImageElement>('canvas, img')
-  );
+  // Find all drawable elements in the map (tile images, vector canvases, divIcons, etc.)
+  const htmlLayout = createHtmlLayoutContext(container.ownerDocument, map.getSize().x);
+  const drawableElements = collectLayerElements(container, htmlLayout);
 
   // If no drawable elements found, add a temporary vector layer to force canvas creation
   let tempCircle: any = null;
   if (drawableElements.length === 0) {
     // Add a transparent circle to trigger canvas renderer creation
     const center = map.getCenter();
-    const L = (globalThis as any).L;
+    const L = leafletOf(map);
     tempCircle = L.circle(center, {
       radius: 1,
       opacity: 0,
@@ -201,11 +440,7 @@ export async function mapToCanvas(map: any): Promise<Canvas> {
     }).addTo(map);
 
     // Re-query for drawable elements
-    drawableElements.push(
-      ...Array.from(
-        container.querySelectorAll<HTMLCanvasElement | HTMLImageElement>('canvas, img')
-      )
-    );
+    drawableElements.push(...collectLayerElements(container, htmlLayout));
 
     if (drawableElements.length === 0) {
       if (tempCircle) tempCircle.remove();
@@ -213,10 +448,22 @@ export async function mapToCanvas(map: any): Promise<Canvas> {
     }
   }
 
-  // Composite all drawable layers onto the export canvas respecting DOM order
-  for (const element of drawableElements) {
+  // Close the effect groups the next element is not in, and open those it enters
+  let openGroups: LayerEffects[] = [];
+  const enterGroups = (groups: LayerEffects[]) => {
+    let shared = 0;
+    while (shared < openGroups.length && shared < groups.length && openGroups[shared] === groups[shared]) {
+      shared++;
+    }
+    openGroups.slice(shared).reverse().forEach((group) => target.endGroup(group));
+    groups.slice(shared).forEach((group) => target.beginGroup(group));
+    openGroups = groups;
+  };
+
+  // Composite all drawable layers onto the export canvas in stacking order
+  for (const { element, opacity, groups } of drawableElements) {
+    enterGroups(groups);
     const tagName = element.tagName.toLowerCase();
-    const { x, y } = resolveElementPosition(element as HTMLElement, container);
 
     if (tagName === 'canvas') {
       const napiCanvas = (element as any)._napiCanvas;
@@ -226,7 +473,23 @@ export async function mapToCanvas(map: any): Promise<Canvas> {
         continue;
       }
 
-      ctx.drawImage(napiCanvas as any, x, y);
+      const canvasElement = element as HTMLCanvasElement;
+      const size = {
+        x: parseCssPx(canvasElement.style?.width) ?? napiCanvas.width,
+        y: parseCssPx(canvasElement.style?.height) ?? napiCanvas.height,
+      };
+      let matrix = accumulateLeafletPosition(canvasElement, container, htmlLayout, size);
+
+      // Leaflet offsets renderer canvases by an unrounded fraction of the map size,
+      // while their paths are drawn relative to the rounded renderer bounds; align
+      // on the bounds so vectors stay sharp and line up with the tiles, unless the
+      // renderer is scaled mid zoom
+      const renderer = findCanvasRenderer(map, canvasElement);
+      if (renderer?._bounds && isTranslation(matrix)) {
+        const position = map.layerPointToContainerPoint(renderer._bounds.min);
+        matrix = translation(position.x, position.y);
+      }
+      target.drawCanvas(canvasElement, napiCanvas, matrix, opacity);
       continue;
     }
 
@@ -260,265 +523,300 @@ export async function mapToCanvas(map: any): Promise<Canvas> {
           image.height
         );
 
-        ctx.drawImage(image as any, x, y, width, height);
+        const matrix = accumulateLeafletPosition(imgElement, container, htmlLayout, { x: width, y: height });
+        await target.drawImage(imgElement, image, matrix, width, height, opacity);
       } catch (error) {
         console.warn(`Failed to draw tile image ${src}: ${(error as Error).message}`);
       }
+      continue;
+    }
+
+    try {
+      const box = await layoutHtmlElement(element as HTMLElement, htmlLayout);
+      if (box) {
+        const size = { x: box.width, y: box.height };
+        target.drawHtml(element, box, accumulateLeafletPosition(element as HTMLElement, container, htmlLayout, size), opacity);
+      }
+    } catch (error) {
+      console.warn(`leaflet-node: failed to draw ${tagName} element ${element.className}: ${(error as Error).message}`);
     }
   }
+  enterGroups([]);
 
   // Clean up temporary circle if created
   if (tempCircle) {
     tempCircle.remove();
   }
 
-  await drawPopupOverlays(map, ctx, size);
-
-  return canvas;
-}
-
-interface PopupLayout {
-  left: number;
-  top: number;
-  width: number;
-  height: number;
-  contentLines: string[];
-  padding: { left: number; right: number; top: number; bottom: number };
-  lineHeight: number;
-  font: string;
-  tipHalfDiagonal: number;
-  wrapperPadding: number;
-  anchor: PointLike;
-}
+  for (const tooltip of collectTooltipLayers(map)) {
+    const layout = await measureTooltipLayout(map, tooltip, htmlLayout);
+    if (layout) {
+      target.drawTooltip(layout);
+    }
+  }
 
-function collectPopupLayers(map: any): any[] {
-  const L = (globalThis as any).L;
-  const PopupClass = L?.Popup;
-  const popups: any[] = [];
-  const seen = new Set<any>();
+  for (const popup of collectPopupLayers(map)) {
+    const layout = await measurePopupLayout(map, popup, popupChrome);
+    if (layout) {
+      target.drawPopup(layout);
+    }
+  }
 
-  if (map?._popup && map.hasLayer?.(map._popup)) {
-    popups.push(map._popup);
-    seen.add(map._popup);
+  const toggles = resolveControlToggles(controls);
+  if (Object.values(toggles).some(Boolean)) {
+    for (const layout of await measureControlLayouts(map, htmlLayout, toggles)) {
+      try {
+        target.drawHtml(layout.element, layout.box, translation(layout.left, layout.top), 1);
+      } catch (error) {
+        console.warn(`leaflet-node: failed to draw ${layout.kind} control: ${(error as Error).message}`);
+      }
+    }
   }
+}
 
-  const layers = map?._layers ?? {};
-  for (const layer of Object.values(layers)) {
-    if (
-      PopupClass
-      && layer instanceof PopupClass
-      && map.hasLayer?.(layer)
-      && !seen.has(layer)
-    ) {
-      popups.push(layer);
-      seen.add(layer);
+/**
+ * Find the Leaflet canvas renderer that owns a canvas element, if any
+ */
+export function findCanvasRenderer(map: any, element: HTMLCanvasElement): any {
+  const L: any = leafletOf(map);
+  for (const layer of Object.values(map._layers ?? {}) as any[]) {
+    if (L?.Canvas && layer instanceof L.Canvas && layer._container === element) {
+      return layer;
     }
   }
+  return null;
+}
 
-  return popups;
+/**
+ * Wrap a context so alpha values assigned to it are scaled by a base alpha;
+ * Leaflet's canvas renderer sets `globalAlpha` outright for each path, which
+ * would otherwise drop the opacity of the renderer's pane
+ */
+function withBaseAlpha(ctx: CanvasRenderingContext2D, alpha: number): CanvasRenderingContext2D {
+  return new Proxy(ctx, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set(target, property, value) {
+      return Reflect.set(target, property, property === 'globalAlpha' ? value * alpha : value, target);
+    },
+  });
 }
 
-function normalisePopupText(contentNode: HTMLElement | null | undefined): string[] {
-  if (!contentNode) {
-    return [''];
+/**
+ * The canvas composite operation for a CSS blend mode
+ */
+export function blendOperation(blendMode: string): GlobalCompositeOperation {
+  if (blendMode === 'normal') {
+    return 'source-over';
   }
+  return (blendMode === 'plus-lighter' ? 'lighter' : blendMode) as GlobalCompositeOperation;
+}
 
-  const rawHtml = contentNode.innerHTML ?? '';
-  const normalisedHtml = rawHtml.replace(/<br\s*\/?>(\s*)/gi, '\n$1');
-  const decoder = contentNode.ownerDocument?.createElement('div') ?? null;
-  if (decoder) {
-    decoder.innerHTML = normalisedHtml;
-  }
-  const text = (decoder?.textContent ?? contentNode.textContent ?? '').replace(/\r/g, '');
-  const lines = text.split('\n').map((line) => line.trim());
-  if (lines.length === 0) {
-    return [''];
+/**
+ * Apply a CSS filter to a group layer, returning the layer itself when there is none
+ *
+ * @param scale - Layer pixels per map pixel, which blur radii are scaled by
+ */
+export function filterLayer(layer: Canvas, filter: string | null, scale: number): Canvas {
+  if (!filter) {
+    return layer;
   }
 
-  // Preserve blank lines if they separate content, otherwise collapse duplicates
-  const result: string[] = [];
-  for (const line of lines) {
-    if (!line && result.length > 0 && result[result.length - 1] === '') {
-      continue;
+  const filtered = createCanvas(layer.width, layer.height);
+  const ctx = filtered.getContext('2d');
+  ctx.filter = filter.replace(/blur\(\s*([\d.]+)px\s*\)/g, (_match, radius: string) => `blur(${parseFloat(radius) * scale}px)`);
+  ctx.drawImage(layer, 0, 0);
+  return filtered;
+}
+
+/**
+ * Redraw the layers of a Leaflet canvas renderer onto another context
+ *
+ * The renderer's own context is swapped out while its layers repaint, so the
+ * paths are drawn with whatever transform the target context has rather than
+ * copied as pixels. Layer points are relative to the renderer bounds the
+ * canvas is positioned at.
+ */
+export function replayCanvasRenderer(renderer: any, ctx: CanvasRenderingContext2D, x: number, y: number): void {
+  const origin = renderer._bounds?.min ?? { x: 0, y: 0 };
+  const originalContext = renderer._ctx;
+  const originalDrawing = renderer._drawing;
+  ctx.save();
+  ctx.translate(x - origin.x, y - origin.y);
+  try {
+    renderer._ctx = ctx.globalAlpha < 1 ? withBaseAlpha(ctx, ctx.globalAlpha) : ctx;
+    renderer._drawing = true;
+    for (let order = renderer._drawFirst; order; order = order.next) {
+      order.layer._updatePath();
     }
-    result.push(line);
+  } finally {
+    renderer._ctx = originalContext;
+    renderer._drawing = originalDrawing;
+    ctx.restore();
   }
-
-  return result.length > 0 ? result : [''];
 }
 
-function measurePopupLayout(
-  map: any,
-  popup: any,
-  ctx: CanvasRenderingContext2D,
-  _size?: { x: number; y: number }
-): PopupLayout | null {
-  if (!popup || typeof popup.getLatLng !== 'function') {
+/**
+ * Load the retina replacements for an image, or null if any of them fail
+ */
+async function loadRetinaImages(
+  element: HTMLImageElement,
+  sources: RetinaSource[]
+): Promise<CanvasImage[] | null> {
+  try {
+    return await Promise.all(
+      sources.map((source) => loadImageSource(source.url, (element as any)._headlessRequest))
+    );
+  } catch {
     return null;
   }
+}
 
-  const L = (globalThis as any).L;
-  if (!L) {
-    return null;
+/**
+ * Move the edges of a scaled tile onto whole device pixels, so tiles scaled
+ * for fractional zoom levels meet without antialiased seams
+ *
+ * @param device - Current transform of the context the tile is drawn on
+ * @returns The adjusted matrix, relative to the device transform
+ */
+function snapTileToPixels(device: AffineMatrix, matrix: AffineMatrix, width: number, height: number): AffineMatrix {
+  const [a, b, c, d, e, f] = multiplyMatrices(device, matrix);
+  if (b !== 0 || c !== 0 || device[1] !== 0 || device[2] !== 0 || width <= 0 || height <= 0) {
+    return matrix;
   }
 
-  const latLng = popup.getLatLng();
-  const containerPoint = map.latLngToContainerPoint(latLng);
-  const anchorPoint = popup._getAnchor ? L.point(popup._getAnchor()) : L.point(0, 0);
-  const optionOffset = popup.options?.offset ? L.point(popup.options.offset) : L.point(0, 0);
-  const anchorPosition = containerPoint.add(anchorPoint).add(optionOffset);
-
-  const contentNode: HTMLElement | null = popup._contentNode
-    ?? popup._container?.querySelector?.('.leaflet-popup-content')
-    ?? null;
-  const contentLines = normalisePopupText(contentNode);
-
-  const baseFontSize = 13;
-  const font = `${baseFontSize}px "Helvetica Neue", Arial, Helvetica, sans-serif`;
-  const previousFont = ctx.font;
-  ctx.font = font;
-  const measuredWidths = contentLines.map((line) => ctx.measureText(line).width);
-  ctx.font = previousFont;
-
-  const minContentWidth = popup.options?.minWidth ?? 50;
-  const maxContentWidth = popup.options?.maxWidth ?? 300;
-  const measuredContentWidth = Math.max(0, ...measuredWidths);
-  const constrainedContentWidth = Math.max(
-    minContentWidth,
-    Math.min(maxContentWidth, measuredContentWidth)
-  );
-  const contentWidth = constrainedContentWidth + 1; // mirrors Leaflet's +1 adjustment
-  const padding = { left: 20, right: 24, top: 13, bottom: 13 };
-  const wrapperPadding = 1;
-  const boxWidth = contentWidth + padding.left + padding.right + wrapperPadding * 2;
-  const lineHeight = baseFontSize * 1.3;
-  const contentHeight = Math.max(lineHeight, lineHeight * contentLines.length);
-  const boxHeight = contentHeight + padding.top + padding.bottom + wrapperPadding * 2;
-  const tipHalfDiagonal = 17 / Math.SQRT2;
-
-  const wrapperBottom = anchorPosition.y - tipHalfDiagonal;
-  const left = anchorPosition.x - boxWidth / 2;
-  const top = wrapperBottom - boxHeight;
+  const left = Math.round(e);
+  const top = Math.round(f);
+  const snapped: AffineMatrix = [(Math.round(e + a * width) - left) / width, 0, 0, (Math.round(f + d * height) - top) / height, left, top];
+  // Undo the device scale and offset
+  const inverse: AffineMatrix = [1 / device[0], 0, 0, 1 / device[3], -device[4] / device[0], -device[5] / device[3]];
+  return multiplyMatrices(inverse, snapped);
+}
 
-  return {
-    left,
-    top,
-    width: boxWidth,
-    height: boxHeight,
-    contentLines,
-    padding,
-    lineHeight,
-    font,
-    tipHalfDiagonal,
-    wrapperPadding,
-    anchor: { x: anchorPosition.x, y: anchorPosition.y },
+/**
+ * Create a render target drawing onto a 2D canvas context
+ *
+ * With a scale above 1 the context is expected to be scaled already; vector
+ * layers are redrawn at that resolution and images with retina variants are
+ * swapped for them.
+ */
+function createCanvasTarget(map: any, base: SKRSContext2D, scale: number): MapRenderTarget & { fallbacks: string[] } {
+  const retinaSources = scale > 1 ? collectRetinaSources(map) : new Map<HTMLImageElement, RetinaSource[]>();
+  const fallbacks: string[] = [];
+  // Groups are drawn into layers the size of the output, then composited onto their parent
+  const parents: SKRSContext2D[] = [];
+  let ctx = base;
+  const drawAt = (matrix: AffineMatrix, opacity: number, draw: () => void) => {
+    ctx.save();
+    ctx.transform(...matrix);
+    ctx.globalAlpha = opacity;
+    draw();
+    ctx.restore();
   };
-}
 
-function drawRoundedRect(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number
-): void {
-  const clampedRadius = Math.min(radius, width / 2, height / 2);
-
-  ctx.beginPath();
-  ctx.moveTo(x + clampedRadius, y);
-  ctx.lineTo(x + width - clampedRadius, y);
-  ctx.quadraticCurveTo(x + width, y, x + width, y + clampedRadius);
-  ctx.lineTo(x + width, y + height - clampedRadius);
-  ctx.quadraticCurveTo(x + width, y + height, x + width - clampedRadius, y + height);
-  ctx.lineTo(x + clampedRadius, y + height);
-  ctx.quadraticCurveTo(x, y + height, x, y + height - clampedRadius);
-  ctx.lineTo(x, y + clampedRadius);
-  ctx.quadraticCurveTo(x, y, x + clampedRadius, y);
-  ctx.closePath();
+  return {
+    fallbacks,
+    async drawImage(element, image, matrix, width, height, opacity) {
+      if (element.classList.contains('leaflet-tile') && !isTranslation(matrix)) {
+        const { a, b, c, d, e, f } = ctx.getTransform();
+        matrix = snapTileToPixels([a, b, c, d, e, f], matrix, width, height);
+      }
+
+      const sources = retinaSources.get(element);
+      const retinaImages = sources ? await loadRetinaImages(element, sources) : null;
+      if (!sources || !retinaImages) {
+        if (sources) {
+          fallbacks.push(element.src);
+        }
+        drawAt(matrix, opacity, () => ctx.drawImage(image, 0, 0, width, height));
+        return;
+      }
+
+      drawAt(matrix, opacity, () => {
+        sources.forEach((source, index) => {
+          ctx.drawImage(
+            retinaImages[index],
+            source.x * width,
+            source.y * height,
+            source.width * width,
+            source.height * height
+          );
+        });
+      });
+    },
+    drawCanvas(element, napiCanvas, matrix, opacity) {
+      const renderer = scale !== 1 ? findCanvasRenderer(map, element) : null;
+      drawAt(matrix, opacity, () => {
+        if (renderer) {
+          replayCanvasRenderer(renderer, ctx as unknown as CanvasRenderingContext2D, 0, 0);
+        } else {
+          ctx.drawImage(napiCanvas, 0, 0);
+        }
+      });
+    },
+    drawHtml(_element, box, matrix, opacity) {
+      drawAt(matrix, opacity, () => paintHtmlBox(ctx as unknown as CanvasRenderingContext2D, box, 0, 0));
+    },
+    beginGroup() {
+      const layer = createCanvas(base.canvas.width, base.canvas.height).getContext('2d');
+      layer.setTransform(ctx.getTransform());
+      parents.push(ctx);
+      ctx = layer;
+    },
+    endGroup(effects) {
+      const layer = filterLayer(ctx.canvas, effects.filter, scale);
+      ctx = parents.pop() ?? base;
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalCompositeOperation = blendOperation(effects.blendMode);
+      ctx.drawImage(layer, 0, 0);
+      ctx.restore();
+    },
+    drawTooltip(layout) {
+      drawTooltip(ctx as unknown as CanvasRenderingContext2D, layout);
+    },
+    drawPopup(layout) {
+      drawPopup(ctx as unknown as CanvasRenderingContext2D, layout);
+    },
+  };
 }
 
-async function drawPopupOverlays(
+/**
+ * Export a Leaflet map to a canvas element
+ *
+ * @param map - The Leaflet map instance
+ * @param scale - Device pixel ratio of the output; 2 produces a canvas twice the map size
+ * @param controls - Which map controls to draw
+ * @param popupChrome - Draw popups with their bubble, tip and close button
+ * @returns Promise that resolves with a Canvas element
+ */
+export async function mapToCanvas(
   map: any,
-  ctx: CanvasRenderingContext2D,
-  size?: { x: number; y: number }
-): Promise<void> {
-  const popupLayers = collectPopupLayers(map);
-  if (popupLayers.length === 0) {
-    return;
+  scale = 1,
+  controls: boolean | ExportControlsOptions = false,
+  popupChrome = true
+): Promise<Canvas> {
+  if (!(Number.isFinite(scale) && scale > 0)) {
+    throw new Error(`Export scale must be a positive number, got ${scale}`);
   }
 
-  for (const popup of popupLayers) {
-    const layout = measurePopupLayout(map, popup, ctx, size);
-    if (!layout) {
-      continue;
-    }
-
-    const {
-      left,
-      top,
-      width,
-      height,
-      contentLines,
-      padding,
-      lineHeight,
-      font,
-      tipHalfDiagonal,
-      wrapperPadding,
-      anchor,
-    } = layout;
-
-    const wrapperBottom = top + height;
-    const tipCenterX = anchor.x;
-    const tipCenterY = anchor.y - tipHalfDiagonal;
-    const tipBaseY = wrapperBottom - wrapperPadding;
-    const tipLeftBaseX = tipCenterX - tipHalfDiagonal;
-    const tipRightBaseX = tipCenterX + tipHalfDiagonal;
+  const size = map.getSize();
+  const canvas = createCanvas(Math.round(size.x * scale), Math.round(size.y * scale));
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scale, scale);
 
-    ctx.save();
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
-    ctx.shadowBlur = 14;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 3;
-    ctx.fillStyle = '#ffffff';
-    drawRoundedRect(ctx, left, top, width, height, 12);
-    ctx.fill();
-    ctx.beginPath();
-    ctx.moveTo(tipLeftBaseX, tipBaseY);
-    ctx.lineTo(anchor.x, anchor.y);
-    ctx.lineTo(tipRightBaseX, tipBaseY);
-    ctx.closePath();
-    ctx.fill();
-    ctx.restore();
+  const target = createCanvasTarget(map, ctx, scale);
+  await renderMapLayers(map, target, controls, popupChrome);
 
-    ctx.save();
-    ctx.fillStyle = '#ffffff';
-    ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
-    ctx.lineWidth = 1;
-
-    ctx.beginPath();
-    ctx.moveTo(tipLeftBaseX, tipBaseY);
-    ctx.lineTo(anchor.x, anchor.y);
-    ctx.lineTo(tipRightBaseX, tipBaseY);
-    ctx.closePath();
-    ctx.fill();
-    ctx.stroke();
-
-    drawRoundedRect(ctx, left, top, width, height, 12);
-    ctx.stroke();
-
-    ctx.font = font;
-    ctx.textBaseline = 'top';
-    ctx.fillStyle = '#333333';
-    let textY = top + wrapperPadding + padding.top;
-    const textX = left + wrapperPadding + padding.left;
-    for (const line of contentLines) {
-      ctx.fillText(line, textX, textY);
-      textY += lineHeight;
-    }
-
-    ctx.restore();
+  if (target.fallbacks.length > 0) {
+    console.warn(
+      `leaflet-node: ${target.fallbacks.length} high-resolution image(s) failed to load; ` +
+      `used the standard resolution for:\n${target.fallbacks.map((url) => `  ${url}`).join('\n')}`
+    );
   }
+  return canvas;
 }
 
 /**
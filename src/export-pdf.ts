@@ -0,0 +1,847 @@
+/**
+ * PDF export for Leaflet maps
+ *
+ * Uses the same traversal as the raster export, drawing onto a small
+ * Canvas 2D compatible context that records PDF content stream operators
+ * instead of pixels. Tiles and icons become embedded image XObjects, vector
+ * layers are replayed through their Leaflet canvas renderer so paths match
+ * the PNG output exactly, and popup text is written as real (selectable)
+ * PDF text using the standard Helvetica fonts. Blend modes map to PDF blend
+ * modes, while groups with a CSS filter are rasterised.
+ */
+
+import * as zlib from 'zlib';
+import { createCanvas } from '@napi-rs/canvas';
+import type { Canvas, Image as CanvasImage, SKRSContext2D } from '@napi-rs/canvas';
+import { blendOperation, filterLayer, findCanvasRenderer, renderMapLayers, replayCanvasRenderer } from './export-image.js';
+import type { AffineMatrix, MapRenderTarget } from './export-image.js';
+import { paintHtmlBox } from './html-render.js';
+import { drawTooltip } from './export-tooltip.js';
+import { drawPopup } from './export-popup.js';
+import type { PDFExportOptions, PDFPageSize } from './types.js';
+
+const PAGE_SIZES: Record<PDFPageSize, [number, number]> = {
+  A3: [841.89, 1190.55],
+  A4: [595.28, 841.89],
+  A5: [419.53, 595.28],
+  Letter: [612, 792],
+  Legal: [612, 1008],
+  Tabloid: [792, 1224],
+};
+
+const DEFAULT_MARGIN = 36;
+// Raster layers for filtered groups are drawn at twice the map resolution
+const FILTER_RASTER_SCALE = 2;
+const DEFAULT_DPI = 96;
+
+// Helvetica ascent and descent as fractions of the font size
+const FONT_ASCENT = 0.718;
+const FONT_DESCENT = 0.207;
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+  // WinAnsi has no minus sign, used by the zoom out button; the en dash is closest
+  '\u2212': 0x96,
+};
+
+/**
+ * PDF blend modes for canvas composite operations; the others draw normally
+ */
+const PDF_BLEND_MODES: Record<string, string> = {
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  darken: 'Darken',
+  lighten: 'Lighten',
+  'color-dodge': 'ColorDodge',
+  'color-burn': 'ColorBurn',
+  'hard-light': 'HardLight',
+  'soft-light': 'SoftLight',
+  difference: 'Difference',
+  exclusion: 'Exclusion',
+  hue: 'Hue',
+  saturation: 'Saturation',
+  color: 'Color',
+  luminosity: 'Luminosity',
+};
+
+type Matrix = [number, number, number, number, number, number];
+
+type DrawableImage = CanvasImage | Canvas;
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface ContextState {
+  transform: Matrix;
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  lineCap: string;
+  lineJoin: string;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+}
+
+interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  rgb: Buffer;
+  alpha: Buffer | null;
+}
+
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    return '0';
+  }
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/**
+ * Encode text for a WinAnsi-encoded PDF string literal
+ */
+function encodePdfText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code < 256 && (code >= 160 || (code >= 32 && code < 127)) ? code : 63);
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      result += `\\${String.fromCharCode(byte)}`;
+    } else if (byte < 127) {
+      result += String.fromCharCode(byte);
+    } else {
+      result += `\\${byte.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Canvas 2D compatible context that records drawing as PDF operators
+ *
+ * Implements the subset of the API used by Leaflet's canvas renderer, the
+ * popup drawing code and the HTML layer painter. Paths are transformed to map pixel space as they
+ * are built, matching canvas semantics; shadows are ignored.
+ */
+class PdfRecordingContext {
+  readonly operators: string[] = [];
+  readonly images = new Map<DrawableImage, PdfImage>();
+  readonly graphicsStates = new Map<string, { name: string; fill: number; stroke: number; blendMode: string | null }>();
+
+  shadowColor = 'rgba(0, 0, 0, 0)';
+  shadowBlur = 0;
+  shadowOffsetX = 0;
+  shadowOffsetY = 0;
+
+  private state: ContextState = {
+    transform: [1, 0, 0, 1, 0, 0],
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    lineDash: [],
+    lineDashOffset: 0,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+  };
+  private stack: ContextState[] = [];
+  private path: string[] = [];
+  private current: { x: number; y: number } | null = null;
+  private subpathStart: { x: number; y: number } | null = null;
+  private readonly scratch = createCanvas(1, 1).getContext('2d');
+
+  get globalAlpha(): number { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = Math.min(1, Math.max(0, value)); }
+  get globalCompositeOperation(): string { return this.state.globalCompositeOperation; }
+  set globalCompositeOperation(value: string) { this.state.globalCompositeOperation = value; }
+  get fillStyle(): string { return this.state.fillStyle; }
+  set fillStyle(value: string) { this.state.fillStyle = String(value); }
+  get strokeStyle(): string { return this.state.strokeStyle; }
+  set strokeStyle(value: string) { this.state.strokeStyle = String(value); }
+  get lineWidth(): number { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineCap(): string { return this.state.lineCap; }
+  set lineCap(value: string) { this.state.lineCap = value; }
+  get lineJoin(): string { return this.state.lineJoin; }
+  set lineJoin(value: string) { this.state.lineJoin = value; }
+  get miterLimit(): number { return this.state.miterLimit; }
+  set miterLimit(value: number) { this.state.miterLimit = value; }
+  get lineDashOffset(): number { return this.state.lineDashOffset; }
+  set lineDashOffset(value: number) { this.state.lineDashOffset = value; }
+  get font(): string { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign(): string { return this.state.textAlign; }
+  set textAlign(value: string) { this.state.textAlign = value; }
+  get textBaseline(): string { return this.state.textBaseline; }
+  set textBaseline(value: string) { this.state.textBaseline = value; }
+
+  save(): void {
+    this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] });
+    // Only the clipping path lives in the PDF graphics state
+    this.operators.push('q');
+  }
+
+  restore(): void {
+    const previous = this.stack.pop();
+    if (previous) {
+      this.state = previous;
+      this.operators.push('Q');
+    }
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = multiply(this.state.transform, [a, b, c, d, e, f]);
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = segments.filter((value) => Number.isFinite(value) && value >= 0);
+  }
+
+  getLineDash(): number[] {
+    return [...this.state.lineDash];
+  }
+
+  beginPath(): void {
+    this.path = [];
+    this.current = null;
+    this.subpathStart = null;
+  }
+
+  moveTo(x: number, y: number): void {
+    const point = this.apply(x, y);
+    this.path.push(`${formatNumber(point.x)} ${formatNumber(point.y)} m`);
+    this.current = point;
+    this.subpathStart = point;
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(x, y);
+      return;
+    }
+    const point = this.apply(x, y);
+    this.path.push(`${formatNumber(point.x)} ${formatNumber(point.y)} l`);
+    this.current = point;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(cp1x, cp1y);
+    }
+    const c1 = this.apply(cp1x, cp1y);
+    const c2 = this.apply(cp2x, cp2y);
+    const end = this.apply(x, y);
+    this.path.push(
+      `${formatNumber(c1.x)} ${formatNumber(c1.y)} ${formatNumber(c2.x)} ${formatNumber(c2.y)} ` +
+      `${formatNumber(end.x)} ${formatNumber(end.y)} c`
+    );
+    this.current = end;
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(cpx, cpy);
+    }
+    // Convert to a cubic curve in user space
+    const start = this.invert(this.current!);
+    this.bezierCurveTo(
+      start.x + (2 / 3) * (cpx - start.x),
+      start.y + (2 / 3) * (cpy - start.y),
+      x + (2 / 3) * (cpx - x),
+      y + (2 / 3) * (cpy - y),
+      x,
+      y
+    );
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false): void {
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep < 0) {
+      sweep = sweep % (2 * Math.PI) + 2 * Math.PI;
+    } else if (counterclockwise && sweep > 0) {
+      sweep = sweep % (2 * Math.PI) - 2 * Math.PI;
+    }
+    sweep = Math.max(-2 * Math.PI, Math.min(2 * Math.PI, sweep));
+
+    const startX = x + radius * Math.cos(startAngle);
+    const startY = y + radius * Math.sin(startAngle);
+    if (this.current) {
+      this.lineTo(startX, startY);
+    } else {
+      this.moveTo(startX, startY);
+    }
+
+    // Approximate with cubic curves of at most a quarter turn each
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+    const step = sweep / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+    let angle = startAngle;
+    for (let i = 0; i < segments; i++) {
+      const next = angle + step;
+      const cos1 = Math.cos(angle);
+      const sin1 = Math.sin(angle);
+      const cos2 = Math.cos(next);
+      const sin2 = Math.sin(next);
+      this.bezierCurveTo(
+        x + radius * (cos1 - k * sin1),
+        y + radius * (sin1 + k * cos1),
+        x + radius * (cos2 + k * sin2),
+        y + radius * (sin2 - k * cos2),
+        x + radius * cos2,
+        y + radius * sin2
+      );
+      angle = next;
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  closePath(): void {
+    if (this.current) {
+      this.path.push('h');
+      this.current = this.subpathStart;
+    }
+  }
+
+  fill(fillRule: 'nonzero' | 'evenodd' = 'nonzero'): void {
+    const color = this.parseColor(this.state.fillStyle);
+    const alpha = color.a * this.state.globalAlpha;
+    if (this.path.length === 0 || alpha <= 0) {
+      return;
+    }
+
+    this.operators.push(
+      'q',
+      ...this.graphicsStateOperators(alpha, 1),
+      `${this.colorComponents(color)} rg`,
+      ...this.path,
+      fillRule === 'evenodd' ? 'f*' : 'f',
+      'Q'
+    );
+  }
+
+  clip(fillRule: 'nonzero' | 'evenodd' = 'nonzero'): void {
+    if (this.path.length === 0) {
+      return;
+    }
+    this.operators.push(...this.path, fillRule === 'evenodd' ? 'W* n' : 'W n');
+  }
+
+  stroke(): void {
+    const color = this.parseColor(this.state.strokeStyle);
+    const alpha = color.a * this.state.globalAlpha;
+    if (this.path.length === 0 || alpha <= 0 || this.state.lineWidth <= 0) {
+      return;
+    }
+
+    // Line widths and dashes are in user space at the time of stroking
+    const [a, b, c, d] = this.state.transform;
+    const scale = Math.sqrt(Math.abs(a * d - b * c));
+    const dash = this.state.lineDash.map((value) => formatNumber(value * scale)).join(' ');
+
+    this.operators.push(
+      'q',
+      ...this.graphicsStateOperators(1, alpha),
+      `${this.colorComponents(color)} RG`,
+      `${formatNumber(this.state.lineWidth * scale)} w`,
+      `${({ round: 1, square: 2 } as Record<string, number>)[this.state.lineCap] ?? 0} J`,
+      `${({ round: 1, bevel: 2 } as Record<string, number>)[this.state.lineJoin] ?? 0} j`,
+      `${formatNumber(this.state.miterLimit)} M`,
+      `[${dash}] ${formatNumber(this.state.lineDashOffset * scale)} d`,
+      ...this.path,
+      'S',
+      'Q'
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.beginPath();
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.stroke();
+    this.beginPath();
+  }
+
+  clearRect(): void {
+    // PDF pages have no backing pixels to clear
+  }
+
+  measureText(text: string): { width: number } {
+    this.scratch.font = this.state.font;
+    return { width: this.scratch.measureText(text).width };
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const color = this.parseColor(this.state.fillStyle);
+    const alpha = color.a * this.state.globalAlpha;
+    if (!text || alpha <= 0) {
+      return;
+    }
+
+    const sizeMatch = /(\d+(?:\.\d+)?)px/.exec(this.state.font);
+    const size = sizeMatch ? parseFloat(sizeMatch[1]) : 10;
+    const bold = /\bbold(er)?\b|\b[6-9]00\b/.test(this.state.font);
+
+    const width = this.measureText(text).width;
+    if (this.state.textAlign === 'center') {
+      x -= width / 2;
+    } else if (this.state.textAlign === 'right' || this.state.textAlign === 'end') {
+      x -= width;
+    }
+
+    switch (this.state.textBaseline) {
+    case 'top':
+    case 'hanging':
+      y += FONT_ASCENT * size;
+      break;
+    case 'middle':
+      y += ((FONT_ASCENT - FONT_DESCENT) / 2) * size;
+      break;
+    case 'bottom':
+    case 'ideographic':
+      y -= FONT_DESCENT * size;
+      break;
+    }
+
+    // Text space has y pointing up, so flip it against the y-down map space
+    const [a, b, c, d] = this.state.transform;
+    const origin = this.apply(x, y);
+    this.operators.push(
+      'q',
+      ...this.graphicsStateOperators(alpha, 1),
+      `${this.colorComponents(color)} rg`,
+      'BT',
+      `/${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      `${formatNumber(a)} ${formatNumber(b)} ${formatNumber(-c)} ${formatNumber(-d)} ` +
+        `${formatNumber(origin.x)} ${formatNumber(origin.y)} Tm`,
+      `(${encodePdfText(text)}) Tj`,
+      'ET',
+      'Q'
+    );
+  }
+
+  drawImage(image: DrawableImage, x: number, y: number, width = image.width, height = image.height): void {
+    if (width <= 0 || height <= 0 || this.state.globalAlpha <= 0) {
+      return;
+    }
+
+    const pdfImage = this.registerImage(image);
+    const [a, b, c, d, e, f] = this.state.transform;
+    this.operators.push(
+      'q',
+      ...this.graphicsStateOperators(this.state.globalAlpha, this.state.globalAlpha),
+      [a, b, c, d, e, f].map(formatNumber).join(' ') + ' cm',
+      // Image space has its first row at the top of the unit square
+      `${formatNumber(width)} 0 0 ${formatNumber(-height)} ${formatNumber(x)} ${formatNumber(y + height)} cm`,
+      `/${pdfImage.name} Do`,
+      'Q'
+    );
+  }
+
+  private registerImage(image: DrawableImage): PdfImage {
+    const existing = this.images.get(image);
+    if (existing) {
+      return existing;
+    }
+
+    const width = Math.max(1, image.width);
+    const height = Math.max(1, image.height);
+    const scratch = createCanvas(width, height);
+    const ctx = scratch.getContext('2d');
+    ctx.drawImage(image as CanvasImage, 0, 0);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const rgb = Buffer.alloc(width * height * 3);
+    const alpha = Buffer.alloc(width * height);
+    let opaque = true;
+    for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+      rgb[j * 3] = data[i];
+      rgb[j * 3 + 1] = data[i + 1];
+      rgb[j * 3 + 2] = data[i + 2];
+      alpha[j] = data[i + 3];
+      opaque = opaque && data[i + 3] === 255;
+    }
+
+    const pdfImage: PdfImage = {
+      name: `Im${this.images.size + 1}`,
+      width,
+      height,
+      rgb: zlib.deflateSync(rgb),
+      alpha: opaque ? null : zlib.deflateSync(alpha),
+    };
+    this.images.set(image, pdfImage);
+    return pdfImage;
+  }
+
+  private graphicsStateOperators(fill: number, stroke: number): string[] {
+    const blendMode = PDF_BLEND_MODES[this.state.globalCompositeOperation] ?? null;
+    if (fill >= 1 && stroke >= 1 && !blendMode) {
+      return [];
+    }
+
+    const key = `${formatNumber(fill)}:${formatNumber(stroke)}:${blendMode ?? ''}`;
+    let state = this.graphicsStates.get(key);
+    if (!state) {
+      state = { name: `GS${this.graphicsStates.size + 1}`, fill, stroke, blendMode };
+      this.graphicsStates.set(key, state);
+    }
+    return [`/${state.name} gs`];
+  }
+
+  private parseColor(value: string): RGBA {
+    this.scratch.fillStyle = '#000000';
+    this.scratch.fillStyle = value;
+    const normalised = String(this.scratch.fillStyle);
+
+    const hex = /^#([0-9a-f]{6})$/i.exec(normalised);
+    if (hex) {
+      const number = parseInt(hex[1], 16);
+      return { r: (number >> 16) & 255, g: (number >> 8) & 255, b: number & 255, a: 1 };
+    }
+
+    const rgba = /^rgba?\(([^)]+)\)$/i.exec(normalised);
+    if (rgba) {
+      const [r, g, b, a = '1'] = rgba[1].split(',').map((part) => part.trim());
+      return { r: parseFloat(r), g: parseFloat(g), b: parseFloat(b), a: parseFloat(a) };
+    }
+
+    return { r: 0, g: 0, b: 0, a: 1 };
+  }
+
+  private colorComponents(color: RGBA): string {
+    return [color.r, color.g, color.b].map((component) => formatNumber(component / 255)).join(' ');
+  }
+
+  private apply(x: number, y: number): { x: number; y: number } {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return { x: a * x + c * y + e, y: b * x + d * y + f };
+  }
+
+  private invert(point: { x: number; y: number }): { x: number; y: number } {
+    const [a, b, c, d, e, f] = this.state.transform;
+    const determinant = a * d - b * c || 1;
+    const x = point.x - e;
+    const y = point.y - f;
+    return { x: (d * x - c * y) / determinant, y: (a * y - b * x) / determinant };
+  }
+}
+
+/**
+ * The drawing calls of the PDF target, made on the recording context or on a
+ * raster layer
+ */
+type TargetContext = Pick<
+  PdfRecordingContext,
+  'save' | 'restore' | 'transform' | 'drawImage' | 'globalAlpha' | 'globalCompositeOperation'
+>;
+
+/**
+ * Create a render target drawing onto a PDF recording context
+ */
+function createPdfTarget(map: any, pdf: PdfRecordingContext): MapRenderTarget {
+  const size = map.getSize();
+  // PDF has no filters, so filtered groups and the groups inside them are drawn into raster layers
+  const groups: { parent: TargetContext; layer: SKRSContext2D | null }[] = [];
+  let ctx: TargetContext = pdf;
+  const drawAt = (matrix: AffineMatrix, opacity: number, draw: () => void) => {
+    ctx.save();
+    ctx.transform(...matrix);
+    ctx.globalAlpha = opacity;
+    draw();
+    ctx.restore();
+  };
+
+  return {
+    drawImage(_element, image, matrix, width, height, opacity) {
+      drawAt(matrix, opacity, () => ctx.drawImage(image, 0, 0, width, height));
+    },
+
+    drawCanvas(element, napiCanvas, matrix, opacity) {
+      const renderer = findCanvasRenderer(map, element);
+      drawAt(matrix, opacity, () => {
+        if (renderer) {
+          replayCanvasRenderer(renderer, ctx as unknown as CanvasRenderingContext2D, 0, 0);
+        } else {
+          ctx.drawImage(napiCanvas, 0, 0);
+        }
+      });
+    },
+
+    drawHtml(_element, box, matrix, opacity) {
+      drawAt(matrix, opacity, () => paintHtmlBox(ctx as unknown as CanvasRenderingContext2D, box, 0, 0));
+    },
+
+    beginGroup(effects) {
+      if (!effects.filter && ctx === pdf) {
+        pdf.save();
+        pdf.globalCompositeOperation = blendOperation(effects.blendMode);
+        groups.push({ parent: ctx, layer: null });
+        return;
+      }
+
+      const layer = createCanvas(
+        Math.ceil(size.x * FILTER_RASTER_SCALE),
+        Math.ceil(size.y * FILTER_RASTER_SCALE)
+      ).getContext('2d');
+      layer.scale(FILTER_RASTER_SCALE, FILTER_RASTER_SCALE);
+      groups.push({ parent: ctx, layer });
+      ctx = layer as unknown as TargetContext;
+    },
+
+    endGroup(effects) {
+      const group = groups.pop();
+      if (!group?.layer) {
+        pdf.restore();
+        return;
+      }
+
+      ctx = group.parent;
+      ctx.save();
+      ctx.globalCompositeOperation = blendOperation(effects.blendMode);
+      ctx.drawImage(filterLayer(group.layer.canvas, effects.filter, FILTER_RASTER_SCALE), 0, 0, size.x, size.y);
+      ctx.restore();
+    },
+
+    drawTooltip(layout) {
+      drawTooltip(pdf as unknown as CanvasRenderingContext2D, layout);
+    },
+
+    drawPopup(layout) {
+      pdf.save();
+      drawPopup(pdf as unknown as CanvasRenderingContext2D, layout);
+      pdf.restore();
+    },
+  };
+}
+
+function resolveMargins(margin: PDFExportOptions['margin']): { top: number; right: number; bottom: number; left: number } {
+  if (typeof margin === 'number' || margin === undefined) {
+    const value = margin ?? DEFAULT_MARGIN;
+    return { top: value, right: value, bottom: value, left: value };
+  }
+  return {
+    top: margin.top ?? DEFAULT_MARGIN,
+    right: margin.right ?? DEFAULT_MARGIN,
+    bottom: margin.bottom ?? DEFAULT_MARGIN,
+    left: margin.left ?? DEFAULT_MARGIN,
+  };
+}
+
+function resolvePageSize(options: PDFExportOptions): [number, number] {
+  const requested = options.pageSize ?? 'A4';
+  const size = Array.isArray(requested) ? requested : PAGE_SIZES[requested];
+  if (!size || !(size[0] > 0 && size[1] > 0)) {
+    throw new Error(`Unsupported PDF page size: ${JSON.stringify(requested)}`);
+  }
+
+  const [short, long] = size[0] <= size[1] ? size : [size[1], size[0]];
+  if (options.orientation === 'landscape') {
+    return [long, short];
+  }
+  if (options.orientation === 'portrait') {
+    return [short, long];
+  }
+  return [size[0], size[1]];
+}
+
+/**
+ * Serialise a single-page PDF document
+ */
+function writePdf(
+  pageWidth: number,
+  pageHeight: number,
+  content: string,
+  ctx: PdfRecordingContext
+): Buffer {
+  const objects: Buffer[] = [];
+  const reserve = (): number => {
+    objects.push(Buffer.alloc(0));
+    return objects.length;
+  };
+  const set = (id: number, body: string | Buffer[]): void => {
+    const parts = typeof body === 'string' ? [Buffer.from(body, 'latin1')] : body;
+    objects[id - 1] = Buffer.concat([Buffer.from(`${id} 0 obj\n`), ...parts, Buffer.from('\nendobj\n')]);
+  };
+  const stream = (dictionary: string, data: Buffer): Buffer[] => [
+    Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream'),
+  ];
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const pageId = reserve();
+  const contentId = reserve();
+  const regularFontId = reserve();
+  const boldFontId = reserve();
+  const infoId = reserve();
+
+  const xObjects: string[] = [];
+  for (const image of ctx.images.values()) {
+    const imageId = reserve();
+    let smask = '';
+    if (image.alpha) {
+      const maskId = reserve();
+      set(maskId, stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        '/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode',
+        image.alpha
+      ));
+      smask = ` /SMask ${maskId} 0 R`;
+    }
+    set(imageId, stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode${smask}`,
+      image.rgb
+    ));
+    xObjects.push(`/${image.name} ${imageId} 0 R`);
+  }
+
+  const graphicsStates = Array.from(ctx.graphicsStates.values())
+    .map((state) =>
+      `/${state.name} << /Type /ExtGState /ca ${formatNumber(state.fill)} /CA ${formatNumber(state.stroke)}` +
+      `${state.blendMode ? ` /BM /${state.blendMode}` : ''} >>`
+    );
+
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  set(pagesId, `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>`);
+  set(pageId,
+    `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] ` +
+    `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> ` +
+    `/ExtGState << ${graphicsStates.join(' ')} >> /XObject << ${xObjects.join(' ')} >> >> ` +
+    `/Contents ${contentId} 0 R >>`
+  );
+  set(contentId, stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(content, 'latin1'))));
+  set(regularFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  set(boldFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  set(infoId, '<< /Producer (leaflet-node) >>');
+
+  const header = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+  const offsets: number[] = [];
+  let offset = header.length;
+  for (const object of objects) {
+    offsets.push(offset);
+    offset += object.length;
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+
+  return Buffer.concat([header, ...objects, Buffer.from(xref, 'latin1')]);
+}
+
+/**
+ * Export a Leaflet map to a single-page PDF document
+ *
+ * The map is placed at `dpi` map pixels per inch, centred within the page
+ * margins and scaled down to fit when it would not.
+ *
+ * @param map - The Leaflet map instance
+ * @param options - Page size, orientation, margins, DPI, controls and popup chrome
+ * @returns Promise that resolves with the PDF bytes
+ */
+export async function mapToPDF(map: any, options: PDFExportOptions = {}): Promise<Buffer> {
+  const size = map.getSize();
+  const [pageWidth, pageHeight] = resolvePageSize(options);
+  const margins = resolveMargins(options.margin);
+  const dpi = options.dpi ?? DEFAULT_DPI;
+  if (!(dpi > 0)) {
+    throw new Error(`PDF DPI must be positive, got ${dpi}`);
+  }
+
+  const availableWidth = pageWidth - margins.left - margins.right;
+  const availableHeight = pageHeight - margins.top - margins.bottom;
+  if (availableWidth <= 0 || availableHeight <= 0) {
+    throw new Error('PDF margins leave no room for the map');
+  }
+
+  const scale = Math.min(72 / dpi, availableWidth / size.x, availableHeight / size.y);
+  const left = margins.left + (availableWidth - size.x * scale) / 2;
+  const top = margins.top + (availableHeight - size.y * scale) / 2;
+
+  const ctx = new PdfRecordingContext();
+  await renderMapLayers(map, createPdfTarget(map, ctx), options.controls, options.popupChrome);
+
+  // Map pixel space: origin at the map's top-left corner, y pointing down, clipped to the map
+  const content = [
+    'q',
+    `${formatNumber(scale)} 0 0 ${formatNumber(-scale)} ${formatNumber(left)} ${formatNumber(pageHeight - top)} cm`,
+    `0 0 ${size.x} ${size.y} re W n`,
+    ...ctx.operators,
+    'Q',
+    '',
+  ].join('\n');
+
+  return writePdf(pageWidth, pageHeight, content, ctx);
+}
@@ -0,0 +1,285 @@
+/**
+ * Popups in map exports
+ *
+ * The popup's content wrapper is laid out from its DOM content with Leaflet's
+ * stylesheet, so formatted text, links, lists, tables and images inside the
+ * popup look as they do in a browser. jsdom reports no element sizes, so the
+ * content is sized again the way Leaflet's `Popup._updateLayout` does it:
+ * as wide as its unwrapped lines between `minWidth` and `maxWidth`, and
+ * scrolled (clipped) when taller than `maxHeight`. For the same reason
+ * `autoPan` is applied only while exporting, when the popup's size is known,
+ * and the view is moved back afterwards.
+ */
+
+import { createHtmlLayoutContext, layoutHtmlElement, paintHtmlBox } from './html-render.js';
+import type { HtmlBox } from './html-render.js';
+import type { PointLike } from './export-image.js';
+import { leafletOf } from './leaflet-instance.js';
+
+/**
+ * Geometry and content of an open popup in container pixels
+ */
+export interface PopupLayout {
+  element: HTMLElement;
+  /**
+   * The laid out content wrapper, holding the popup's background, radius and shadow
+   */
+  box: HtmlBox;
+  /**
+   * Top-left corner of the wrapper's border box
+   */
+  left: number;
+  top: number;
+  /**
+   * The tip container, clipping the rotated tip square below the wrapper
+   */
+  tip: { box: HtmlBox; left: number; top: number } | null;
+  /**
+   * Half the diagonal of the tip square, from the tip's centre to its point
+   */
+  tipHalfDiagonal: number;
+  /**
+   * The close button in the top right corner, unless disabled
+   */
+  closeButton: { box: HtmlBox; left: number; top: number } | null;
+  /**
+   * Point of the tip
+   */
+  anchor: PointLike;
+}
+
+/**
+ * Collect the popups open on a map
+ */
+export function collectPopupLayers(map: any): any[] {
+  const L = leafletOf(map);
+  const PopupClass = L?.Popup;
+  const popups: any[] = [];
+  const seen = new Set<any>();
+
+  if (map?._popup && map.hasLayer?.(map._popup)) {
+    popups.push(map._popup);
+    seen.add(map._popup);
+  }
+
+  const layers = map?._layers ?? {};
+  for (const layer of Object.values(layers)) {
+    if (
+      PopupClass
+      && layer instanceof PopupClass
+      && map.hasLayer?.(layer)
+      && !seen.has(layer)
+    ) {
+      popups.push(layer);
+      seen.add(layer);
+    }
+  }
+
+  return popups;
+}
+
+/**
+ * Size the content node as Leaflet's `Popup._updateLayout` would with real
+ * element sizes, writing the same inline styles and scrolled class
+ */
+async function updateContentLayout(popup: any, content: HTMLElement): Promise<void> {
+  const { style } = content;
+  const minWidth = popup.options?.minWidth ?? 50;
+  const maxWidth = popup.options?.maxWidth ?? 300;
+  const maxHeight = popup.options?.maxHeight;
+
+  style.width = '';
+  style.whiteSpace = 'nowrap';
+  const unwrapped = await layoutHtmlElement(content, createHtmlLayoutContext(content.ownerDocument, Infinity));
+  const width = Math.max(minWidth, Math.min(maxWidth, unwrapped?.width ?? 0));
+  style.width = `${width + 1}px`;
+  style.whiteSpace = '';
+
+  style.height = '';
+  const scrolledClass = 'leaflet-popup-scrolled';
+  const wrapped = await layoutHtmlElement(content, createHtmlLayoutContext(content.ownerDocument, Infinity));
+  if (maxHeight && wrapped && wrapped.height > maxHeight) {
+    style.height = `${maxHeight}px`;
+    content.classList.add(scrolledClass);
+  } else {
+    content.classList.remove(scrolledClass);
+  }
+}
+
+/**
+ * Copy of a laid out wrapper without its background, shadow and border
+ */
+function withoutChrome(box: HtmlBox): HtmlBox {
+  const style = {
+    ...box.style,
+    backgroundColor: 'transparent',
+    boxShadow: null,
+    borderColor: box.style.borderColor.map(() => 'transparent') as typeof box.style.borderColor,
+  };
+  return { ...box, style, background: null };
+}
+
+/**
+ * Lay out an open popup, with its tip pointing at the popup's anchor
+ *
+ * @param chrome - Include the bubble, tip and close button, or only the content
+ */
+export async function measurePopupLayout(map: any, popup: any, chrome = true): Promise<PopupLayout | null> {
+  const L = leafletOf(map);
+  const latLng = popup?.getLatLng?.();
+  const element: HTMLElement | undefined = popup?._container;
+  const content: HTMLElement | undefined = popup?._contentNode
+    ?? element?.querySelector<HTMLElement>('.leaflet-popup-content')
+    ?? undefined;
+  const wrapper: HTMLElement | null | undefined = popup?._wrapper ?? content?.parentElement;
+  if (!L || !latLng || !element || !content || !wrapper) {
+    return null;
+  }
+
+  await updateContentLayout(popup, content);
+  const context = createHtmlLayoutContext(element.ownerDocument, Infinity);
+  const box = await layoutHtmlElement(wrapper, context);
+  if (!box) {
+    return null;
+  }
+
+  const containerPoint = map.latLngToContainerPoint(latLng);
+  const anchorPoint = L.point(popup._getAnchor?.() ?? [0, 0]);
+  const offset = L.point(popup.options?.offset ?? [0, 0]);
+  const anchor = containerPoint.add(anchorPoint).add(offset);
+
+  // The tip is a square rotated by 45 degrees, half hidden under the wrapper
+  const tipContainer: HTMLElement | null | undefined = popup._tipContainer ?? popup._tip?.parentElement;
+  const tipContainerBox = tipContainer ? await layoutHtmlElement(tipContainer, context) : null;
+  const tipBox = tipContainerBox?.children[0];
+  const tipHalfDiagonal = tipBox ? tipBox.width / Math.SQRT2 : 0;
+
+  let wrapperBottom = anchor.y - tipHalfDiagonal;
+  let tip: PopupLayout['tip'] = null;
+  if (tipContainerBox && tipBox) {
+    const tipTop = anchor.y - tipHalfDiagonal - tipBox.y - tipBox.height / 2;
+    wrapperBottom = tipTop - tipContainerBox.margin.top;
+    tip = { box: tipContainerBox, left: anchor.x - tipContainerBox.width / 2, top: tipTop };
+  }
+
+  // Leaflet rounds the offset of the container from its anchor
+  const left = anchor.x - Math.round(box.width / 2);
+  const top = wrapperBottom - box.height;
+
+  // The close button sits in the container's corner, which is the wrapper's
+  let closeButton: PopupLayout['closeButton'] = null;
+  const closeElement: HTMLElement | undefined = popup._closeButton;
+  const closeBox = popup.options?.closeButton !== false && closeElement
+    ? await layoutHtmlElement(closeElement, context)
+    : null;
+  if (closeBox) {
+    closeButton = {
+      box: closeBox,
+      left: left + box.width - closeBox.width - (parseFloat(closeBox.style.offsets.right) || 0),
+      top: top + (parseFloat(closeBox.style.offsets.top) || 0),
+    };
+  }
+
+  return {
+    element,
+    box: chrome ? box : withoutChrome(box),
+    left,
+    top,
+    tip: chrome ? tip : null,
+    tipHalfDiagonal,
+    closeButton: chrome ? closeButton : null,
+    anchor: { x: anchor.x, y: anchor.y },
+  };
+}
+
+/**
+ * Pan the map so that popups waiting for Leaflet's `autoPan` are fully in
+ * view, as `Popup._adjustPan` does once the popup has a size
+ *
+ * @returns Moves the map back to the view it had before, once the export is
+ * done; the popups keep waiting to be panned into view by later exports
+ */
+export async function panPopupsIntoView(map: any): Promise<() => void> {
+  const L = leafletOf(map);
+  // Panning the map settles pending pans, so collect them first
+  const pending = collectPopupLayers(map).filter((popup) => popup._headlessPanPending);
+  let panned = L.point(0, 0);
+
+  for (const popup of pending) {
+    const layout = await measurePopupLayout(map, popup);
+    if (!layout) {
+      continue;
+    }
+
+    // The container's bottom margin reaches down to the anchor
+    const { options } = popup;
+    const padding = L.point(options.autoPanPadding ?? [0, 0]);
+    const paddingTopLeft = L.point(options.autoPanPaddingTopLeft || padding);
+    const paddingBottomRight = L.point(options.autoPanPaddingBottomRight || padding);
+    const size = map.getSize();
+    const width = layout.box.width;
+    const height = layout.anchor.y - layout.top;
+    let dx = 0;
+    let dy = 0;
+
+    if (layout.left + width + paddingBottomRight.x > size.x) {
+      dx = layout.left + width - size.x + paddingBottomRight.x;
+    }
+    if (layout.left - dx - paddingTopLeft.x < 0) {
+      dx = layout.left - paddingTopLeft.x;
+    }
+    if (layout.top + height + paddingBottomRight.y > size.y) {
+      dy = layout.top + height - size.y + paddingBottomRight.y;
+    }
+    if (layout.top - dy - paddingTopLeft.y < 0) {
+      dy = layout.top - paddingTopLeft.y;
+    }
+
+    // Leaflet pans by whole pixels, so panning back restores the view exactly
+    const offset = L.point(dx, dy).round();
+    if (offset.x || offset.y) {
+      map.panBy(offset, { animate: false });
+      panned = panned.add(offset);
+    }
+  }
+
+  return () => {
+    if (panned.x || panned.y) {
+      map.panBy(panned.multiplyBy(-1), { animate: false });
+    }
+    for (const popup of pending) {
+      popup._headlessPanPending = true;
+    }
+  };
+}
+
+/**
+ * Draw the tip of a popup, clipped to its container below the wrapper
+ */
+function drawPopupTip(ctx: CanvasRenderingContext2D, layout: PopupLayout): void {
+  const { tip, anchor, tipHalfDiagonal } = layout;
+  const tipBox = tip?.box.children[0];
+  if (!tip || !tipBox) {
+    return;
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(tip.left, tip.top, tip.box.width, tip.box.height);
+  ctx.clip();
+  ctx.translate(anchor.x, anchor.y - tipHalfDiagonal);
+  ctx.rotate(Math.PI / 4);
+  paintHtmlBox(ctx, { ...tipBox, x: -tipBox.width / 2, y: -tipBox.height / 2 }, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Draw a popup's wrapper, content, tip and close button onto a 2D context
+ */
+export function drawPopup(ctx: CanvasRenderingContext2D, layout: PopupLayout): void {
+  paintHtmlBox(ctx, layout.box, layout.left, layout.top);
+  drawPopupTip(ctx, layout);
+  if (layout.closeButton) {
+    paintHtmlBox(ctx, layout.closeButton.box, layout.closeButton.left, layout.closeButton.top);
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * SVG export for Leaflet maps
+ *
+ * Walks the map with the same traversal as the raster export, but instead of
+ * compositing pixels it emits an SVG document: tiles, marker icons and image
+ * overlays become embedded `<image>` elements, vector layers drawn by canvas
+ * renderers are re-emitted as `<path>` elements using Leaflet's own SVG
+ * renderer logic, and popups are drawn as shapes and text.
+ */
+
+import { createCanvas } from '@napi-rs/canvas';
+import type { Canvas, Image as CanvasImage } from '@napi-rs/canvas';
+import { findCanvasRenderer, isTranslation, renderMapLayers } from './export-image.js';
+import type { AffineMatrix, MapRenderTarget } from './export-image.js';
+import { leafletOf } from './leaflet-instance.js';
+import { htmlBoxBounds, paintHtmlBox } from './html-render.js';
+import type { HtmlBox } from './html-render.js';
+import type { PopupLayout } from './export-popup.js';
+import { drawTooltip } from './export-tooltip.js';
+import type { ExportControlsOptions } from './types.js';
+
+const POPUP_SHADOW_ID = 'leaflet-popup-shadow';
+
+/**
+ * Resolution HTML layers and tooltips are rasterised at, relative to map pixels
+ */
+const HTML_RASTER_SCALE = 2;
+
+/**
+ * Escape text for use in SVG content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function detectMimeType(buffer: Buffer): string | null {
+  if (buffer.length >= 8 && buffer.toString('hex', 0, 8) === '89504e470d0a1a0a') {
+    return 'image/png';
+  }
+  if (buffer.length >= 3 && buffer.toString('hex', 0, 3) === 'ffd8ff') {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 6 && buffer.toString('ascii', 0, 3) === 'GIF') {
+    return 'image/gif';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp' && buffer.toString('ascii', 8, 12) === 'avif') {
+    return 'image/avif';
+  }
+  const head = buffer.toString('utf-8', 0, Math.min(buffer.length, 256)).trimStart();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+    return 'image/svg+xml';
+  }
+  return null;
+}
+
+/**
+ * Encode a decoded image as a data URI, reusing its original bytes when available
+ */
+function imageToDataUri(image: CanvasImage, cache: Map<CanvasImage, string>): string {
+  const cached = cache.get(image);
+  if (cached) {
+    return cached;
+  }
+
+  let uri: string;
+  const source = (image as unknown as { src?: unknown }).src;
+  const mimeType = Buffer.isBuffer(source) ? detectMimeType(source) : null;
+
+  if (Buffer.isBuffer(source) && mimeType) {
+    uri = `data:${mimeType};base64,${source.toString('base64')}`;
+  } else {
+    const scratch = createCanvas(Math.max(1, image.width), Math.max(1, image.height));
+    scratch.getContext('2d').drawImage(image, 0, 0);
+    uri = `data:image/png;base64,${scratch.toBuffer('image/png').toString('base64')}`;
+  }
+
+  cache.set(image, uri);
+  return uri;
+}
+
+/**
+ * Record the path data and style attributes Leaflet's SVG renderer would
+ * produce for a layer drawn by a canvas renderer
+ */
+function layerToSvgPath(L: any, layer: any): string | null {
+  const attributes = new Map<string, string>();
+  let pathData: string | null = null;
+
+  const originalRenderer = layer._renderer;
+  const recorder = Object.create(L.SVG.prototype);
+  // Layers consult their renderer's bounds to skip shapes outside the view
+  recorder._bounds = originalRenderer._bounds;
+  recorder._setPath = (_layer: unknown, d: string) => {
+    pathData = d;
+  };
+
+  try {
+    layer._renderer = recorder;
+    layer._updatePath();
+  } finally {
+    layer._renderer = originalRenderer;
+  }
+
+  if (!pathData || pathData === 'M0 0') {
+    return null;
+  }
+
+  L.SVG.prototype._updateStyle.call(recorder, {
+    options: layer.options,
+    _path: {
+      setAttribute: (name: string, value: unknown) => attributes.set(name, String(value)),
+      removeAttribute: (name: string) => attributes.delete(name),
+    },
+  });
+
+  const attributeText = Array.from(attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+  return `<path d="${escapeXml(pathData)}"${attributeText}/>`;
+}
+
+function roundedRectPath(x: number, y: number, width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2);
+  const f = formatNumber;
+  return [
+    `M${f(x + r)},${f(y)}`,
+    `L${f(x + width - r)},${f(y)}`,
+    `Q${f(x + width)},${f(y)} ${f(x + width)},${f(y + r)}`,
+    `L${f(x + width)},${f(y + height - r)}`,
+    `Q${f(x + width)},${f(y + height)} ${f(x + width - r)},${f(y + height)}`,
+    `L${f(x + r)},${f(y + height)}`,
+    `Q${f(x)},${f(y + height)} ${f(x)},${f(y + height - r)}`,
+    `L${f(x)},${f(y + r)}`,
+    `Q${f(x)},${f(y)} ${f(x + r)},${f(y)}`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Copy of a laid out box without its text, to rasterise the rest of its content
+ */
+function withoutText(box: HtmlBox): HtmlBox {
+  return { ...box, text: [], children: box.children.map(withoutText) };
+}
+
+/**
+ * Whether anything other than text would be painted for a box's descendants
+ */
+function paintsBesidesText(box: HtmlBox): boolean {
+  return box.children.some((child) => {
+    const { style, borderWidth: border } = child;
+    return child.image !== null
+      || child.background !== null
+      || style.backgroundColor !== 'transparent'
+      || style.boxShadow !== null
+      || border.top + border.right + border.bottom + border.left > 0
+      || paintsBesidesText(child);
+  });
+}
+
+/**
+ * An `opacity` attribute for partly transparent elements
+ */
+function opacityAttribute(opacity: number): string {
+  return opacity < 1 ? ` opacity="${formatNumber(opacity)}"` : '';
+}
+
+/**
+ * Emit the text runs of a laid out box as `<text>` elements, clipped to the
+ * boxes whose overflow is hidden
+ */
+function htmlTextToSvg(box: HtmlBox, x: number, y: number, nextClipId: () => string): string {
+  const { style, borderWidth: border } = box;
+  const left = x + box.x;
+  const top = y + box.y;
+  if (style.opacity <= 0) {
+    return '';
+  }
+
+  const f = formatNumber;
+  const runs = style.visibility === 'hidden' ? [] : box.text.map((run) => {
+    const decoration = run.decoration.length > 0 ? ` text-decoration="${run.decoration.join(' ')}"` : '';
+    return `<text x="${f(left + run.x)}" y="${f(top + run.y)}" style="font: ${escapeXml(run.font)}" ` +
+      `fill="${escapeXml(run.color)}"${decoration} xml:space="preserve">${escapeXml(run.text)}</text>`;
+  });
+  const children = box.children.map((child) => htmlTextToSvg(child, left, top, nextClipId));
+  const content = [...children, ...runs].join('');
+  if (!content) {
+    return '';
+  }
+
+  const opacity = opacityAttribute(style.opacity);
+  if (!style.overflowHidden) {
+    return opacity ? `<g${opacity}>${content}</g>` : content;
+  }
+
+  const clipId = nextClipId();
+  return (
+    `<clipPath id="${clipId}"><rect x="${f(left + border.left)}" y="${f(top + border.top)}" ` +
+    `width="${f(box.width - border.left - border.right)}" height="${f(box.height - border.top - border.bottom)}"/></clipPath>` +
+    `<g clip-path="url(#${clipId})"${opacity}>${content}</g>`
+  );
+}
+
+function popupToSvg(layout: PopupLayout, nextClipId: () => string): string {
+  const { box, left, top, tip, anchor, closeButton } = layout;
+  const f = formatNumber;
+
+  const radius = parseFloat(box.style.radius) || 0;
+  const chrome = roundedRectPath(left, top, box.width, box.height, radius);
+  const tipBox = tip?.box.children[0];
+  const tipTop = tip?.top ?? top + box.height;
+  const tipHalfWidth = anchor.y - tipTop;
+  const tipPath = `M${f(anchor.x - tipHalfWidth)},${f(tipTop)} L${f(anchor.x)},${f(anchor.y)} ` +
+    `L${f(anchor.x + tipHalfWidth)},${f(tipTop)} Z`;
+  const filter = box.style.boxShadow ? ` filter="url(#${POPUP_SHADOW_ID})"` : '';
+
+  // Images, backgrounds and borders inside the popup have no SVG equivalent here
+  const decorations = paintsBesidesText(box)
+    ? rasteriseToSvgImage(layout.element, htmlBoxBounds({ ...box, x: left, y: top }), (ctx) => {
+      paintHtmlBox(ctx, { ...withoutText(box), style: { ...box.style, backgroundColor: 'transparent', boxShadow: null } }, left, top);
+    })
+    : '';
+
+  return [
+    '<g class="leaflet-popup">',
+    box.style.backgroundColor !== 'transparent' || filter
+      ? `<path d="${chrome}" fill="${escapeXml(box.style.backgroundColor)}"${filter}/>`
+      : '',
+    tipBox ? `<path d="${tipPath}" fill="${escapeXml(tipBox.style.backgroundColor)}"${filter}/>` : '',
+    decorations,
+    htmlTextToSvg(box, left, top, nextClipId),
+    closeButton ? htmlTextToSvg(closeButton.box, closeButton.left, closeButton.top, nextClipId) : '',
+    '</g>',
+  ].join('');
+}
+
+/**
+ * Position attributes placing an element's top left corner with a matrix:
+ * plain coordinates when it only translates, a transform otherwise
+ */
+function placementAttributes(matrix: AffineMatrix): string {
+  if (isTranslation(matrix)) {
+    return ` x="${formatNumber(matrix[4])}" y="${formatNumber(matrix[5])}"`;
+  }
+  return ` x="0" y="0" transform="matrix(${matrix.map(formatNumber).join(' ')})"`;
+}
+
+/**
+ * Bounding box in map pixels of a rectangle mapped through a matrix
+ */
+function transformBounds(
+  matrix: AffineMatrix,
+  bounds: { left: number; top: number; right: number; bottom: number }
+): { left: number; top: number; right: number; bottom: number } {
+  const [a, b, c, d, e, f] = matrix;
+  const corners = [
+    [bounds.left, bounds.top],
+    [bounds.right, bounds.top],
+    [bounds.left, bounds.bottom],
+    [bounds.right, bounds.bottom],
+  ].map(([x, y]) => ({ x: a * x + c * y + e, y: b * x + d * y + f }));
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+}
+
+/**
+ * Paint part of the map into a raster `<image>`, for content with no SVG
+ * equivalent here such as HTML layers
+ *
+ * @param bounds - Area in map pixels to capture
+ * @param paint - Draws in map pixels
+ */
+function rasteriseToSvgImage(
+  element: Element,
+  bounds: { left: number; top: number; right: number; bottom: number },
+  paint: (ctx: CanvasRenderingContext2D) => void
+): string {
+  const left = Math.floor(bounds.left);
+  const top = Math.floor(bounds.top);
+  const width = Math.ceil(bounds.right) - left;
+  const height = Math.ceil(bounds.bottom) - top;
+  if (width <= 0 || height <= 0) {
+    return '';
+  }
+
+  const scratch = createCanvas(width * HTML_RASTER_SCALE, height * HTML_RASTER_SCALE);
+  const ctx = scratch.getContext('2d');
+  ctx.scale(HTML_RASTER_SCALE, HTML_RASTER_SCALE);
+  ctx.translate(-left, -top);
+  paint(ctx as unknown as CanvasRenderingContext2D);
+
+  const className = element.getAttribute('class');
+  return (
+    `<image${className ? ` class="${escapeXml(className)}"` : ''} x="${left}" y="${top}" ` +
+    `width="${width}" height="${height}" preserveAspectRatio="none" ` +
+    `xlink:href="data:image/png;base64,${scratch.toBuffer('image/png').toString('base64')}"/>`
+  );
+}
+
+/**
+ * Create a render target collecting SVG markup
+ */
+function createSvgTarget(map: any, parts: string[]): MapRenderTarget {
+  const L = leafletOf(map);
+  const dataUris = new Map<CanvasImage, string>();
+  const f = formatNumber;
+  let clipCount = 0;
+
+  return {
+    drawImage(element, image, matrix, width, height, opacity) {
+      const className = element.getAttribute('class');
+      parts.push(
+        `<image${className ? ` class="${escapeXml(className)}"` : ''}${placementAttributes(matrix)} ` +
+        `width="${f(width)}" height="${f(height)}" preserveAspectRatio="none"${opacityAttribute(opacity)} ` +
+        `xlink:href="${imageToDataUri(image, dataUris)}"/>`
+      );
+    },
+
+    drawCanvas(element, napiCanvas: Canvas, matrix, opacity) {
+      const renderer = findCanvasRenderer(map, element);
+      if (!renderer) {
+        // Not a vector renderer: embed its pixels
+        parts.push(
+          `<image${placementAttributes(matrix)} width="${napiCanvas.width}" height="${napiCanvas.height}"${opacityAttribute(opacity)} ` +
+          `xlink:href="data:image/png;base64,${napiCanvas.toBuffer('image/png').toString('base64')}"/>`
+        );
+        return;
+      }
+
+      // Layer points are relative to the renderer bounds, which the canvas element is positioned at
+      const origin = renderer._bounds?.min ?? { x: 0, y: 0 };
+      const paths: string[] = [];
+      for (let order = renderer._drawFirst; order; order = order.next) {
+        const path = layerToSvgPath(L, order.layer);
+        if (path) {
+          paths.push(path);
+        }
+      }
+
+      if (paths.length > 0) {
+        const transform = isTranslation(matrix)
+          ? `translate(${f(matrix[4] - origin.x)} ${f(matrix[5] - origin.y)})`
+          : `matrix(${matrix.map(f).join(' ')}) translate(${f(-origin.x)} ${f(-origin.y)})`;
+        parts.push(
+          `<g class="leaflet-vector-layer" transform="${transform}"${opacityAttribute(opacity)}>` +
+          `${paths.join('')}</g>`
+        );
+      }
+    },
+
+    drawHtml(element, box, matrix, opacity) {
+      parts.push(rasteriseToSvgImage(element, transformBounds(matrix, htmlBoxBounds(box)), (ctx) => {
+        ctx.globalAlpha = opacity;
+        ctx.transform(...matrix);
+        paintHtmlBox(ctx, box, 0, 0);
+      }));
+    },
+
+    beginGroup(effects) {
+      const style = [
+        effects.filter ? `filter: ${effects.filter}` : '',
+        effects.blendMode !== 'normal' ? `mix-blend-mode: ${effects.blendMode}` : '',
+      ].filter(Boolean).join('; ');
+      parts.push(`<g style="${escapeXml(style)}">`);
+    },
+
+    endGroup() {
+      parts.push('</g>');
+    },
+
+    drawTooltip(layout) {
+      // Leave room around the box for the tip
+      const bounds = htmlBoxBounds(layout.box);
+      const margin = 6;
+      parts.push(rasteriseToSvgImage(layout.element, {
+        left: layout.left + bounds.left - margin,
+        top: layout.top + bounds.top - margin,
+        right: layout.left + bounds.right + margin,
+        bottom: layout.top + bounds.bottom + margin,
+      }, (ctx) => {
+        drawTooltip(ctx, layout);
+      }));
+    },
+
+    drawPopup(layout) {
+      parts.push(popupToSvg(layout, () => `leaflet-popup-clip-${++clipCount}`));
+    },
+  };
+}
+
+/**
+ * Export a Leaflet map to an SVG document
+ *
+ * @param map - The Leaflet map instance
+ * @param controls - Which map controls to draw
+ * @param popupChrome - Draw popups with their bubble, tip and close button
+ * @returns Promise that resolves with the SVG markup
+ */
+export async function mapToSVG(
+  map: any,
+  controls: boolean | ExportControlsOptions = false,
+  popupChrome = true
+): Promise<string> {
+  const size = map.getSize();
+  const parts: string[] = [];
+  await renderMapLayers(map, createSvgTarget(map, parts), controls, popupChrome);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${size.x}" height="${size.y}" viewBox="0 0 ${size.x} ${size.y}">`,
+    '<defs>',
+    `<clipPath id="leaflet-map-clip"><rect width="${size.x}" height="${size.y}"/></clipPath>`,
+    `<filter id="${POPUP_SHADOW_ID}" x="-20%" y="-20%" width="140%" height="160%">` +
+      '<feDropShadow dx="0" dy="3" stdDeviation="7" flood-color="#000000" flood-opacity="0.4"/></filter>',
+    '</defs>',
+    '<g clip-path="url(#leaflet-map-clip)">',
+    ...parts,
+    '</g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
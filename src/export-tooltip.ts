@@ -0,0 +1,158 @@
+/**
+ * Tooltips in map exports
+ *
+ * Open tooltips, including permanent label tooltips, are laid out from their
+ * DOM content with Leaflet's stylesheet, so the default look and any
+ * `className` styles carry over. Their position is worked out again the way
+ * Leaflet does it, because jsdom reports no element sizes to Leaflet.
+ */
+
+import { layoutHtmlElement, paintHtmlBox } from './html-render.js';
+import type { HtmlBox, HtmlLayoutContext } from './html-render.js';
+import { leafletOf } from './leaflet-instance.js';
+
+/**
+ * Size of the tip arrow, matching the 6px borders of Leaflet's `:before` tips
+ */
+const TIP_SIZE = 6;
+
+export type TooltipDirection = 'top' | 'bottom' | 'left' | 'right' | 'center';
+
+/**
+ * Geometry and content of an open tooltip in container pixels
+ */
+export interface TooltipLayout {
+  element: HTMLElement;
+  box: HtmlBox;
+  /**
+   * Top-left corner of the tooltip's border box
+   */
+  left: number;
+  top: number;
+  /**
+   * Resolved direction; `auto` becomes `left` or `right`
+   */
+  direction: TooltipDirection;
+}
+
+/**
+ * Collect the tooltips open on a map, permanent or not
+ */
+export function collectTooltipLayers(map: any): any[] {
+  const L = leafletOf(map);
+  const TooltipClass = L?.Tooltip;
+  if (!TooltipClass) {
+    return [];
+  }
+
+  return Object.values(map?._layers ?? {}).filter(
+    (layer) => layer instanceof TooltipClass && map.hasLayer?.(layer) && (layer as any)._container
+  );
+}
+
+/**
+ * Lay out an open tooltip and position it as Leaflet's `Tooltip._setPosition` would
+ */
+export async function measureTooltipLayout(
+  map: any,
+  tooltip: any,
+  context: HtmlLayoutContext
+): Promise<TooltipLayout | null> {
+  const L = leafletOf(map);
+  const element: HTMLElement = tooltip._container;
+  const latLng = tooltip.getLatLng?.();
+  if (!L || !latLng) {
+    return null;
+  }
+
+  const box = await layoutHtmlElement(element, context);
+  if (!box || box.style.opacity <= 0) {
+    return null;
+  }
+
+  const tooltipPoint = map.latLngToContainerPoint(latLng);
+  const centerPoint = map.latLngToContainerPoint(map.getCenter());
+  const offset = L.point(tooltip.options?.offset ?? [0, 0]);
+  const anchor = L.point(tooltip._getAnchor?.() ?? [0, 0]);
+
+  let direction = tooltip.options?.direction ?? 'auto';
+  let subX: number;
+  let subY: number;
+  if (direction === 'top') {
+    subX = box.width / 2;
+    subY = box.height;
+  } else if (direction === 'bottom') {
+    subX = box.width / 2;
+    subY = 0;
+  } else if (direction === 'center') {
+    subX = box.width / 2;
+    subY = box.height / 2;
+  } else if (direction === 'right') {
+    subX = 0;
+    subY = box.height / 2;
+  } else if (direction === 'left') {
+    subX = box.width;
+    subY = box.height / 2;
+  } else if (tooltipPoint.x < centerPoint.x) {
+    direction = 'right';
+    subX = 0;
+    subY = box.height / 2;
+  } else {
+    direction = 'left';
+    subX = box.width + (offset.x + anchor.x) * 2;
+    subY = box.height / 2;
+  }
+
+  // Leaflet's direction classes nudge the tooltip away from its point with margins
+  const marginLeft = parseFloat(box.style.margin.left) || 0;
+  const marginTop = parseFloat(box.style.margin.top) || 0;
+
+  const position = tooltipPoint.subtract(L.point(subX, subY, true)).add(offset).add(anchor);
+  return {
+    element,
+    box,
+    left: position.x + marginLeft,
+    top: position.y + marginTop,
+    direction,
+  };
+}
+
+/**
+ * Draw a tooltip box and tip arrow onto a 2D context
+ */
+export function drawTooltip(ctx: CanvasRenderingContext2D, layout: TooltipLayout): void {
+  const { box, left, top, direction } = layout;
+  const { borderWidth: border, style } = box;
+
+  paintHtmlBox(ctx, box, left, top);
+  if (direction === 'center' || style.visibility === 'hidden') {
+    return;
+  }
+
+  // The tip is a bordered empty box just inside the side facing the anchor
+  const inner = {
+    left: left + border.left,
+    top: top + border.top,
+    right: left + box.width - border.right,
+    bottom: top + box.height - border.bottom,
+  };
+  const middleX = (inner.left + inner.right) / 2;
+  const middleY = (inner.top + inner.bottom) / 2;
+  const [color, points] = ({
+    top: [style.borderColor[0], [[middleX - TIP_SIZE, inner.bottom], [middleX + TIP_SIZE, inner.bottom], [middleX, inner.bottom + TIP_SIZE]]],
+    bottom: [style.borderColor[2], [[middleX - TIP_SIZE, inner.top], [middleX + TIP_SIZE, inner.top], [middleX, inner.top - TIP_SIZE]]],
+    left: [style.borderColor[3], [[inner.right, middleY - TIP_SIZE], [inner.right, middleY + TIP_SIZE], [inner.right + TIP_SIZE, middleY]]],
+    right: [style.borderColor[1], [[inner.left, middleY - TIP_SIZE], [inner.left, middleY + TIP_SIZE], [inner.left - TIP_SIZE, middleY]]],
+  } as Record<string, [string, number[][]]>)[direction];
+
+  ctx.save();
+  ctx.globalAlpha *= style.opacity;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(points[0][0], points[0][1]);
+  ctx.lineTo(points[1][0], points[1][1]);
+  ctx.lineTo(points[2][0], points[2][1]);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
@@ -0,0 +1,2036 @@
+/**
+ * Basic HTML/CSS box rendering for map exports
+ *
+ * jsdom has no layout engine, so HTML layers such as `L.divIcon` markers and
+ * div-based GridLayer tiles are laid out here with a small subset of CSS:
+ * block, inline and simple flex flow with line wrapping and collapsing
+ * margins, lists and simple tables, absolutely and relatively positioned
+ * children, backgrounds, borders, border radius, box shadows, opacity, text
+ * styles and decorations, and nested `<img>`/`<svg>` elements. Styles cascade
+ * from a few user agent defaults, the document's stylesheets and inline
+ * styles; selector specificity is honoured but `!important` is not.
+ *
+ * Layout is asynchronous because nested images are loaded to learn their
+ * size; painting is synchronous and only uses the Canvas 2D calls the PDF
+ * recording context also implements.
+ */
+
+import { createCanvas } from '@napi-rs/canvas';
+import type { Image as CanvasImage, SKRSContext2D } from '@napi-rs/canvas';
+import { bufferToImage, loadImageSource } from './image.js';
+
+type Sides = { top: number; right: number; bottom: number; left: number };
+
+/**
+ * Computed styles for one element, with lengths that depend on the containing
+ * block left unresolved
+ */
+interface BoxStyle {
+  display: string;
+  visibility: string;
+  position: string;
+  opacity: number;
+  zIndex: number | null;
+  /**
+   * The supported functions of the `filter` value, or null for none
+   */
+  filter: string | null;
+  mixBlendMode: string;
+  transform: string;
+  transformOrigin: string;
+  overflowHidden: boolean;
+  borderBox: boolean;
+  width: string;
+  height: string;
+  offsets: { top: string; right: string; bottom: string; left: string };
+  margin: { top: string; right: string; bottom: string; left: string };
+  padding: { top: string; right: string; bottom: string; left: string };
+  borderWidth: Sides;
+  borderStyle: [string, string, string, string];
+  borderColor: [string, string, string, string];
+  radius: string;
+  backgroundColor: string;
+  backgroundImage: string | null;
+  backgroundSize: string;
+  backgroundPosition: string;
+  backgroundRepeat: string;
+  boxShadow: { x: number; y: number; blur: number; color: string } | null;
+  color: string;
+  fontStyle: string;
+  fontWeight: string;
+  fontSize: number;
+  fontFamily: string;
+  lineHeight: { value: number; unitless: boolean };
+  textAlign: string;
+  whiteSpace: string;
+  textDecoration: string[];
+  verticalAlign: string;
+  listStyleType: string;
+  borderSpacing: number;
+  borderCollapse: boolean;
+  flexDirection: string;
+  justifyContent: string;
+  alignItems: string;
+  gap: number;
+}
+
+/**
+ * A run of text positioned on its baseline
+ */
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  font: string;
+  color: string;
+  decoration: string[];
+}
+
+/**
+ * A laid out element, positioned relative to its parent's border box
+ */
+export interface HtmlBox {
+  x: number;
+  y: number;
+  /**
+   * Border box size
+   */
+  width: number;
+  height: number;
+  /**
+   * Resolved margins, after collapsing with those of the first and last children
+   */
+  margin: Sides;
+  style: BoxStyle;
+  borderWidth: Sides;
+  background: CanvasImage | null;
+  /**
+   * Replaced content (`<img>` or `<svg>`) filling the content box
+   */
+  image: CanvasImage | null;
+  text: TextRun[];
+  children: HtmlBox[];
+}
+
+interface StyleRule {
+  selectors: { selector: string; specificity: number }[];
+  declarations: [string, string][];
+  order: number;
+}
+
+/**
+ * A selector of a stylesheet rule, filed under its key: the id, first class
+ * or tag of its rightmost compound selector, or `*`
+ */
+interface IndexedSelector {
+  rule: StyleRule;
+  selector: string;
+  specificity: number;
+}
+
+/**
+ * The properties deciding how a layer element is composited, resolved
+ * without the rest of its box style
+ */
+type CompositingStyle = Pick<BoxStyle,
+  'display' | 'visibility' | 'opacity' | 'zIndex' | 'filter' | 'mixBlendMode' | 'transform' | 'transformOrigin'>;
+
+const COMPOSITING_PROPERTIES = [
+  'display', 'visibility', 'opacity', 'z-index', 'filter', 'mix-blend-mode', 'transform', 'transform-origin',
+];
+
+/**
+ * Stylesheet rules and resolved styles shared by the layouts of one export
+ */
+export interface HtmlLayoutContext {
+  document: Document;
+  rules: Map<string, IndexedSelector[]>;
+  /**
+   * The rules setting compositing properties, indexed the same way
+   */
+  compositingRules: Map<string, IndexedSelector[]>;
+  styles: Map<Element, BoxStyle>;
+  compositing: Map<Element, CompositingStyle>;
+  measure: SKRSContext2D;
+  /**
+   * Width available to layer elements without an explicit width
+   */
+  availableWidth: number;
+}
+
+type LayoutContext = HtmlLayoutContext;
+
+const USER_AGENT_STYLES: Record<string, string> = {
+  div: 'display: block',
+  p: 'display: block; margin: 1em 0',
+  ul: 'display: block; margin: 1em 0; padding-left: 40px; list-style-type: disc',
+  ol: 'display: block; margin: 1em 0; padding-left: 40px; list-style-type: decimal',
+  li: 'display: list-item',
+  dl: 'display: block; margin: 1em 0',
+  dt: 'display: block',
+  dd: 'display: block; margin-left: 40px',
+  h1: 'display: block; font-size: 2em; font-weight: bold; margin: 0.67em 0',
+  h2: 'display: block; font-size: 1.5em; font-weight: bold; margin: 0.83em 0',
+  h3: 'display: block; font-size: 1.17em; font-weight: bold; margin: 1em 0',
+  h4: 'display: block; font-weight: bold; margin: 1.33em 0',
+  h5: 'display: block; font-size: 0.83em; font-weight: bold; margin: 1.67em 0',
+  h6: 'display: block; font-size: 0.67em; font-weight: bold; margin: 2.33em 0',
+  pre: 'display: block; font-family: monospace; white-space: pre; margin: 1em 0',
+  blockquote: 'display: block; margin: 1em 40px',
+  section: 'display: block',
+  article: 'display: block',
+  header: 'display: block',
+  footer: 'display: block',
+  nav: 'display: block',
+  main: 'display: block',
+  aside: 'display: block',
+  figure: 'display: block; margin: 1em 40px',
+  figcaption: 'display: block',
+  address: 'display: block; font-style: italic',
+  table: 'display: table; border-spacing: 2px',
+  caption: 'display: table-caption; text-align: center',
+  thead: 'display: table-header-group',
+  tbody: 'display: table-row-group',
+  tfoot: 'display: table-footer-group',
+  tr: 'display: table-row',
+  td: 'display: table-cell; padding: 1px; vertical-align: middle',
+  th: 'display: table-cell; padding: 1px; vertical-align: middle; font-weight: bold; text-align: center',
+  form: 'display: block',
+  hr: 'display: block; margin: 0.5em 0; border: 1px inset #808080',
+  b: 'font-weight: bold',
+  strong: 'font-weight: bold',
+  i: 'font-style: italic',
+  em: 'font-style: italic',
+  cite: 'font-style: italic',
+  small: 'font-size: smaller',
+  big: 'font-size: larger',
+  code: 'font-family: monospace',
+  kbd: 'font-family: monospace',
+  samp: 'font-family: monospace',
+  a: 'color: #0000ee; text-decoration: underline',
+  u: 'text-decoration: underline',
+  ins: 'text-decoration: underline',
+  s: 'text-decoration: line-through',
+  del: 'text-decoration: line-through',
+  script: 'display: none',
+  style: 'display: none',
+  template: 'display: none',
+  head: 'display: none',
+};
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  small: 13,
+  medium: 16,
+  large: 18,
+  'x-large': 24,
+  'xx-large': 32,
+};
+
+const ROOT_STYLE: BoxStyle = {
+  display: 'block',
+  visibility: 'visible',
+  position: 'static',
+  opacity: 1,
+  zIndex: null,
+  filter: null,
+  mixBlendMode: 'normal',
+  transform: 'none',
+  transformOrigin: '50% 50%',
+  overflowHidden: false,
+  borderBox: false,
+  width: 'auto',
+  height: 'auto',
+  offsets: { top: 'auto', right: 'auto', bottom: 'auto', left: 'auto' },
+  margin: { top: '0', right: '0', bottom: '0', left: '0' },
+  padding: { top: '0', right: '0', bottom: '0', left: '0' },
+  borderWidth: { top: 0, right: 0, bottom: 0, left: 0 },
+  borderStyle: ['none', 'none', 'none', 'none'],
+  borderColor: ['#000000', '#000000', '#000000', '#000000'],
+  radius: '0',
+  backgroundColor: 'transparent',
+  backgroundImage: null,
+  backgroundSize: 'auto',
+  backgroundPosition: '0% 0%',
+  backgroundRepeat: 'repeat',
+  boxShadow: null,
+  color: '#000000',
+  fontStyle: 'normal',
+  fontWeight: 'normal',
+  fontSize: 16,
+  fontFamily: 'sans-serif',
+  lineHeight: { value: 1.2, unitless: true },
+  textAlign: 'left',
+  whiteSpace: 'normal',
+  textDecoration: [],
+  verticalAlign: 'baseline',
+  listStyleType: 'disc',
+  borderSpacing: 0,
+  borderCollapse: false,
+  flexDirection: 'row',
+  justifyContent: 'flex-start',
+  alignItems: 'stretch',
+  gap: 0,
+};
+
+const FILTER_FUNCTIONS = [
+  'blur', 'brightness', 'contrast', 'grayscale', 'hue-rotate', 'invert', 'opacity', 'saturate', 'sepia',
+];
+
+const BLEND_MODES = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+  'plus-lighter',
+];
+
+const LIST_STYLE_TYPES = [
+  'none', 'disc', 'circle', 'square', 'decimal', 'decimal-leading-zero',
+  'lower-alpha', 'upper-alpha', 'lower-latin', 'upper-latin', 'lower-roman', 'upper-roman',
+];
+
+const FONT_ASCENT = 0.8;
+const FONT_DESCENT = 0.2;
+
+/**
+ * Rough selector specificity: ids, then classes, attributes and
+ * pseudo-classes, then type selectors and pseudo-elements
+ */
+function selectorSpecificity(selector: string): number {
+  const stripped = selector.replace(/\[[^\]]*\]/g, () => '.a').replace(/::[\w-]+/g, ' p');
+  const ids = (stripped.match(/#[\w-]+/g) ?? []).length;
+  const classes = (stripped.match(/\.[\w-]+|:[\w-]+/g) ?? []).length;
+  const types = (stripped.replace(/#[\w-]+|\.[\w-]+|:[\w-]+(\([^)]*\))?/g, ' ').match(/[a-zA-Z][\w-]*/g) ?? []).length;
+  return ids * 10000 + classes * 100 + types;
+}
+
+/**
+ * Key a selector is indexed under, from its rightmost compound selector, so
+ * only rules that can match an element are tested against it
+ */
+function selectorKey(selector: string): string {
+  const compound = selector
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, '')
+    .split(/[\s>+~]+/)
+    .filter(Boolean)
+    .pop() ?? '';
+  const match = /#[\w-]+/.exec(compound) ?? /\.[\w-]+/.exec(compound) ?? /^[a-zA-Z][\w-]*/.exec(compound);
+  return match ? match[0].toLowerCase() : '*';
+}
+
+function collectStyleRules(document: Document): Map<string, IndexedSelector[]> {
+  const index = new Map<string, IndexedSelector[]>();
+  let order = 0;
+
+  const visit = (ruleList: CSSRuleList) => {
+    for (const rule of Array.from(ruleList)) {
+      const styleRule = rule as CSSStyleRule;
+      if (styleRule.selectorText && styleRule.style) {
+        const indexed: StyleRule = {
+          selectors: styleRule.selectorText.split(',').map((selector) => ({
+            selector: selector.trim(),
+            specificity: selectorSpecificity(selector),
+          })),
+          declarations: parseDeclarations(styleRule.style.cssText),
+          order: order++,
+        };
+        for (const { selector, specificity } of indexed.selectors) {
+          const key = selectorKey(selector);
+          index.set(key, [...index.get(key) ?? [], { rule: indexed, selector, specificity }]);
+        }
+      } else if ((rule as CSSGroupingRule).cssRules && rule.constructor?.name === 'CSSSupportsRule') {
+        visit((rule as CSSGroupingRule).cssRules);
+      }
+    }
+  };
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      visit(sheet.cssRules);
+    } catch {
+      // Stylesheets that cannot be read contribute nothing
+    }
+  }
+  return index;
+}
+
+/**
+ * Split a declaration block into property and value pairs, dropping `!important`
+ */
+function parseDeclarations(cssText: string): [string, string][] {
+  const declarations: [string, string][] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  const push = (end: number) => {
+    const declaration = cssText.slice(start, end);
+    const colon = declaration.indexOf(':');
+    if (colon > 0) {
+      const value = declaration.slice(colon + 1).replace(/!\s*important\s*$/i, '').trim();
+      declarations.push([declaration.slice(0, colon).trim().toLowerCase(), value]);
+    }
+    start = end + 1;
+  };
+
+  for (let index = 0; index < cssText.length; index++) {
+    const char = cssText[index];
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      push(index);
+    }
+  }
+  push(cssText.length);
+  return declarations;
+}
+
+/**
+ * jsdom rejects border shorthands with hex colours, so spell those out as rgb()
+ */
+function hexToRgb(value: string): string {
+  return value.replace(/#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})\b/gi, (_match, hex: string) => {
+    const digits = hex.length <= 4 ? hex.split('').map((digit) => digit + digit) : hex.match(/../g)!;
+    const [r, g, b, a] = digits.map((pair) => parseInt(pair, 16));
+    return a === undefined ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+  });
+}
+
+/**
+ * Declarations of the stylesheet rules matching an element, from the lowest
+ * specificity and earliest rule to the highest and latest
+ */
+function matchedDeclarations(
+  element: Element,
+  rules: Map<string, IndexedSelector[]>
+): [string, string][][] {
+  const keys = ['*', element.tagName.toLowerCase(), ...Array.from(element.classList, (name) => `.${name.toLowerCase()}`)];
+  if (element.id) {
+    keys.push(`#${element.id.toLowerCase()}`);
+  }
+
+  const matches = new Map<StyleRule, number>();
+  for (const key of keys) {
+    for (const { rule, selector, specificity } of rules.get(key) ?? []) {
+      try {
+        if (specificity > (matches.get(rule) ?? -1) && element.matches(selector)) {
+          matches.set(rule, specificity);
+        }
+      } catch {
+        // Unsupported selectors never match
+      }
+    }
+  }
+
+  return Array.from(matches)
+    .sort(([a, aSpecificity], [b, bSpecificity]) => aSpecificity - bSpecificity || a.order - b.order)
+    .map(([rule]) => rule.declarations);
+}
+
+/**
+ * Declarations of an element's style attribute, which keeps declarations
+ * jsdom failed to parse
+ */
+function inlineDeclarations(element: Element): [string, string][] {
+  return parseDeclarations(element.getAttribute('style') ?? (element as HTMLElement).style?.cssText ?? '');
+}
+
+/**
+ * Cascade the user agent defaults, matching stylesheet rules and the inline
+ * style of an element into one declaration block
+ */
+function cascadeStyle(context: LayoutContext, element: Element): CSSStyleDeclaration {
+  const declaration = context.document.createElement('div').style;
+  const layers = [
+    parseDeclarations(USER_AGENT_STYLES[element.tagName.toLowerCase()] ?? ''),
+    ...matchedDeclarations(element, context.rules),
+    inlineDeclarations(element),
+  ];
+  for (const declarations of layers) {
+    for (const [property, value] of declarations) {
+      declaration.setProperty(property, property.startsWith('border') ? hexToRgb(value) : value);
+    }
+  }
+  return declaration;
+}
+
+/**
+ * Resolve a CSS length in pixels
+ *
+ * @param base - What percentages are relative to; null leaves them unresolved
+ */
+function toPx(value: string | undefined, base: number | null, fontSize: number): number | null {
+  if (!value || value === 'auto' || value === 'none' || value === 'normal') {
+    return null;
+  }
+
+  const match = /^(-?[\d.]+)(px|em|rem|%|pt)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const number = parseFloat(match[1]);
+  switch (match[2]) {
+  case 'em':
+    return number * fontSize;
+  case 'rem':
+    return number * 16;
+  case 'pt':
+    return (number * 4) / 3;
+  case '%':
+    return base === null || !Number.isFinite(base) ? null : (number / 100) * base;
+  default:
+    return number;
+  }
+}
+
+function resolveFontSize(value: string, parentSize: number): number {
+  if (!value) {
+    return parentSize;
+  }
+  if (FONT_SIZE_KEYWORDS[value] !== undefined) {
+    return FONT_SIZE_KEYWORDS[value];
+  }
+  if (value === 'smaller') {
+    return parentSize / 1.2;
+  }
+  if (value === 'larger') {
+    return parentSize * 1.2;
+  }
+  return toPx(value, parentSize, parentSize) ?? parentSize;
+}
+
+function resolveColor(value: string, currentColor: string): string {
+  if (!value || value === 'currentcolor' || value === 'currentColor') {
+    return currentColor;
+  }
+  return value;
+}
+
+function sideValues(declaration: CSSStyleDeclaration, pattern: (side: string) => string): string[] {
+  return ['top', 'right', 'bottom', 'left'].map((side) => declaration.getPropertyValue(pattern(side)));
+}
+
+function resolveStyle(context: LayoutContext, element: Element, parent: BoxStyle): BoxStyle {
+  const declaration = cascadeStyle(context, element);
+  const get = (property: string) => declaration.getPropertyValue(property).trim();
+  const inherit = <T>(value: string, parentValue: T, map: (raw: string) => T): T =>
+    !value || value === 'inherit' ? parentValue : map(value);
+
+  const fontSize = resolveFontSize(get('font-size'), parent.fontSize);
+  const color = inherit(get('color'), parent.color, (value) => resolveColor(value, parent.color));
+
+  const lineHeightValue = get('line-height');
+  let lineHeight = parent.lineHeight;
+  if (lineHeightValue === 'normal') {
+    lineHeight = { value: 1.2, unitless: true };
+  } else if (/^[\d.]+$/.test(lineHeightValue)) {
+    lineHeight = { value: parseFloat(lineHeightValue), unitless: true };
+  } else if (lineHeightValue && lineHeightValue !== 'inherit') {
+    const px = toPx(lineHeightValue, fontSize, fontSize);
+    if (px !== null) {
+      lineHeight = { value: px, unitless: false };
+    }
+  }
+
+  const borderStyle = sideValues(declaration, (side) => `border-${side}-style`).map((value) => value || 'none');
+  const borderWidth = sideValues(declaration, (side) => `border-${side}-width`).map((value, index) => {
+    if (borderStyle[index] === 'none' || borderStyle[index] === 'hidden') {
+      return 0;
+    }
+    return ({ thin: 1, medium: 3, thick: 5 } as Record<string, number>)[value] ?? toPx(value || 'medium', null, fontSize) ?? 3;
+  });
+  const borderColor = sideValues(declaration, (side) => `border-${side}-color`).map((value) => resolveColor(value, color));
+
+  const backgroundImage = /url\(\s*(['"]?)(.*?)\1\s*\)/.exec(get('background-image'));
+  const opacity = parseFloat(get('opacity'));
+  const zIndex = parseInt(get('z-index'), 10);
+  const display = get('display') || 'inline';
+  const fontWeight = inherit(get('font-weight'), parent.fontWeight, (value) =>
+    value === 'bolder' ? 'bold' : value === 'lighter' ? 'normal' : value);
+
+  // Decorations are drawn across the text of descendants, so they add up down the tree
+  const decoration = (get('text-decoration-line') || get('text-decoration')).split(/\s+/)
+    .filter((line) => line === 'underline' || line === 'overline' || line === 'line-through');
+  const listStyleType = get('list-style-type')
+    || get('list-style').split(/\s+/).find((part) => LIST_STYLE_TYPES.includes(part))
+    || '';
+
+  return {
+    display,
+    visibility: inherit(get('visibility'), parent.visibility, (value) => value),
+    position: get('position') || 'static',
+    opacity: Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1,
+    zIndex: Number.isFinite(zIndex) ? zIndex : null,
+    filter: parseFilter(get('filter')),
+    mixBlendMode: BLEND_MODES.includes(get('mix-blend-mode')) ? get('mix-blend-mode') : 'normal',
+    transform: get('transform') || 'none',
+    transformOrigin: get('transform-origin') || '50% 50%',
+    overflowHidden: ['hidden', 'clip', 'auto', 'scroll'].includes(get('overflow') || get('overflow-x')),
+    borderBox: get('box-sizing') === 'border-box',
+    width: get('width') || 'auto',
+    height: get('height') || 'auto',
+    offsets: {
+      top: get('top') || 'auto',
+      right: get('right') || 'auto',
+      bottom: get('bottom') || 'auto',
+      left: get('left') || 'auto',
+    },
+    margin: {
+      top: get('margin-top') || '0',
+      right: get('margin-right') || '0',
+      bottom: get('margin-bottom') || '0',
+      left: get('margin-left') || '0',
+    },
+    padding: {
+      top: get('padding-top') || '0',
+      right: get('padding-right') || '0',
+      bottom: get('padding-bottom') || '0',
+      left: get('padding-left') || '0',
+    },
+    borderWidth: { top: borderWidth[0], right: borderWidth[1], bottom: borderWidth[2], left: borderWidth[3] },
+    borderStyle: borderStyle as BoxStyle['borderStyle'],
+    borderColor: borderColor as BoxStyle['borderColor'],
+    radius: get('border-radius') ||
+      sideValues(declaration, (side) => `border-${({ top: 'top-left', right: 'top-right', bottom: 'bottom-right', left: 'bottom-left' } as Record<string, string>)[side]}-radius`)
+        .map((value) => value || '0')
+        .join(' '),
+    backgroundColor: resolveColor(get('background-color') || 'transparent', color),
+    backgroundImage: backgroundImage ? backgroundImage[2] : null,
+    backgroundSize: get('background-size') || 'auto',
+    backgroundPosition: get('background-position') || '0% 0%',
+    backgroundRepeat: get('background-repeat') || 'repeat',
+    boxShadow: parseBoxShadow(get('box-shadow'), fontSize, color),
+    color,
+    fontStyle: inherit(get('font-style'), parent.fontStyle, (value) => value),
+    fontWeight,
+    fontSize,
+    fontFamily: inherit(get('font-family'), parent.fontFamily, (value) => value),
+    lineHeight,
+    textAlign: inherit(get('text-align'), parent.textAlign, (value) => value),
+    whiteSpace: inherit(get('white-space'), parent.whiteSpace, (value) => value),
+    textDecoration: [...new Set([...parent.textDecoration, ...decoration])],
+    verticalAlign: get('vertical-align') || 'baseline',
+    listStyleType: inherit(listStyleType, parent.listStyleType, (value) => value),
+    borderSpacing: inherit(get('border-spacing'), parent.borderSpacing, (value) =>
+      toPx(value.split(/\s+/)[0], null, fontSize) ?? 0),
+    borderCollapse: inherit(get('border-collapse'), parent.borderCollapse, (value) => value === 'collapse'),
+    flexDirection: get('flex-direction') || 'row',
+    justifyContent: get('justify-content') || 'flex-start',
+    alignItems: get('align-items') || 'stretch',
+    gap: toPx(get('column-gap') || get('gap'), null, fontSize) ?? 0,
+  };
+}
+
+/**
+ * Keep the functions of a `filter` value that canvas filters support
+ */
+function parseFilter(value: string): string | null {
+  const functions = Array.from(value.matchAll(/([a-z-]+)\(([^)]*)\)/g))
+    .filter(([, name]) => FILTER_FUNCTIONS.includes(name))
+    .map(([match]) => match);
+  return functions.length > 0 ? functions.join(' ') : null;
+}
+
+/**
+ * Parse the first outer shadow of a `box-shadow` value; spread is ignored
+ */
+function parseBoxShadow(value: string, fontSize: number, currentColor: string): BoxStyle['boxShadow'] {
+  if (!value || value === 'none') {
+    return null;
+  }
+
+  const first = value.split(/,(?![^(]*\))/)[0].trim();
+  if (/\binset\b/.test(first)) {
+    return null;
+  }
+
+  const colorMatch = /(rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-f]+|\b[a-z]+\b)/i.exec(first);
+  const lengths = first
+    .replace(colorMatch?.[0] ?? '', ' ')
+    .trim()
+    .split(/\s+/)
+    .map((length) => toPx(length, null, fontSize) ?? 0);
+  if (lengths.length < 2) {
+    return null;
+  }
+
+  return { x: lengths[0], y: lengths[1], blur: lengths[2] ?? 0, color: resolveColor(colorMatch?.[0] ?? '', currentColor) };
+}
+
+/**
+ * Styles of an element, resolving (and caching) its ancestors for inheritance
+ */
+function styleOf(context: LayoutContext, element: Element): BoxStyle {
+  const cached = context.styles.get(element);
+  if (cached) {
+    return cached;
+  }
+
+  const parent = element.parentElement ? styleOf(context, element.parentElement) : ROOT_STYLE;
+  const style = resolveStyle(context, element, parent);
+  context.styles.set(element, style);
+  return style;
+}
+
+function fontString(style: BoxStyle): string {
+  // The generic family may map to a serif system font, so prefer the bundled sans-serif
+  const family = style.fontFamily.replace(/(^|,\s*)sans-serif\s*$/, '$1"LeafletNode Sans", sans-serif');
+  return `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px ${family}`;
+}
+
+function lineHeightPx(style: BoxStyle): number {
+  return style.lineHeight.unitless ? style.lineHeight.value * style.fontSize : style.lineHeight.value;
+}
+
+function resolveSides(sides: BoxStyle['margin'], base: number | null, fontSize: number): Sides {
+  return {
+    top: toPx(sides.top, base, fontSize) ?? 0,
+    right: toPx(sides.right, base, fontSize) ?? 0,
+    bottom: toPx(sides.bottom, base, fontSize) ?? 0,
+    left: toPx(sides.left, base, fontSize) ?? 0,
+  };
+}
+
+function isBlockLevel(style: BoxStyle): boolean {
+  return !style.display.startsWith('inline') && style.display !== 'contents';
+}
+
+function hasBoxDecoration(style: BoxStyle, fontSize: number): boolean {
+  const padding = resolveSides(style.padding, null, fontSize);
+  return style.backgroundColor !== 'transparent'
+    || style.backgroundImage !== null
+    || style.borderWidth.top + style.borderWidth.right + style.borderWidth.bottom + style.borderWidth.left > 0
+    || padding.top + padding.right + padding.bottom + padding.left > 0;
+}
+
+async function loadNestedImage(element: Element): Promise<CanvasImage | null> {
+  try {
+    if (element.tagName.toLowerCase() === 'img') {
+      const existing = (element as any)._napiImage as CanvasImage | undefined;
+      const src = (element as HTMLImageElement).src;
+      return existing ?? (src ? await loadImageSource(src) : null);
+    }
+  } catch (error) {
+    console.warn(`leaflet-node: failed to load image ${(element as HTMLImageElement).src}: ${(error as Error).message}`);
+  }
+  return null;
+}
+
+/**
+ * Rasterise an inline SVG element at the given size
+ */
+async function rasteriseSvg(element: Element, width: number, height: number, color: string): Promise<CanvasImage | null> {
+  const clone = element.cloneNode(true) as Element;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  // currentColor inside the SVG refers to the inherited text colour
+  clone.setAttribute('color', color);
+
+  try {
+    return await bufferToImage(Buffer.from(clone.outerHTML, 'utf-8'));
+  } catch (error) {
+    console.warn(`leaflet-node: failed to render inline SVG: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function createBox(style: BoxStyle, borderWidth: Sides): HtmlBox {
+  return {
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    style,
+    borderWidth,
+    background: null,
+    image: null,
+    text: [],
+    children: [],
+  };
+}
+
+/**
+ * Lay out a replaced element (`<img>` or `<svg>`), sized from its attributes,
+ * styles or intrinsic size
+ */
+async function layoutReplaced(
+  context: LayoutContext,
+  element: Element,
+  style: BoxStyle,
+  containingWidth: number
+): Promise<HtmlBox> {
+  const base = Number.isFinite(containingWidth) ? containingWidth : null;
+  const margin = resolveSides(style.margin, base, style.fontSize);
+  const padding = resolveSides(style.padding, base, style.fontSize);
+  const border = style.borderWidth;
+
+  const attribute = (name: string) => {
+    const value = element.getAttribute(name);
+    return value && /^[\d.]+(px)?$/.test(value) ? parseFloat(value) : null;
+  };
+  let width = toPx(style.width, base, style.fontSize) ?? attribute('width');
+  let height = toPx(style.height, null, style.fontSize) ?? attribute('height');
+
+  const isSvg = element.tagName.toLowerCase() === 'svg';
+  let image = isSvg ? null : await loadNestedImage(element);
+  let intrinsic = image ? { width: image.width, height: image.height } : null;
+  if (isSvg && !intrinsic) {
+    const viewBox = element.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+    intrinsic = viewBox && viewBox.length === 4 ? { width: viewBox[2], height: viewBox[3] } : { width: 300, height: 150 };
+  }
+
+  if (width === null && height === null) {
+    width = intrinsic?.width ?? 0;
+    height = intrinsic?.height ?? 0;
+  } else if (width === null) {
+    width = intrinsic && intrinsic.height ? (height! * intrinsic.width) / intrinsic.height : height!;
+  } else if (height === null) {
+    height = intrinsic && intrinsic.width ? (width * intrinsic.height) / intrinsic.width : width;
+  }
+  if (style.borderBox) {
+    width = Math.max(0, width - padding.left - padding.right - border.left - border.right);
+    height = Math.max(0, height! - padding.top - padding.bottom - border.top - border.bottom);
+  }
+
+  if (isSvg && width > 0 && height! > 0) {
+    image = await rasteriseSvg(element, width, height!, style.color);
+  }
+
+  const box = createBox(style, border);
+  box.x = margin.left;
+  box.y = margin.top;
+  box.margin = margin;
+  box.width = width + padding.left + padding.right + border.left + border.right;
+  box.height = height! + padding.top + padding.bottom + border.top + border.bottom;
+  box.image = image;
+  await loadBackground(box);
+  return box;
+}
+
+async function loadBackground(box: HtmlBox): Promise<void> {
+  if (!box.style.backgroundImage) {
+    return;
+  }
+  try {
+    box.background = await loadImageSource(box.style.backgroundImage);
+  } catch (error) {
+    console.warn(`leaflet-node: failed to load background image ${box.style.backgroundImage}: ${(error as Error).message}`);
+  }
+}
+
+interface LineItem {
+  width: number;
+  text?: { value: string; style: BoxStyle };
+  box?: HtmlBox;
+}
+
+interface FlowResult {
+  children: HtmlBox[];
+  text: TextRun[];
+  height: number;
+  /**
+   * Widest line or block, for shrink-to-fit sizing
+   */
+  contentWidth: number;
+  absolutes: Element[];
+  /**
+   * Top margin of a leading block child and bottom margin of a trailing one,
+   * which can collapse with the parent's own margins
+   */
+  leadingMargin: number;
+  trailingMargin: number;
+}
+
+/**
+ * Lay out child nodes in normal flow: inline content in wrapped line boxes,
+ * block children stacked between them
+ */
+async function layoutFlow(
+  context: LayoutContext,
+  nodes: Node[],
+  style: BoxStyle,
+  width: number
+): Promise<FlowResult> {
+  const result: FlowResult = {
+    children: [],
+    text: [],
+    height: 0,
+    contentWidth: 0,
+    absolutes: [],
+    leadingMargin: 0,
+    trailingMargin: 0,
+  };
+  let line: LineItem[] = [];
+  let lineWidth = 0;
+  let pendingSpace: BoxStyle | null = null;
+  let forcedBreak = false;
+  let hasContent = false;
+  let previousMargin = 0;
+
+  const measure = (text: string, itemStyle: BoxStyle) => {
+    context.measure.font = fontString(itemStyle);
+    return context.measure.measureText(text).width;
+  };
+
+  const flushLine = () => {
+    if (line.length === 0 && !forcedBreak) {
+      return;
+    }
+
+    // Every line starts with a strut of the container's font and line height
+    const strutHeight = lineHeightPx(style);
+    const halfLeading = (strutHeight - (FONT_ASCENT + FONT_DESCENT) * style.fontSize) / 2;
+    let above = halfLeading + FONT_ASCENT * style.fontSize;
+    let below = halfLeading + FONT_DESCENT * style.fontSize;
+    for (const item of line) {
+      if (item.text) {
+        const textStyle = item.text.style;
+        const leading = (lineHeightPx(textStyle) - (FONT_ASCENT + FONT_DESCENT) * textStyle.fontSize) / 2;
+        above = Math.max(above, leading + FONT_ASCENT * textStyle.fontSize);
+        below = Math.max(below, leading + FONT_DESCENT * textStyle.fontSize);
+      } else if (item.box) {
+        const margin = resolveSides(item.box.style.margin, null, item.box.style.fontSize);
+        above = Math.max(above, item.box.height + margin.top + margin.bottom);
+      }
+    }
+
+    let x = 0;
+    if (Number.isFinite(width)) {
+      if (style.textAlign === 'center') {
+        x = (width - lineWidth) / 2;
+      } else if (style.textAlign === 'right' || style.textAlign === 'end') {
+        x = width - lineWidth;
+      }
+    }
+
+    const baseline = result.height + above;
+    for (const item of line) {
+      if (item.text) {
+        result.text.push({
+          text: item.text.value,
+          x,
+          y: baseline,
+          width: item.width,
+          fontSize: item.text.style.fontSize,
+          font: fontString(item.text.style),
+          color: item.text.style.color,
+          decoration: item.text.style.textDecoration,
+        });
+      } else if (item.box) {
+        const margin = resolveSides(item.box.style.margin, null, item.box.style.fontSize);
+        item.box.x += x;
+        item.box.y = baseline - item.box.height - margin.bottom;
+        result.children.push(item.box);
+      }
+      x += item.width;
+    }
+
+    result.contentWidth = Math.max(result.contentWidth, lineWidth);
+    result.height = baseline + below;
+    line = [];
+    lineWidth = 0;
+    pendingSpace = null;
+    forcedBreak = false;
+    hasContent = true;
+    previousMargin = 0;
+    result.trailingMargin = 0;
+  };
+
+  const place = (item: LineItem, itemStyle: BoxStyle) => {
+    const wraps = itemStyle.whiteSpace !== 'nowrap' && itemStyle.whiteSpace !== 'pre';
+    const spaceWidth = pendingSpace && line.length > 0 ? measure(' ', pendingSpace) : 0;
+    if (wraps && line.length > 0 && lineWidth + spaceWidth + item.width > width) {
+      flushLine();
+    } else if (spaceWidth > 0) {
+      addText(' ', pendingSpace!, spaceWidth);
+    }
+    pendingSpace = null;
+
+    if (item.text) {
+      addText(item.text.value, item.text.style, item.width);
+    } else {
+      line.push(item);
+      lineWidth += item.width;
+    }
+  };
+
+  // Merge adjacent text in the same style into one run
+  const addText = (value: string, textStyle: BoxStyle, textWidth: number) => {
+    const last = line[line.length - 1];
+    if (last?.text && last.text.style === textStyle) {
+      last.text.value += value;
+      last.width += textWidth;
+    } else {
+      line.push({ width: textWidth, text: { value, style: textStyle } });
+    }
+    lineWidth += textWidth;
+  };
+
+  const visitText = (value: string, textStyle: BoxStyle) => {
+    const preserveSpaces = textStyle.whiteSpace === 'pre' || textStyle.whiteSpace === 'pre-wrap';
+    const preserveBreaks = preserveSpaces || textStyle.whiteSpace === 'pre-line';
+    const paragraphs = preserveBreaks ? value.split('\n') : [value.replace(/\s+/g, ' ')];
+
+    paragraphs.forEach((paragraph, index) => {
+      if (index > 0) {
+        forcedBreak = true;
+        flushLine();
+      }
+      if (preserveSpaces) {
+        if (paragraph) {
+          place({ width: measure(paragraph, textStyle), text: { value: paragraph, style: textStyle } }, textStyle);
+        }
+        return;
+      }
+
+      for (const token of paragraph.replace(/[ \t]+/g, ' ').split(/( )/)) {
+        if (token === ' ') {
+          if (line.length > 0) {
+            pendingSpace = textStyle;
+          }
+        } else if (token) {
+          place({ width: measure(token, textStyle), text: { value: token, style: textStyle } }, textStyle);
+        }
+      }
+    });
+  };
+
+  const visit = async (node: Node, inheritedStyle: BoxStyle) => {
+    if (node.nodeType === 3) {
+      visitText(node.textContent ?? '', inheritedStyle);
+      return;
+    }
+    if (node.nodeType !== 1) {
+      return;
+    }
+
+    const element = node as Element;
+    const childStyle = styleOf(context, element);
+    const tagName = element.tagName.toLowerCase();
+    if (childStyle.display === 'none') {
+      return;
+    }
+    if (childStyle.position === 'absolute' || childStyle.position === 'fixed') {
+      result.absolutes.push(element);
+      return;
+    }
+    if (tagName === 'br') {
+      forcedBreak = true;
+      flushLine();
+      return;
+    }
+
+    if (isBlockLevel(childStyle)) {
+      flushLine();
+      const box = await layoutElement(context, element, childStyle, width, false);
+      if (childStyle.display === 'list-item') {
+        addListMarker(context, element, box);
+      }
+
+      // Adjoining vertical margins collapse into the larger one
+      const { margin } = box;
+      const collapsed = Math.min(Math.max(previousMargin, 0), Math.max(margin.top, 0));
+      if (!hasContent) {
+        result.leadingMargin = margin.top;
+      }
+      box.y += result.height - collapsed;
+      result.children.push(box);
+      result.height += box.height + margin.top + margin.bottom - collapsed;
+      result.contentWidth = Math.max(result.contentWidth, box.width + margin.left + margin.right);
+      hasContent = true;
+      previousMargin = margin.bottom;
+      result.trailingMargin = margin.bottom;
+      return;
+    }
+
+    const atomic = tagName === 'img' || tagName === 'svg' || childStyle.display !== 'inline'
+      || hasBoxDecoration(childStyle, childStyle.fontSize);
+    if (atomic) {
+      const box = await layoutElement(context, element, childStyle, width, true);
+      const margin = resolveSides(childStyle.margin, null, childStyle.fontSize);
+      place({ width: box.width + margin.left + margin.right, box }, childStyle);
+      return;
+    }
+
+    for (const child of Array.from(element.childNodes)) {
+      await visit(child, childStyle);
+    }
+  };
+
+  for (const node of nodes) {
+    await visit(node, style);
+  }
+  flushLine();
+  return result;
+}
+
+/**
+ * Lay out flex items on one line along the main axis
+ */
+async function layoutFlex(
+  context: LayoutContext,
+  element: Element,
+  style: BoxStyle,
+  width: number,
+  height: number | null
+): Promise<FlowResult> {
+  const result: FlowResult = {
+    children: [],
+    text: [],
+    height: 0,
+    contentWidth: 0,
+    absolutes: [],
+    leadingMargin: 0,
+    trailingMargin: 0,
+  };
+  const column = style.flexDirection.startsWith('column');
+  const items: { box: HtmlBox; width: number; height: number }[] = [];
+
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === 3) {
+      if (!(node.textContent ?? '').trim()) {
+        continue;
+      }
+      // Text directly inside a flex container forms an anonymous item
+      const flow = await layoutFlow(context, [node], { ...style, textAlign: 'left' }, Infinity);
+      const anonymous = createBox({ ...ROOT_STYLE, visibility: style.visibility }, { top: 0, right: 0, bottom: 0, left: 0 });
+      anonymous.width = flow.contentWidth;
+      anonymous.height = flow.height;
+      anonymous.text = flow.text;
+      items.push({ box: anonymous, width: anonymous.width, height: anonymous.height });
+      continue;
+    }
+    if (node.nodeType !== 1) {
+      continue;
+    }
+
+    const childStyle = styleOf(context, node as Element);
+    if (childStyle.display === 'none') {
+      continue;
+    }
+    if (childStyle.position === 'absolute' || childStyle.position === 'fixed') {
+      result.absolutes.push(node as Element);
+      continue;
+    }
+
+    const box = await layoutElement(context, node as Element, childStyle, width, !column);
+    const margin = resolveSides(childStyle.margin, null, childStyle.fontSize);
+    items.push({ box, width: box.width + margin.left + margin.right, height: box.height + margin.top + margin.bottom });
+  }
+
+  const gaps = style.gap * Math.max(0, items.length - 1);
+  const mainSize = items.reduce((total, item) => total + (column ? item.height : item.width), 0) + gaps;
+  const crossSize = Math.max(0, ...items.map((item) => (column ? item.width : item.height)));
+  const available = column ? height ?? mainSize : Number.isFinite(width) ? width : mainSize;
+  const crossAvailable = column ? (Number.isFinite(width) ? width : crossSize) : height ?? crossSize;
+
+  const free = Math.max(0, available - mainSize);
+  let position = 0;
+  let spacing = style.gap;
+  switch (style.justifyContent) {
+  case 'center':
+    position = free / 2;
+    break;
+  case 'flex-end':
+  case 'end':
+    position = free;
+    break;
+  case 'space-between':
+    spacing += items.length > 1 ? free / (items.length - 1) : 0;
+    break;
+  case 'space-around':
+    position = free / items.length / 2;
+    spacing += free / items.length;
+    break;
+  case 'space-evenly':
+    position = free / (items.length + 1);
+    spacing += free / (items.length + 1);
+    break;
+  }
+
+  for (const item of items) {
+    const itemCross = column ? item.width : item.height;
+    let crossOffset = 0;
+    if (style.alignItems === 'center') {
+      crossOffset = (crossAvailable - itemCross) / 2;
+    } else if (style.alignItems === 'flex-end' || style.alignItems === 'end') {
+      crossOffset = crossAvailable - itemCross;
+    }
+
+    item.box.x += column ? crossOffset : position;
+    item.box.y += column ? position : crossOffset;
+    result.children.push(item.box);
+    position += (column ? item.height : item.width) + spacing;
+  }
+
+  result.height = column ? mainSize : crossSize;
+  result.contentWidth = column ? crossSize : mainSize;
+  return result;
+}
+
+/**
+ * Lay out a table: each column as wide as its widest cell, scaled to the
+ * table's width when it has one or does not fit, and each row as tall as its
+ * tallest cell. Captions go above the grid; `colspan` is honoured but row
+ * spans are not, and collapsed borders are not merged.
+ */
+async function layoutTable(
+  context: LayoutContext,
+  element: Element,
+  style: BoxStyle,
+  width: number
+): Promise<FlowResult> {
+  const result: FlowResult = {
+    children: [],
+    text: [],
+    height: 0,
+    contentWidth: 0,
+    absolutes: [],
+    leadingMargin: 0,
+    trailingMargin: 0,
+  };
+  const displayOf = (child: Element) => styleOf(context, child).display;
+
+  const captions: Element[] = [];
+  const groups: Record<string, Element[]> = { header: [], body: [], footer: [] };
+  for (const child of Array.from(element.children)) {
+    const display = displayOf(child);
+    if (display === 'table-caption') {
+      captions.push(child);
+    } else if (display === 'table-row') {
+      groups.body.push(child);
+    } else if (display.startsWith('table-') && display.endsWith('-group')) {
+      const group = display === 'table-header-group' ? 'header' : display === 'table-footer-group' ? 'footer' : 'body';
+      groups[group].push(...Array.from(child.children).filter((row) => displayOf(row) === 'table-row'));
+    }
+  }
+  const rows = [...groups.header, ...groups.body, ...groups.footer].map((row) => ({
+    element: row,
+    cells: Array.from(row.children)
+      .filter((cell) => displayOf(cell) === 'table-cell')
+      .map((cell) => ({ element: cell, span: Math.max(1, parseInt(cell.getAttribute('colspan') ?? '', 10) || 1), width: 0 })),
+  }));
+
+  // Column widths from the cells' preferred widths, single columns first
+  for (const row of rows) {
+    for (const cell of row.cells) {
+      cell.width = (await layoutElement(context, cell.element, styleOf(context, cell.element), Infinity, true)).width;
+    }
+  }
+  const columnCount = Math.max(0, ...rows.map((row) => row.cells.reduce((total, cell) => total + cell.span, 0)));
+  const columns = new Array<number>(columnCount).fill(0);
+  const spacing = style.borderCollapse ? 0 : style.borderSpacing;
+  for (const multiple of [false, true]) {
+    for (const row of rows) {
+      let column = 0;
+      for (const cell of row.cells) {
+        if ((cell.span > 1) === multiple) {
+          const covered = columns.slice(column, column + cell.span).reduce((total, value) => total + value, 0)
+            + spacing * (cell.span - 1);
+          for (let index = column; index < column + cell.span; index++) {
+            columns[index] += Math.max(0, cell.width - covered) / cell.span;
+          }
+        }
+        column += cell.span;
+      }
+    }
+  }
+
+  const columnsWidth = columns.reduce((total, value) => total + value, 0);
+  if (Number.isFinite(width) && columnsWidth > 0) {
+    const scale = Math.max(0, width - spacing * (columnCount + 1)) / columnsWidth;
+    columns.forEach((value, index) => {
+      columns[index] = value * scale;
+    });
+  }
+  const gridWidth = columns.reduce((total, value) => total + value, 0) + spacing * (columnCount + 1);
+  const tableWidth = Number.isFinite(width) ? width : gridWidth;
+
+  for (const caption of captions) {
+    const box = await layoutElement(context, caption, styleOf(context, caption), tableWidth, false);
+    box.y += result.height;
+    result.children.push(box);
+    result.height += box.height + box.margin.top + box.margin.bottom;
+  }
+
+  let y = result.height + spacing;
+  for (const row of rows) {
+    const cells: HtmlBox[] = [];
+    let x = spacing;
+    let column = 0;
+    for (const cell of row.cells) {
+      const cellWidth = columns.slice(column, column + cell.span).reduce((total, value) => total + value, 0)
+        + spacing * (cell.span - 1);
+      const cellStyle = styleOf(context, cell.element);
+      const box = await layoutElement(context, cell.element, { ...cellStyle, width: `${cellWidth}px`, borderBox: true }, cellWidth, false);
+      box.x = x;
+      box.y = y;
+      cells.push(box);
+      x += cellWidth + spacing;
+      column += cell.span;
+    }
+
+    // Cells stretch to the row height, with their content aligned within
+    const rowHeight = Math.max(0, ...cells.map((box) => box.height));
+    cells.forEach((box) => {
+      const free = rowHeight - box.height;
+      const shift = box.style.verticalAlign === 'top' ? 0 : box.style.verticalAlign === 'bottom' ? free : free / 2;
+      for (const item of [...box.children, ...box.text]) {
+        item.y += shift;
+      }
+      box.height = rowHeight;
+    });
+
+    const rowStyle = styleOf(context, row.element);
+    if (hasBoxDecoration(rowStyle, rowStyle.fontSize)) {
+      const rowBox = createBox(rowStyle, rowStyle.borderWidth);
+      rowBox.x = spacing;
+      rowBox.y = y;
+      rowBox.width = Math.max(0, gridWidth - spacing * 2);
+      rowBox.height = rowHeight;
+      await loadBackground(rowBox);
+      result.children.push(rowBox);
+    }
+    result.children.push(...cells);
+    y += rowHeight + spacing;
+  }
+
+  result.height = rows.length > 0 ? y : result.height;
+  result.contentWidth = gridWidth;
+  return result;
+}
+
+const BULLETS: Record<string, string> = { disc: '•', circle: '◦', square: '▪' };
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+  [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+function toRoman(value: number): string {
+  if (value <= 0 || value >= 4000) {
+    return String(value);
+  }
+  let result = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+function toAlphabetic(value: number): string {
+  if (value <= 0) {
+    return String(value);
+  }
+  let result = '';
+  while (value > 0) {
+    value--;
+    result = String.fromCharCode(97 + (value % 26)) + result;
+    value = Math.floor(value / 26);
+  }
+  return result;
+}
+
+/**
+ * Marker of a list item: a bullet, or its number among the items of its list
+ * (honouring `start` and `value` attributes) with a trailing dot
+ */
+function listMarkerText(element: Element, type: string): string | null {
+  if (type === 'none' || !LIST_STYLE_TYPES.includes(type)) {
+    return null;
+  }
+  if (BULLETS[type]) {
+    return BULLETS[type];
+  }
+
+  const list = element.parentElement;
+  const start = parseInt(list?.getAttribute('start') ?? '', 10);
+  let ordinal = Number.isFinite(start) ? start - 1 : 0;
+  for (const item of Array.from(list?.children ?? [element])) {
+    if (item.tagName.toLowerCase() !== 'li' && item !== element) {
+      continue;
+    }
+    const value = parseInt(item.getAttribute('value') ?? '', 10);
+    ordinal = Number.isFinite(value) ? value : ordinal + 1;
+    if (item === element) {
+      break;
+    }
+  }
+
+  const text = {
+    'decimal-leading-zero': String(ordinal).padStart(2, '0'),
+    'lower-alpha': toAlphabetic(ordinal),
+    'lower-latin': toAlphabetic(ordinal),
+    'upper-alpha': toAlphabetic(ordinal).toUpperCase(),
+    'upper-latin': toAlphabetic(ordinal).toUpperCase(),
+    'lower-roman': toRoman(ordinal).toLowerCase(),
+    'upper-roman': toRoman(ordinal),
+  }[type] ?? String(ordinal);
+  return `${text}.`;
+}
+
+/**
+ * Baseline of the first line of text in a box, relative to the box
+ */
+function firstBaseline(box: HtmlBox): number | null {
+  let baseline: number | null = null;
+  for (const run of box.text) {
+    baseline = Math.min(baseline ?? Infinity, run.y);
+  }
+  for (const child of box.children) {
+    const childBaseline = firstBaseline(child);
+    if (childBaseline !== null) {
+      baseline = Math.min(baseline ?? Infinity, child.y + childBaseline);
+    }
+  }
+  return baseline;
+}
+
+/**
+ * Add the marker of a list item outside its content box, on its first line
+ */
+function addListMarker(context: LayoutContext, element: Element, box: HtmlBox): void {
+  const { style } = box;
+  const marker = listMarkerText(element, style.listStyleType);
+  if (!marker) {
+    return;
+  }
+
+  const font = fontString(style);
+  context.measure.font = font;
+  const width = context.measure.measureText(marker).width;
+  const gap = context.measure.measureText(' ').width;
+  const padding = resolveSides(style.padding, null, style.fontSize);
+  const halfLeading = (lineHeightPx(style) - (FONT_ASCENT + FONT_DESCENT) * style.fontSize) / 2;
+  box.text.push({
+    text: marker,
+    x: box.borderWidth.left + padding.left - gap - width,
+    y: firstBaseline(box) ?? box.borderWidth.top + padding.top + halfLeading + FONT_ASCENT * style.fontSize,
+    width,
+    fontSize: style.fontSize,
+    font,
+    color: style.color,
+    decoration: [],
+  });
+}
+
+/**
+ * Lay out an element and its descendants
+ *
+ * @param containingWidth - Width of the containing block's content box
+ * @param shrinkToFit - Size an auto width to the content rather than the containing block
+ * @returns Box positioned at its margin offset within the containing block
+ */
+async function layoutElement(
+  context: LayoutContext,
+  element: Element,
+  style: BoxStyle,
+  containingWidth: number,
+  shrinkToFit: boolean
+): Promise<HtmlBox> {
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === 'img' || tagName === 'svg') {
+    return await layoutReplaced(context, element, style, containingWidth);
+  }
+
+  const base = Number.isFinite(containingWidth) ? containingWidth : null;
+  const margin = resolveSides(style.margin, base, style.fontSize);
+  const padding = resolveSides(style.padding, base, style.fontSize);
+  const border = style.borderWidth;
+  const horizontalExtras = padding.left + padding.right + border.left + border.right;
+  const verticalExtras = padding.top + padding.bottom + border.top + border.bottom;
+  const flex = style.display === 'flex' || style.display === 'inline-flex';
+  const table = style.display === 'table' || style.display === 'inline-table';
+  const layoutContent = (width: number, height: number | null) => {
+    if (flex) {
+      return layoutFlex(context, element, style, width, height);
+    }
+    return table ? layoutTable(context, element, style, width) : layoutFlow(context, Array.from(element.childNodes), style, width);
+  };
+
+  let contentWidth: number;
+  const specifiedWidth = toPx(style.width, base, style.fontSize);
+  if (specifiedWidth !== null) {
+    contentWidth = style.borderBox ? specifiedWidth - horizontalExtras : specifiedWidth;
+  } else if (shrinkToFit || base === null || table) {
+    // Tables are as wide as their columns need, like shrink-to-fit boxes
+    const available = base === null ? Infinity : base - margin.left - margin.right - horizontalExtras;
+    const preferred = (await layoutContent(Infinity, null)).contentWidth;
+    contentWidth = Math.min(preferred, available);
+  } else {
+    contentWidth = base - margin.left - margin.right - horizontalExtras;
+  }
+  contentWidth = Math.max(0, contentWidth);
+
+  let specifiedHeight = toPx(style.height, null, style.fontSize);
+  if (specifiedHeight !== null && style.borderBox) {
+    specifiedHeight = Math.max(0, specifiedHeight - verticalExtras);
+  }
+
+  const flow = await layoutContent(contentWidth, specifiedHeight);
+  let contentHeight = specifiedHeight ?? flow.height;
+
+  // Margins of blocks in normal flow collapse with those of their first and
+  // last children when no border or padding separates them
+  const inFlow = !shrinkToFit && !flex && !table && !style.overflowHidden
+    && (style.display === 'block' || style.display === 'list-item');
+  if (inFlow && border.top + padding.top === 0 && flow.leadingMargin > 0 && margin.top >= 0) {
+    for (const item of [...flow.children, ...flow.text]) {
+      item.y -= flow.leadingMargin;
+    }
+    if (specifiedHeight === null) {
+      contentHeight -= flow.leadingMargin;
+    }
+    margin.top = Math.max(margin.top, flow.leadingMargin);
+  }
+  if (inFlow && border.bottom + padding.bottom === 0 && specifiedHeight === null
+    && flow.trailingMargin > 0 && margin.bottom >= 0) {
+    contentHeight -= flow.trailingMargin;
+    margin.bottom = Math.max(margin.bottom, flow.trailingMargin);
+  }
+
+  const box = createBox(style, border);
+  box.x = margin.left;
+  box.y = margin.top;
+  box.margin = margin;
+  box.width = contentWidth + horizontalExtras;
+  box.height = contentHeight + verticalExtras;
+  box.text = flow.text.map((run) => ({
+    ...run,
+    x: run.x + border.left + padding.left,
+    y: run.y + border.top + padding.top,
+  }));
+  box.children = flow.children.map((child) => {
+    child.x += border.left + padding.left;
+    child.y += border.top + padding.top;
+    return child;
+  });
+
+  // Absolutely positioned children are placed against the padding box
+  const paddingWidth = contentWidth + padding.left + padding.right;
+  const paddingHeight = contentHeight + padding.top + padding.bottom;
+  for (const absolute of flow.absolutes) {
+    const childStyle = styleOf(context, absolute);
+    const child = await layoutElement(context, absolute, childStyle, paddingWidth, true);
+    const childMargin = resolveSides(childStyle.margin, paddingWidth, childStyle.fontSize);
+    const left = toPx(childStyle.offsets.left, paddingWidth, childStyle.fontSize);
+    const right = toPx(childStyle.offsets.right, paddingWidth, childStyle.fontSize);
+    const top = toPx(childStyle.offsets.top, paddingHeight, childStyle.fontSize);
+    const bottom = toPx(childStyle.offsets.bottom, paddingHeight, childStyle.fontSize);
+
+    child.x = border.left + childMargin.left + (left ?? (right !== null ? paddingWidth - right - child.width - childMargin.left - childMargin.right : padding.left));
+    child.y = border.top + childMargin.top + (top ?? (bottom !== null ? paddingHeight - bottom - child.height - childMargin.top - childMargin.bottom : padding.top));
+    box.children.push(child);
+  }
+
+  if (style.position === 'relative') {
+    box.x += toPx(style.offsets.left, base, style.fontSize) ?? -(toPx(style.offsets.right, base, style.fontSize) ?? 0);
+    box.y += toPx(style.offsets.top, null, style.fontSize) ?? -(toPx(style.offsets.bottom, null, style.fontSize) ?? 0);
+  }
+
+  await loadBackground(box);
+  return box;
+}
+
+/**
+ * Create a layout context for the HTML layers of a document
+ *
+ * Stylesheets are read once, so the context should not outlive the export
+ * it was created for.
+ *
+ * @param availableWidth - Width available to layer elements without an explicit width, usually the map width
+ */
+export function createHtmlLayoutContext(document: Document, availableWidth: number): HtmlLayoutContext {
+  const rules = collectStyleRules(document);
+  const compositingRules = new Map(Array.from(rules, ([key, selectors]) => [
+    key,
+    selectors.filter(({ rule }) => rule.declarations.some(([property]) => COMPOSITING_PROPERTIES.includes(property))),
+  ]));
+  return {
+    document,
+    rules,
+    compositingRules,
+    styles: new Map(),
+    compositing: new Map(),
+    measure: createCanvas(1, 1).getContext('2d'),
+    availableWidth,
+  };
+}
+
+/**
+ * Cascade only the compositing properties of an element, as `resolveStyle`
+ * would, for the many panes, tiles and markers of a map. Unlike a full style,
+ * this builds no declaration block, which is slow in jsdom.
+ */
+function compositingStyleOf(context: LayoutContext, element: Element): CompositingStyle {
+  const cached = context.compositing.get(element);
+  if (cached) {
+    return cached;
+  }
+
+  const values = new Map<string, string>();
+  for (const declarations of [
+    parseDeclarations(USER_AGENT_STYLES[element.tagName.toLowerCase()] ?? ''),
+    ...matchedDeclarations(element, context.compositingRules),
+    inlineDeclarations(element),
+  ]) {
+    for (const [property, value] of declarations) {
+      values.set(property, value);
+    }
+  }
+  const get = (property: string) => values.get(property)?.trim() ?? '';
+
+  const visibility = get('visibility');
+  const parentVisibility = element.parentElement
+    ? compositingStyleOf(context, element.parentElement).visibility
+    : ROOT_STYLE.visibility;
+  const opacity = parseFloat(get('opacity'));
+  const zIndex = parseInt(get('z-index'), 10);
+  const style: CompositingStyle = {
+    display: get('display') || 'inline',
+    visibility: !visibility || visibility === 'inherit' ? parentVisibility : visibility,
+    opacity: Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1,
+    zIndex: Number.isFinite(zIndex) ? zIndex : null,
+    filter: parseFilter(get('filter')),
+    mixBlendMode: BLEND_MODES.includes(get('mix-blend-mode')) ? get('mix-blend-mode') : 'normal',
+    transform: get('transform') || 'none',
+    transformOrigin: get('transform-origin') || '50% 50%',
+  };
+  context.compositing.set(element, style);
+  return style;
+}
+
+/**
+ * Cascaded properties deciding whether, in which order and how a layer
+ * element is composited: its `display`, `visibility`, `opacity`, `z-index`,
+ * `filter` and `mix-blend-mode`
+ */
+export function layerStackingStyle(
+  element: Element,
+  context: HtmlLayoutContext
+): Pick<BoxStyle, 'display' | 'visibility' | 'opacity' | 'zIndex' | 'filter' | 'mixBlendMode'> {
+  const { display, visibility, opacity, zIndex, filter, mixBlendMode } = compositingStyleOf(context, element);
+  return { display, visibility, opacity, zIndex, filter, mixBlendMode };
+}
+
+/**
+ * Cascaded `transform` and `transform-origin` of a layer element or one of its
+ * panes and containers
+ */
+export function layerTransformStyle(
+  element: Element,
+  context: HtmlLayoutContext
+): Pick<BoxStyle, 'transform' | 'transformOrigin'> {
+  const { transform, transformOrigin } = compositingStyleOf(context, element);
+  return { transform, transformOrigin };
+}
+
+/**
+ * Lay out an HTML layer element, such as an `L.divIcon` marker or a div tile
+ *
+ * The element's own position and margins are left to the caller, so the
+ * returned box sits at the origin.
+ *
+ * @returns The laid out box, or null when the element is not displayed
+ */
+export async function layoutHtmlElement(element: HTMLElement, context: HtmlLayoutContext): Promise<HtmlBox | null> {
+  const style = styleOf(context, element);
+  if (style.display === 'none') {
+    return null;
+  }
+
+  const box = await layoutElement(context, element, style, context.availableWidth, true);
+  box.x = 0;
+  box.y = 0;
+  return box;
+}
+
+/**
+ * Resolve border radii per corner as [horizontal, vertical] pairs
+ * (top-left, top-right, bottom-right, bottom-left), scaled down to fit
+ */
+function resolveRadii(box: HtmlBox): [number, number][] {
+  const [horizontalText, verticalText] = box.style.radius.split('/').map((part) => part.trim().split(/\s+/));
+  const expand = (values: string[]) => {
+    const [a, b = a, c = a, d = b] = values;
+    return [a, b, c, d];
+  };
+  const horizontal = expand(horizontalText).map((value) => toPx(value, box.width, box.style.fontSize) ?? 0);
+  const vertical = verticalText
+    ? expand(verticalText).map((value) => toPx(value, box.height, box.style.fontSize) ?? 0)
+    : expand(horizontalText).map((value) => toPx(value, box.height, box.style.fontSize) ?? 0);
+
+  const scale = Math.min(
+    1,
+    box.width / Math.max(horizontal[0] + horizontal[1], 1e-9),
+    box.width / Math.max(horizontal[3] + horizontal[2], 1e-9),
+    box.height / Math.max(vertical[0] + vertical[3], 1e-9),
+    box.height / Math.max(vertical[1] + vertical[2], 1e-9)
+  );
+  return horizontal.map((value, index) => [value * scale, vertical[index] * scale]);
+}
+
+const KAPPA = 0.5522847498;
+
+function roundedRectPath(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radii: [number, number][]
+): void {
+  const [[tlx, tly], [trx, try_], [brx, bry], [blx, bly]] = radii;
+  ctx.moveTo(x + tlx, y);
+  ctx.lineTo(x + width - trx, y);
+  ctx.bezierCurveTo(x + width - trx * (1 - KAPPA), y, x + width, y + try_ * (1 - KAPPA), x + width, y + try_);
+  ctx.lineTo(x + width, y + height - bry);
+  ctx.bezierCurveTo(x + width, y + height - bry * (1 - KAPPA), x + width - brx * (1 - KAPPA), y + height, x + width - brx, y + height);
+  ctx.lineTo(x + blx, y + height);
+  ctx.bezierCurveTo(x + blx * (1 - KAPPA), y + height, x, y + height - bly * (1 - KAPPA), x, y + height - bly);
+  ctx.lineTo(x, y + tly);
+  ctx.bezierCurveTo(x, y + tly * (1 - KAPPA), x + tlx * (1 - KAPPA), y, x + tlx, y);
+  ctx.closePath();
+}
+
+function insetRadii(radii: [number, number][], inset: Sides): [number, number][] {
+  const [tl, tr, br, bl] = radii;
+  return [
+    [Math.max(0, tl[0] - inset.left), Math.max(0, tl[1] - inset.top)],
+    [Math.max(0, tr[0] - inset.right), Math.max(0, tr[1] - inset.top)],
+    [Math.max(0, br[0] - inset.right), Math.max(0, br[1] - inset.bottom)],
+    [Math.max(0, bl[0] - inset.left), Math.max(0, bl[1] - inset.bottom)],
+  ];
+}
+
+function paintBackgroundImage(ctx: CanvasRenderingContext2D, box: HtmlBox, left: number, top: number): void {
+  const image = box.background!;
+  const { style } = box;
+  const areaWidth = box.width - box.borderWidth.left - box.borderWidth.right;
+  const areaHeight = box.height - box.borderWidth.top - box.borderWidth.bottom;
+  const areaLeft = left + box.borderWidth.left;
+  const areaTop = top + box.borderWidth.top;
+
+  let width = image.width;
+  let height = image.height;
+  if (style.backgroundSize === 'cover' || style.backgroundSize === 'contain') {
+    const ratio = style.backgroundSize === 'cover'
+      ? Math.max(areaWidth / image.width, areaHeight / image.height)
+      : Math.min(areaWidth / image.width, areaHeight / image.height);
+    width = image.width * ratio;
+    height = image.height * ratio;
+  } else if (style.backgroundSize !== 'auto') {
+    const [sizeX, sizeY = 'auto'] = style.backgroundSize.split(/\s+/);
+    const resolvedX = toPx(sizeX, areaWidth, style.fontSize);
+    const resolvedY = toPx(sizeY, areaHeight, style.fontSize);
+    width = resolvedX ?? (resolvedY !== null ? (resolvedY * image.width) / image.height : image.width);
+    height = resolvedY ?? (resolvedX !== null ? (resolvedX * image.height) / image.width : image.height);
+  }
+
+  const keywords: Record<string, string> = { left: '0%', top: '0%', center: '50%', right: '100%', bottom: '100%' };
+  let [positionX, positionY = '50%'] = style.backgroundPosition.split(/\s+/).map((value) => keywords[value] ?? value);
+  if (style.backgroundPosition === 'top' || style.backgroundPosition === 'bottom') {
+    [positionX, positionY] = ['50%', keywords[style.backgroundPosition]];
+  }
+  const offset = (value: string, free: number) =>
+    value.endsWith('%') ? (parseFloat(value) / 100) * free : toPx(value, free, style.fontSize) ?? 0;
+  const x = areaLeft + offset(positionX, areaWidth - width);
+  const y = areaTop + offset(positionY, areaHeight - height);
+
+  if (width <= 0 || height <= 0) {
+    return;
+  }
+
+  const repeatX = style.backgroundRepeat === 'repeat' || style.backgroundRepeat === 'repeat-x';
+  const repeatY = style.backgroundRepeat === 'repeat' || style.backgroundRepeat === 'repeat-y';
+  const startX = repeatX ? x - Math.ceil((x - left) / width) * width : x;
+  const startY = repeatY ? y - Math.ceil((y - top) / height) * height : y;
+  const endX = repeatX ? left + box.width : startX + 1;
+  const endY = repeatY ? top + box.height : startY + 1;
+
+  for (let tileY = startY; tileY < endY; tileY += height) {
+    for (let tileX = startX; tileX < endX; tileX += width) {
+      ctx.drawImage(image as any, tileX, tileY, width, height);
+    }
+  }
+}
+
+function paintBorder(ctx: CanvasRenderingContext2D, box: HtmlBox, left: number, top: number, radii: [number, number][]): void {
+  const { borderWidth: border, style } = box;
+  const widths = [border.top, border.right, border.bottom, border.left];
+  if (widths.every((width) => width <= 0)) {
+    return;
+  }
+
+  const uniform = widths.every((width) => width === widths[0])
+    && style.borderColor.every((color) => color === style.borderColor[0])
+    && style.borderStyle.every((value) => value === style.borderStyle[0]);
+
+  if (uniform) {
+    // Stroke along the middle of the border
+    const width = widths[0];
+    const half = { top: width / 2, right: width / 2, bottom: width / 2, left: width / 2 };
+    ctx.save();
+    ctx.strokeStyle = style.borderColor[0];
+    ctx.lineWidth = width;
+    if (style.borderStyle[0] === 'dashed') {
+      ctx.setLineDash([width * 3, width * 3]);
+    } else if (style.borderStyle[0] === 'dotted') {
+      ctx.setLineDash([width, width]);
+    }
+    ctx.beginPath();
+    roundedRectPath(ctx, left + width / 2, top + width / 2, box.width - width, box.height - width, insetRadii(radii, half));
+    ctx.stroke();
+    ctx.restore();
+    return;
+  }
+
+  const sides: [number, number, number, number][] = [
+    [left, top, box.width, border.top],
+    [left + box.width - border.right, top, border.right, box.height],
+    [left, top + box.height - border.bottom, box.width, border.bottom],
+    [left, top, border.left, box.height],
+  ];
+  sides.forEach(([x, y, width, height], index) => {
+    if (widths[index] > 0) {
+      ctx.fillStyle = style.borderColor[index];
+      ctx.fillRect(x, y, width, height);
+    }
+  });
+}
+
+/**
+ * Set a box shadow on the context; shadow offsets and blur ignore the
+ * transform, so they are scaled to device pixels here
+ */
+function applyShadow(ctx: CanvasRenderingContext2D, shadow: NonNullable<BoxStyle['boxShadow']>): void {
+  const matrix = typeof ctx.getTransform === 'function' ? ctx.getTransform() : null;
+  const scale = matrix ? Math.hypot(matrix.a, matrix.b) : 1;
+  ctx.shadowColor = shadow.color;
+  ctx.shadowOffsetX = shadow.x * scale;
+  ctx.shadowOffsetY = shadow.y * scale;
+  ctx.shadowBlur = shadow.blur * scale;
+}
+
+/**
+ * Paint a box shadow outside the border box only, as CSS does, so it shows
+ * around boxes without a background and never darkens a translucent one
+ *
+ * Contexts without a backing canvas (such as the PDF recorder) cannot draw
+ * shadows and are skipped.
+ */
+function paintShadow(
+  ctx: CanvasRenderingContext2D,
+  box: HtmlBox,
+  shadow: NonNullable<BoxStyle['boxShadow']>,
+  left: number,
+  top: number,
+  radii: [number, number][]
+): void {
+  if (!(ctx as { canvas?: unknown }).canvas) {
+    return;
+  }
+
+  const reach = Math.abs(shadow.x) + Math.abs(shadow.y) + shadow.blur * 2 + 1;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left - reach, top - reach, box.width + reach * 2, box.height + reach * 2);
+  roundedRectPath(ctx, left, top, box.width, box.height, radii);
+  ctx.clip('evenodd');
+
+  ctx.beginPath();
+  roundedRectPath(ctx, left, top, box.width, box.height, radii);
+  applyShadow(ctx, shadow);
+  ctx.fillStyle = '#000';
+  ctx.fill();
+  ctx.restore();
+}
+
+/**
+ * Paint a translucent box through an offscreen layer, so its background,
+ * shadow, border and content fade together as CSS opacity does
+ *
+ * @returns False when the context has no backing canvas (such as the PDF
+ * recorder) or is rotated, leaving each part to be faded on its own
+ */
+function paintOpacityGroup(ctx: CanvasRenderingContext2D, box: HtmlBox, x: number, y: number): boolean {
+  const matrix = typeof ctx.getTransform === 'function' ? ctx.getTransform() : null;
+  if (!(ctx as { canvas?: unknown }).canvas || !matrix || matrix.b !== 0 || matrix.c !== 0) {
+    return false;
+  }
+
+  const bounds = htmlBoxBounds(box);
+  const left = Math.floor(x + bounds.left);
+  const top = Math.floor(y + bounds.top);
+  const width = Math.ceil(x + bounds.right) - left;
+  const height = Math.ceil(y + bounds.bottom) - top;
+  if (width <= 0 || height <= 0) {
+    return true;
+  }
+
+  const scaleX = Math.abs(matrix.a);
+  const scaleY = Math.abs(matrix.d);
+  const layer = createCanvas(Math.max(1, Math.ceil(width * scaleX)), Math.max(1, Math.ceil(height * scaleY)));
+  const layerContext = layer.getContext('2d') as unknown as CanvasRenderingContext2D;
+  layerContext.scale(scaleX, scaleY);
+  layerContext.translate(-left, -top);
+  paintHtmlBox(layerContext, { ...box, style: { ...box.style, opacity: 1 } }, x, y);
+
+  ctx.save();
+  ctx.globalAlpha *= box.style.opacity;
+  ctx.drawImage(layer as unknown as CanvasImageSource, left, top, width, height);
+  ctx.restore();
+  return true;
+}
+
+/**
+ * Paint a laid out box and its descendants
+ *
+ * @param x - Position of the box's parent (or of the layer element for the root box)
+ * @param y - Position of the box's parent (or of the layer element for the root box)
+ */
+export function paintHtmlBox(ctx: CanvasRenderingContext2D, box: HtmlBox, x: number, y: number): void {
+  const { style } = box;
+  const left = x + box.x;
+  const top = y + box.y;
+  if (style.opacity <= 0) {
+    return;
+  }
+  if (style.opacity < 1 && paintOpacityGroup(ctx, box, x, y)) {
+    return;
+  }
+
+  ctx.save();
+  ctx.globalAlpha *= style.opacity;
+  const radii = resolveRadii(box);
+  const visible = style.visibility !== 'hidden';
+
+  if (visible && box.width > 0 && box.height > 0) {
+    if (style.boxShadow) {
+      paintShadow(ctx, box, style.boxShadow, left, top, radii);
+    }
+    if (style.backgroundColor !== 'transparent' || box.background) {
+      ctx.save();
+      ctx.beginPath();
+      roundedRectPath(ctx, left, top, box.width, box.height, radii);
+      if (style.backgroundColor !== 'transparent') {
+        ctx.fillStyle = style.backgroundColor;
+        ctx.fill();
+      }
+      if (box.background) {
+        ctx.clip();
+        paintBackgroundImage(ctx, box, left, top);
+      }
+      ctx.restore();
+    }
+
+    paintBorder(ctx, box, left, top, radii);
+  }
+
+  if (style.overflowHidden) {
+    const border = box.borderWidth;
+    ctx.beginPath();
+    roundedRectPath(
+      ctx,
+      left + border.left,
+      top + border.top,
+      box.width - border.left - border.right,
+      box.height - border.top - border.bottom,
+      insetRadii(radii, border)
+    );
+    ctx.clip();
+  }
+
+  if (visible && box.image) {
+    const padding = resolveSides(style.padding, null, style.fontSize);
+    const border = box.borderWidth;
+    ctx.drawImage(
+      box.image as any,
+      left + border.left + padding.left,
+      top + border.top + padding.top,
+      box.width - border.left - border.right - padding.left - padding.right,
+      box.height - border.top - border.bottom - padding.top - padding.bottom
+    );
+  }
+
+  for (const child of box.children) {
+    paintHtmlBox(ctx, child, left, top);
+  }
+
+  if (visible) {
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    for (const run of box.text) {
+      ctx.font = run.font;
+      ctx.fillStyle = run.color;
+      ctx.fillText(run.text, left + run.x, top + run.y);
+      for (const line of run.decoration) {
+        const offset = line === 'underline' ? 0.1 : line === 'overline' ? -FONT_ASCENT : -0.3;
+        ctx.fillRect(left + run.x, top + run.y + offset * run.fontSize, run.width, Math.max(1, run.fontSize / 14));
+      }
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Trace the outline of a box's border edge, including rounded corners, as the current path
+ *
+ * @param x - Position of the box's parent
+ * @param y - Position of the box's parent
+ */
+export function traceHtmlBox(ctx: CanvasRenderingContext2D, box: HtmlBox, x: number, y: number): void {
+  ctx.beginPath();
+  roundedRectPath(ctx, x + box.x, y + box.y, box.width, box.height, resolveRadii(box));
+}
+
+/**
+ * Area painted by a box and its descendants, relative to the box's parent
+ */
+export function htmlBoxBounds(box: HtmlBox): { left: number; top: number; right: number; bottom: number } {
+  const bounds = { left: box.x, top: box.y, right: box.x + box.width, bottom: box.y + box.height };
+  const shadow = box.style.boxShadow;
+  if (shadow) {
+    bounds.left = Math.min(bounds.left, box.x + shadow.x - shadow.blur);
+    bounds.top = Math.min(bounds.top, box.y + shadow.y - shadow.blur);
+    bounds.right = Math.max(bounds.right, box.x + box.width + shadow.x + shadow.blur);
+    bounds.bottom = Math.max(bounds.bottom, box.y + box.height + shadow.y + shadow.blur);
+  }
+  const include = (left: number, top: number, right: number, bottom: number) => {
+    bounds.left = Math.min(bounds.left, left);
+    bounds.top = Math.min(bounds.top, top);
+    bounds.right = Math.max(bounds.right, right);
+    bounds.bottom = Math.max(bounds.bottom, bottom);
+  };
+
+  if (!box.style.overflowHidden) {
+    for (const run of box.text) {
+      include(
+        box.x + run.x,
+        box.y + run.y - run.fontSize,
+        box.x + run.x + run.width,
+        box.y + run.y + run.fontSize / 2
+      );
+    }
+    for (const child of box.children) {
+      const childBounds = htmlBoxBounds(child);
+      include(box.x + childBounds.left, box.y + childBounds.top, box.x + childBounds.right, box.y + childBounds.bottom);
+    }
+  }
+  return bounds;
+}
@@ -0,0 +1,229 @@
+/**
+ * Shared in-memory cache of decoded images
+ *
+ * Decoded @napi-rs/canvas images are kept in an LRU bounded by their pixel
+ * memory (width × height × 4 bytes) so that tiles and marker icons used by
+ * several maps or layers are only downloaded and decoded once. Concurrent
+ * requests for the same source share a single in-flight load, which is only
+ * aborted once every request waiting for it has been aborted.
+ */
+
+import type { Image as CanvasImage } from '@napi-rs/canvas';
+import type { ImageCacheOptions, ImageCacheStats } from './types.js';
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+interface CacheEntry {
+  image: CanvasImage;
+  bytes: number;
+}
+
+interface InflightLoad {
+  promise: Promise<CanvasImage>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Loads a decoded image; the signal is aborted when no request needs it any more
+ */
+export type ImageLoader = (signal: AbortSignal) => Promise<CanvasImage>;
+
+function imageBytes(image: CanvasImage): number {
+  return Math.max(1, image.width) * Math.max(1, image.height) * 4;
+}
+
+class ImageCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, InflightLoad>();
+  private maxBytes = DEFAULT_MAX_BYTES;
+  private enabled = true;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private deduplicated = 0;
+  private evictions = 0;
+
+  configure(options: ImageCacheOptions): void {
+    if (options.maxBytes !== undefined) {
+      this.maxBytes = Math.max(0, options.maxBytes);
+    }
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+    }
+
+    if (!this.enabled) {
+      this.clear();
+      return;
+    }
+    this.evict();
+  }
+
+  async load(key: string, loader: ImageLoader, signal?: AbortSignal): Promise<CanvasImage> {
+    if (!this.enabled) {
+      return await loader(signal ?? new AbortController().signal);
+    }
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      this.hits++;
+      return cached.image;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.deduplicated++;
+      return await this.wait(key, pending, signal);
+    }
+
+    this.misses++;
+    const controller = new AbortController();
+    const promise: Promise<CanvasImage> = loader(controller.signal)
+      .then((image) => {
+        this.store(key, image);
+        return image;
+      })
+      .finally(() => {
+        if (this.inflight.get(key)?.promise === promise) {
+          this.inflight.delete(key);
+        }
+      });
+    const load: InflightLoad = { promise, controller, waiters: 0 };
+    this.inflight.set(key, load);
+
+    return await this.wait(key, load, signal);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  stats(): ImageCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      deduplicated: this.deduplicated,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.deduplicated = 0;
+    this.evictions = 0;
+  }
+
+  /**
+   * Wait for a shared load on behalf of one request. Aborting the request
+   * rejects its wait only; the load itself is aborted, and forgotten so later
+   * requests start afresh, when its last waiter is aborted.
+   */
+  private wait(key: string, load: InflightLoad, signal?: AbortSignal): Promise<CanvasImage> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
+
+    load.waiters++;
+    if (!signal) {
+      // Never released, so the load always completes
+      return load.promise;
+    }
+
+    return new Promise<CanvasImage>((resolve, reject) => {
+      const onAbort = () => {
+        load.waiters--;
+        if (load.waiters === 0) {
+          if (this.inflight.get(key) === load) {
+            this.inflight.delete(key);
+          }
+          load.controller.abort(signal.reason);
+        }
+        reject(signal.reason as Error);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      load.promise.then(
+        (image) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(image);
+        },
+        (error: Error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private store(key: string, image: CanvasImage): void {
+    const bytes = imageBytes(image);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.bytes -= existing.bytes;
+      this.entries.delete(key);
+    }
+
+    this.entries.set(key, { image, bytes });
+    this.bytes += bytes;
+    this.evict();
+  }
+
+  private evict(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+      this.evictions++;
+    }
+  }
+}
+
+const sharedCache = new ImageCache();
+
+/**
+ * Load a decoded image through the shared cache
+ *
+ * @param key - Cache key (the image source)
+ * @param loader - Function that downloads and decodes the image on a miss
+ * @param signal - Aborts this request; a shared load is aborted once all of
+ * its requests are
+ */
+export function loadCachedImage(key: string, loader: ImageLoader, signal?: AbortSignal): Promise<CanvasImage> {
+  return sharedCache.load(key, loader, signal);
+}
+
+/**
+ * Change the memory budget of the decoded-image cache or disable it
+ */
+export function configureImageCache(options: ImageCacheOptions): void {
+  sharedCache.configure(options);
+}
+
+/**
+ * Drop every decoded image from the cache and reset its statistics
+ */
+export function clearImageCache(): void {
+  sharedCache.clear();
+  sharedCache.resetStats();
+}
+
+/**
+ * Get hit/miss counters and memory usage of the decoded-image cache
+ */
+export function getImageCacheStats(): ImageCacheStats {
+  return sharedCache.stats();
+}
@@ -28,7 +28,49 @@ function resolveProxyDispatcher(): Dispatcher | null {
   cachedDispatcher = proxyUrl ? new ProxyAgent(proxyUrl) : null;
   return cachedDispatcher;
 }
-import type { HeadlessImage } from './types.js';
+import type { HeadlessImage, ImageRequestOptions, UrlSigner } from './types.js';
+import { getTileCache } from './tile-cache.js';
+import { loadCachedImage } from './image-cache.js';
+import { resolveRequest, scheduleFetch } from './network.js';
+import { getImageProtocolHandler, isDecodedImage } from './protocols.js';
+import { OfflineModeError, allowsCachedResponses, assertRequestAllowed, isRequestAllowed } from './offline.js';
+
+const signerIds = new WeakMap<UrlSigner, number>();
+let nextSignerId = 1;
+
+/**
+ * Identify the per-request headers and URL signer of a load
+ *
+ * Caches key images by source plus this identity, so an image fetched with
+ * one layer's credentials or signature is never served to another layer.
+ *
+ * @returns An empty string when the load has no per-request overrides
+ */
+function requestIdentity(requestOptions?: ImageRequestOptions): string {
+  const parts: string[] = [];
+  const headers = Object.entries(requestOptions?.headers ?? {})
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  if (headers.length > 0) {
+    parts.push(JSON.stringify(headers));
+  }
+
+  const signUrl = requestOptions?.signUrl;
+  if (signUrl) {
+    let id = signerIds.get(signUrl);
+    if (id === undefined) {
+      id = nextSignerId++;
+      signerIds.set(signUrl, id);
+    }
+    parts.push(`signer:${id}`);
+  }
+
+  return parts.join('\n');
+}
+
+function isHttpSource(src: string): boolean {
+  return src.startsWith('https://') || src.startsWith('http://');
+}
 
 /**
  * Remove query string from URL
@@ -51,18 +93,58 @@ async function fileExists(path: string): Promise<boolean> {
 }
 
 /**
- * Load image from HTTP/HTTPS URL
+ * Issue an HTTP request through the configured proxy, if any, subject to
+ * the request scheduler's concurrency, rate limits and retries. Configured
+ * headers and URL signing are applied here, so caches stay keyed by the
+ * unsigned URL. Offline mode is enforced here as well. Aborting the
+ * request's signal cancels it whether it is queued or in flight.
  */
-async function loadFromUrl(url: string): Promise<Buffer> {
+async function requestUrl(
+  url: string,
+  extraHeaders: Record<string, string> = {},
+  requestOptions?: ImageRequestOptions
+) {
+  assertRequestAllowed(url);
   const dispatcher = resolveProxyDispatcher();
-  const response = await undiciFetch(url, dispatcher ? { dispatcher } : undefined);
+  const request = await resolveRequest(url, requestOptions);
+  const headers = { ...request.headers, ...extraHeaders };
+
+  const signal = requestOptions?.signal;
+
+  return await scheduleFetch(
+    request.url,
+    () => undiciFetch(request.url, dispatcher ? { headers, signal, dispatcher } : { headers, signal }),
+    signal
+  );
+}
+
+/**
+ * Load image from HTTP/HTTPS URL
+ */
+async function loadFromUrl(url: string, requestOptions?: ImageRequestOptions): Promise<Buffer> {
+  const cache = getTileCache();
+  const fetcher = (cacheUrl: string, headers: Record<string, string>) => requestUrl(cacheUrl, headers, requestOptions);
+  const variant = requestIdentity(requestOptions);
+
+  if (!isRequestAllowed(url)) {
+    // Offline mode may still serve responses the tile cache already holds
+    if (cache && allowsCachedResponses() && await cache.has(url, variant)) {
+      return await cache.load(url, fetcher, { offline: true, variant });
+    }
+    throw new OfflineModeError(url);
+  }
+
+  if (cache) {
+    return await cache.load(url, fetcher, { variant });
+  }
+
+  const response = await requestUrl(url, {}, requestOptions);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch image from ${url}: ${response.status} ${response.statusText}`);
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+  return response.body;
 }
 
 /**
@@ -80,12 +162,49 @@ async function loadFromFile(path: string): Promise<Buffer> {
 
 /**
  * Load image data from supported sources and return a CanvasImage
+ *
+ * Sources whose scheme has a handler registered through
+ * `registerImageProtocol` are loaded by that handler; otherwise
+ * `http(s)://`, `data:`, `file://` and bare file paths are supported.
+ * Decoded images are shared through the in-memory image cache, so repeated
+ * or concurrent requests for the same source and request overrides only
+ * load it once.
+ *
+ * @param src - Image URL, data URI or file path
+ * @param requestOptions - Per-request header, URL signing and abort overrides
+ */
+export async function loadImageSource(
+  src: string,
+  requestOptions?: ImageRequestOptions
+): Promise<CanvasImage> {
+  const identity = isHttpSource(src) ? requestIdentity(requestOptions) : '';
+  const key = identity ? `${src}\n${identity}` : src;
+  const { signal, ...request } = requestOptions ?? {};
+  return await loadCachedImage(key, (loadSignal) => decodeImageSource(src, { ...request, signal: loadSignal }), signal);
+}
+
+/**
+ * Read and decode an image source, bypassing the image cache
  */
-export async function loadImageSource(src: string): Promise<CanvasImage> {
+async function decodeImageSource(src: string, requestOptions?: ImageRequestOptions): Promise<CanvasImage> {
   let buffer: Buffer;
+  const handler = getImageProtocolHandler(src);
+
+  if (handler) {
+    const signal = requestOptions?.signal ?? new AbortController().signal;
+    const result = await handler(src, { signal });
 
-  if (src.startsWith('https://') || src.startsWith('http://')) {
-    buffer = await loadFromUrl(src);
+    if (isDecodedImage(result)) {
+      return result;
+    }
+    if (!result) {
+      throw new Error(`Image protocol handler returned no data for ${src}`);
+    }
+    buffer = Buffer.isBuffer(result)
+      ? result
+      : Buffer.from(result instanceof ArrayBuffer ? new Uint8Array(result) : result);
+  } else if (isHttpSource(src)) {
+    buffer = await loadFromUrl(src, requestOptions);
   } else if (src.startsWith('data:')) {
     const commaIndex = src.indexOf(',');
 
@@ -109,7 +228,7 @@ export async function loadImageSource(src: string): Promise<CanvasImage> {
 /**
  * Convert buffer to canvas Image
  */
-async function bufferToImage(buffer: Buffer): Promise<CanvasImage> {
+export async function bufferToImage(buffer: Buffer): Promise<CanvasImage> {
   return await new Promise<CanvasImage>((resolve, reject) => {
     const image = new CanvasImage();
     image.onload = () => resolve(image);
@@ -7,13 +7,38 @@
  */
 
 import { JSDOM } from 'jsdom';
-import { promises as fs } from 'fs';
+import type { DOMWindow } from 'jsdom';
+import { promises as fs, readFileSync } from 'fs';
 import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { compileFunction } from 'vm';
 import { createCanvas } from '@napi-rs/canvas';
 import type * as LeafletModule from 'leaflet';
-import type { LeafletHeadlessMap, HeadlessOptions } from './types.js';
+import type {
+  LeafletHeadlessMap,
+  HeadlessOptions,
+  HeadlessEnvironment,
+  HeadlessLeaflet,
+  ExportOptions,
+  ExportFormat,
+  ExportBoundsOptions,
+  PDFExportOptions,
+  WhenRenderedOptions,
+  ImageRequestOptions,
+} from './types.js';
 import HeadlessImage, { loadImageSource } from './image.js';
 import { mapToCanvas } from './export-image.js';
+import { mapToSVG } from './export-svg.js';
+import { mapToPDF } from './export-pdf.js';
+import { panPopupsIntoView } from './export-popup.js';
+import { exportMapBounds } from './export-bounds.js';
+import { encodeCanvas, formatFromFilename } from './encode.js';
+import { collectBlockedResources, trackImageLoad, waitForMapRender } from './render-wait.js';
+import { configureNetwork } from './network.js';
+import { OfflineModeError, configureOffline, createResourceLoader } from './offline.js';
+import { registerImageProtocol } from './protocols.js';
+import { createMBTilesLayer, loadMBTilesTile } from './mbtiles.js';
+import { createPMTilesLayer, loadPMTilesTile } from './pmtiles.js';
 import { ensureDefaultFontsRegistered } from './fonts.js';
 
 // Extend global namespace for headless environment
@@ -30,33 +55,23 @@ declare global {
 const DEFAULT_OPTIONS: Required<HeadlessOptions> = {
   mapSize: { width: 1024, height: 1024 },
   enableAnimations: false,
+  enable3dTransforms: false,
   userAgent: 'webkit',
+  network: {},
+  offline: false,
 };
 
 /**
- * Initialize the headless environment (called automatically)
+ * Create a jsdom window for Leaflet: image elements load through the headless
+ * loader and canvas elements are backed by @napi-rs/canvas
  */
-function initializeEnvironment(options: HeadlessOptions = {}): typeof LeafletModule {
-  ensureDefaultFontsRegistered();
-
-  // Return existing Leaflet instance if already initialized
-  if ((global as any).L) {
-    return (global as any).L;
-  }
-
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-
+function createWindow(opts: Required<HeadlessOptions>): JSDOM {
   // Create fake DOM environment using jsdom
   const dom = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', {
     url: 'http://localhost',
     pretendToBeVisual: true,
-    resources: 'usable',
+    resources: createResourceLoader(),
   });
-
-  // Set up global environment
-  (global as any).document = dom.window.document;
-  (global as any).window = dom.window;
-  (global as any).Image = HeadlessImage;
   (dom.window as any).Image = HeadlessImage;
 
   // Ensure HTMLImageElement loads resources through our headless loader
@@ -79,35 +94,54 @@ function initializeEnvironment(options: HeadlessOptions = {}): typeof LeafletMod
         this.setAttribute('src', value);
       }
 
+      // Abort the previous load; Leaflet swaps the src of tiles it no longer needs
+      (this as any)._headlessAbort?.abort();
+      const controller = new AbortController();
+      (this as any)._headlessAbort = controller;
+      (this as any)._headlessBlocked = undefined;
+
       const load = async () => {
         try {
-          const canvasImage = await loadImageSource(value);
+          const canvasImage = await loadImageSource(value, {
+            ...(this as any)._headlessRequest,
+            signal: controller.signal,
+          });
+          if (controller.signal.aborted) {
+            return;
+          }
           (this as any)._napiImage = canvasImage;
           this.width = canvasImage.width;
           this.height = canvasImage.height;
           const loadEvent = new dom.window.Event('load');
           this.dispatchEvent(loadEvent);
         } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+          if (error instanceof OfflineModeError) {
+            (this as any)._headlessBlocked = error.url;
+          }
           const errorEvent = new dom.window.Event('error');
           (errorEvent as any).error = error;
           this.dispatchEvent(errorEvent);
         }
       };
 
-      load().catch((error) => {
+      const pending = load().catch((error) => {
         console.error('Error loading image element:', error);
       });
+      trackImageLoad(this as HTMLImageElement, value, pending);
     }
   });
 
-  // Set navigator (read-only, needs defineProperty)
-  if (!(global as any).navigator) {
-    Object.defineProperty(global, 'navigator', {
-      value: dom.window.navigator,
-      writable: true,
-      configurable: true
-    });
-  }
+  // Leaflet cancels the loads of tiles it removes by setting their src attribute
+  const originalSetAttribute = imagePrototype.setAttribute as Element['setAttribute'];
+  imagePrototype.setAttribute = function (this: any, name: string, value: string) {
+    if (name.toLowerCase() === 'src') {
+      this._headlessAbort?.abort();
+    }
+    originalSetAttribute.call(this, name, value);
+  };
 
   // Polyfill HTMLCanvasElement with @napi-rs/canvas
   const OriginalHTMLCanvasElement = dom.window.HTMLCanvasElement;
@@ -118,6 +152,11 @@ function initializeEnvironment(options: HeadlessOptions = {}): typeof LeafletMod
   dom.window.document.createElement = function(tagName: string, options?: any) {
     const element = originalCreateElement(tagName, options);
 
+    // Tag tile images with their layer's request overrides (see patchTileLayerPrototype)
+    if (activeTileRequestOptions && tagName.toLowerCase() === 'img') {
+      (element as any)._headlessRequest = activeTileRequestOptions;
+    }
+
     if (tagName.toLowerCase() === 'canvas') {
       const width = (element as any).width || 300;
       const height = (element as any).height || 150;
@@ -157,32 +196,319 @@ function initializeEnvironment(options: HeadlessOptions = {}): typeof LeafletMod
     return element;
   };
 
-  // Navigator is already available through window
-
-  // Configure Leaflet for headless mode
-  global.L_DISABLE_3D = true;
-  global.L_NO_TOUCH = true;
-
   // Set user agent
   Object.defineProperty(dom.window.navigator, 'userAgent', {
     value: opts.userAgent,
     writable: true,
   });
 
-  // Load Leaflet
-  const leafletPath = require.resolve('leaflet');
-  const L = require(leafletPath) as typeof LeafletModule;
-  (global as any).L = L;
+  return dom;
+}
+
+/**
+ * Evaluate a fresh copy of Leaflet against a window instead of the globals it
+ * normally reads when loaded
+ */
+function evaluateLeaflet(window: DOMWindow): typeof LeafletModule {
+  const filename = require.resolve('leaflet');
+  const module = { exports: {} };
+  // Leaflet's UMD wrapper fills CommonJS exports when both are defined
+  const factory = compileFunction(
+    readFileSync(filename, 'utf-8'),
+    ['exports', 'module', 'window', 'document', 'navigator', 'Element'],
+    { filename }
+  );
+  factory.call(window, module.exports, module, window, window.document, window.navigator, window.Element);
+  return module.exports as typeof LeafletModule;
+}
+
+/**
+ * Configure a Leaflet instance for headless use in a window: Leaflet's
+ * stylesheet, the headless map methods and the archive tile layers
+ */
+function setupLeaflet(
+  L: typeof LeafletModule,
+  window: DOMWindow,
+  opts: Required<HeadlessOptions>,
+  maps: Set<LeafletModule.Map> | null
+): HeadlessLeaflet {
+  // jsdom has no 3D transform support to detect, but the exporters resolve CSS
+  // transforms; with it Leaflet scales layers for fractional zoom levels and
+  // positions elements with transforms, as in browsers
+  if (opts.enable3dTransforms) {
+    (L.Browser as { any3d: boolean }).any3d = true;
+  }
 
   // Set icon path for markers
+  const leafletPath = require.resolve('leaflet');
   const scriptName = leafletPath.split(path.sep).pop() || '';
   const leafletDir = leafletPath.substring(0, leafletPath.length - scriptName.length);
   L.Icon.Default.imagePath = `file://${leafletDir}images${path.sep}`;
 
+  // Leaflet's stylesheet gives HTML layers such as divIcons their default look in exports
+  try {
+    const style = window.document.createElement('style');
+    // Image URLs in the stylesheet are relative to it, such as the layers control icon
+    style.textContent = readFileSync(`${leafletDir}leaflet.css`, 'utf-8').replace(
+      /url\((['"]?)(images\/[^'")]+)\1\)/g,
+      (_, quote: string, file: string) => `url(${quote}file://${leafletDir}${file}${quote})`
+    );
+    window.document.head.appendChild(style);
+  } catch {
+    // Builds without the stylesheet render HTML layers with inline styles only
+  }
+
   // Monkey-patch L.Map.prototype
-  patchMapPrototype(L, opts);
+  patchMapPrototype(L, opts, maps);
+  patchGridLayerPrototype(L);
+  patchCanvasPrototype(L);
+  patchTileLayerPrototype(L);
+  patchPopupPrototype(L);
+
+  const headless = L as HeadlessLeaflet;
+
+  // Serve tiles from local MBTiles archives
+  headless.tileLayer.mbtiles = (file: string, layerOptions?: LeafletModule.TileLayerOptions) =>
+    createMBTilesLayer(L, file, layerOptions);
+
+  // Serve tiles from local PMTiles archives
+  headless.tileLayer.pmtiles = (file: string, layerOptions?: LeafletModule.TileLayerOptions) =>
+    createPMTilesLayer(L, file, layerOptions);
+
+  return headless;
+}
+
+/**
+ * Initialize the headless environment (called automatically)
+ */
+function initializeEnvironment(options: HeadlessOptions = {}): HeadlessLeaflet {
+  ensureDefaultFontsRegistered();
+
+  // Return existing Leaflet instance if already initialized
+  if ((global as any).L) {
+    return (global as any).L as HeadlessLeaflet;
+  }
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  configureNetwork(opts.network);
+  configureOffline(opts.offline);
+  const dom = createWindow(opts);
+
+  // Set up global environment
+  (global as any).document = dom.window.document;
+  (global as any).window = dom.window;
+  // L.DivIcon checks its html option with `instanceof Element`
+  (global as any).Element = dom.window.Element;
+  (global as any).Image = HeadlessImage;
+
+  // Set navigator (read-only, needs defineProperty)
+  if (!(global as any).navigator) {
+    Object.defineProperty(global, 'navigator', {
+      value: dom.window.navigator,
+      writable: true,
+      configurable: true
+    });
+  }
+
+  // Configure Leaflet for headless mode
+  global.L_DISABLE_3D = true;
+  global.L_NO_TOUCH = true;
+
+  // Load Leaflet
+  const L = require('leaflet') as typeof LeafletModule;
+  (global as any).L = L;
+  return setupLeaflet(L, dom.window, opts, null);
+}
+
+/**
+ * A process-wide setting applied by live isolated environments
+ */
+interface SharedSetting {
+  name: string;
+  value: unknown;
+  holders: number;
+}
+
+const sharedNetwork: SharedSetting = { name: 'network', value: undefined, holders: 0 };
+const sharedOffline: SharedSetting = { name: 'offline', value: undefined, holders: 0 };
+
+/**
+ * Throw when an environment asks for a different value of a setting that
+ * another live environment applied
+ */
+function assertSharedSetting(setting: SharedSetting, value: unknown): void {
+  if (value !== undefined && setting.holders > 0 && !isDeepStrictEqual(setting.value, value)) {
+    throw new Error(
+      `Environment ${setting.name} options conflict with those of another live environment; ${setting.name} settings are shared by the whole process`
+    );
+  }
+}
+
+/**
+ * Hold a shared setting for an environment
+ *
+ * @returns Releases the setting again, or null when no value was given
+ */
+function holdSharedSetting(setting: SharedSetting, value: unknown): (() => void) | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  setting.value = value;
+  setting.holders++;
+  return () => {
+    setting.holders--;
+  };
+}
+
+/**
+ * Create an isolated headless environment with its own jsdom window and
+ * Leaflet instance, leaving the globals and the default export untouched
+ *
+ * Maps, layers and plugins must come from the environment's `L`. Network and
+ * offline settings are shared by the whole process; when given here they are
+ * applied as `configureNetwork` and `configureOffline` would, and environments
+ * alive at the same time must not ask for different ones.
+ *
+ * @param options - Map size, animation and user agent settings for this environment
+ * @returns The environment; call `dispose()` when done with it
+ */
+export function createHeadlessEnvironment(options: HeadlessOptions = {}): HeadlessEnvironment {
+  ensureDefaultFontsRegistered();
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const offline = options.offline === true ? {} : options.offline;
+  assertSharedSetting(sharedNetwork, options.network);
+  assertSharedSetting(sharedOffline, offline);
+
+  const releaseSettings = [holdSharedSetting(sharedNetwork, options.network), holdSharedSetting(sharedOffline, offline)];
+  if (options.network) {
+    configureNetwork(options.network);
+  }
+  if (offline !== undefined) {
+    configureOffline(offline);
+  }
+
+  const dom = createWindow(opts);
+  const maps = new Set<LeafletModule.Map>();
+  const L = setupLeaflet(evaluateLeaflet(dom.window), dom.window, opts, maps);
+
+  let disposed = false;
+  return {
+    L,
+    window: dom.window,
+    document: dom.window.document,
+    dispose() {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      releaseSettings.forEach((release) => release?.());
+
+      // Removing the maps aborts their pending tile and icon loads
+      for (const map of Array.from(maps)) {
+        map.remove();
+      }
+      dom.window.close();
+    },
+  };
+}
+
+/**
+ * Request overrides of the tile layer currently creating a tile, if any
+ */
+let activeTileRequestOptions: ImageRequestOptions | null = null;
+
+/**
+ * Keep loaded tiles opaque when fade animation is off. Leaflet's
+ * `GridLayer._updateOpacity` fades tiles in from the time they loaded
+ * whatever the map's animation options, so a `setOpacity` call soon after
+ * loading would otherwise leave the tiles partly transparent in exports.
+ */
+function patchGridLayerPrototype(L: typeof LeafletModule): void {
+  const originalUpdateOpacity = (L.GridLayer.prototype as any)._updateOpacity;
+
+  (L.GridLayer.prototype as any)._updateOpacity = function (this: any) {
+    originalUpdateOpacity.call(this);
+    if (!this._map || this._map._fadeAnimated) {
+      return;
+    }
+
+    for (const tile of Object.values<any>(this._tiles ?? {})) {
+      if (tile.current && tile.loaded) {
+        L.DomUtil.setOpacity(tile.el, 1);
+      }
+    }
+  };
+}
 
-  return L;
+/**
+ * Skip redraws of removed canvas renderers. Leaflet redraws the canvas
+ * straight away when the map moves but leaves an already requested frame
+ * queued, which fails once the map is removed; exports that move the view
+ * back after popup panning make this common.
+ */
+function patchCanvasPrototype(L: typeof LeafletModule): void {
+  const originalRedraw = (L.Canvas.prototype as any)._redraw;
+
+  (L.Canvas.prototype as any)._redraw = function (this: any) {
+    if (this._ctx) {
+      originalRedraw.call(this);
+    }
+  };
+}
+
+/**
+ * Apply patches to Leaflet TileLayer prototype so per-layer `headers` and
+ * `signUrl` options reach the tile image loads
+ */
+function patchTileLayerPrototype(L: typeof LeafletModule): void {
+  const originalCreateTile = (L.TileLayer.prototype as any).createTile;
+
+  // Leaflet treats tiles of a createTile without a `done` parameter as ready
+  // straight away, so the override keeps both parameters
+  (L.TileLayer.prototype as any).createTile = function (this: any, coords: unknown, done: unknown) {
+    const { headers, signUrl } = (this.options ?? {}) as LeafletModule.TileLayerOptions;
+    if (!headers && !signUrl) {
+      return originalCreateTile.call(this, coords, done);
+    }
+
+    // createTile creates the <img> and assigns its src synchronously
+    activeTileRequestOptions = { headers, signUrl };
+    try {
+      return originalCreateTile.call(this, coords, done);
+    } finally {
+      activeTileRequestOptions = null;
+    }
+  };
+}
+
+/**
+ * Apply patches to Leaflet Popup prototype so `autoPan` (and `keepInView`)
+ * are applied by exports, where the popup's real size is known; jsdom
+ * reports every element as empty. Moving the map settles a pending pan, as
+ * it would have happened before the move in a browser.
+ */
+function patchPopupPrototype(L: typeof LeafletModule): void {
+  const popupProto = L.Popup.prototype as any;
+  const originalGetEvents = popupProto.getEvents;
+
+  popupProto._adjustPan = function (this: any) {
+    if (this.options.autoPan) {
+      this._headlessPanPending = true;
+    }
+  };
+
+  popupProto.getEvents = function (this: any) {
+    const events = originalGetEvents.call(this);
+    // keepInView popups ask to pan again on moveend
+    events.movestart = this._settlePan;
+    return events;
+  };
+
+  popupProto._settlePan = function (this: any) {
+    this._headlessPanPending = false;
+  };
 }
 
 /**
@@ -190,10 +516,14 @@ function initializeEnvironment(options: HeadlessOptions = {}): typeof LeafletMod
  */
 function patchMapPrototype(
   L: typeof LeafletModule,
-  options: Required<HeadlessOptions>
+  options: Required<HeadlessOptions>,
+  maps: Set<LeafletModule.Map> | null
 ): void {
   const originalInit = (L.Map.prototype as any).initialize;
 
+  // Exporters look up layer classes on the map's own Leaflet instance
+  (L.Map.prototype as any)._headlessLeaflet = L;
+
   // Override initialize to set headless-friendly defaults
   (L.Map.prototype as any).initialize = function (
     id: string | HTMLElement,
@@ -209,6 +539,11 @@ function patchMapPrototype(
 
     const mapInstance = originalInit.call(this, id, headlessOpts);
     (this as any)._headlessSize = { ...options.mapSize };
+    // Isolated environments remove their maps when disposed
+    if (maps) {
+      maps.add(this);
+      this.once('unload', () => maps.delete(this));
+    }
     return mapInstance;
   };
 
@@ -222,6 +557,20 @@ function patchMapPrototype(
     return this._size.clone();
   };
 
+  // Leaflet only animates flyTo with 3D support, which `enable3dTransforms`
+  // turns on; keep the flight instant unless animations are enabled
+  // eslint-disable-next-line @typescript-eslint/unbound-method -- called with the map below
+  const originalFlyTo = L.Map.prototype.flyTo;
+  L.Map.prototype.flyTo = function (
+    this: LeafletModule.Map,
+    latlng: LeafletModule.LatLngExpression,
+    zoom?: number,
+    flyOptions?: LeafletModule.ZoomPanOptions
+  ) {
+    const animate = options.enableAnimations && flyOptions?.animate !== false;
+    return originalFlyTo.call(this, latlng, zoom, animate ? flyOptions : { ...flyOptions, animate: false });
+  };
+
   // Add setSize method
   (L.Map.prototype as any).setSize = function (
     this: any,
@@ -247,47 +596,219 @@ function patchMapPrototype(
     return this as LeafletHeadlessMap;
   };
 
+  // Add whenRendered method to wait for tiles, icons and renderers
+  (L.Map.prototype as any).whenRendered = function (
+    this: any,
+    renderOptions?: WhenRenderedOptions
+  ) {
+    return waitForMapRender(this, renderOptions);
+  };
+
   // Add saveImage method (async version)
   (L.Map.prototype as any).saveImage = async function (
     this: any,
-    filename: string
+    filename: string,
+    exportOptions: ExportOptions | PDFExportOptions = {}
   ): Promise<string> {
+    const format = formatFromFilename(filename);
+    const restoreView = await waitBeforeExport(this, exportOptions);
+
     try {
-      const canvas = await mapToCanvas(this);
-      const buffer = canvas.toBuffer('image/png');
+      const buffer = await renderExport(this, format, exportOptions);
 
       await fs.writeFile(filename, buffer);
+      reportBlockedResources(this, exportOptions);
       return filename;
     } catch (err) {
       throw new Error(`Failed to save map image: ${(err as Error).message}`);
+    } finally {
+      restoreView();
     }
   };
 
   // Add toBuffer method for in-memory image generation
   (L.Map.prototype as any).toBuffer = async function (
     this: any,
-    format: 'png' | 'jpeg' = 'png'
+    format: ExportFormat = 'png',
+    exportOptions: ExportOptions | PDFExportOptions = {}
   ): Promise<Buffer> {
+    const restoreView = await waitBeforeExport(this, exportOptions);
+
     try {
-      const canvas = await mapToCanvas(this);
-      // @napi-rs/canvas has separate overloads for PNG and JPEG
-      if (format === 'jpeg') {
-        return canvas.toBuffer('image/jpeg');
-      } else {
-        return canvas.toBuffer('image/png');
-      }
+      const buffer = await renderExport(this, format, exportOptions);
+      reportBlockedResources(this, exportOptions);
+      return buffer;
     } catch (err) {
       throw new Error(`Failed to export map to buffer: ${(err as Error).message}`);
+    } finally {
+      restoreView();
+    }
+  };
+
+  // Add toSVG method for vector output
+  (L.Map.prototype as any).toSVG = async function (
+    this: any,
+    exportOptions: ExportOptions = {}
+  ): Promise<string> {
+    const restoreView = await waitBeforeExport(this, exportOptions);
+
+    try {
+      const svg = await mapToSVG(this, exportOptions.controls, exportOptions.popupChrome);
+      reportBlockedResources(this, exportOptions);
+      return svg;
+    } catch (err) {
+      throw new Error(`Failed to export map to SVG: ${(err as Error).message}`);
+    } finally {
+      restoreView();
+    }
+  };
+
+  // Add toPDF method for print output
+  (L.Map.prototype as any).toPDF = async function (
+    this: any,
+    exportOptions: PDFExportOptions = {}
+  ): Promise<Buffer> {
+    const restoreView = await waitBeforeExport(this, exportOptions);
+
+    try {
+      const pdf = await mapToPDF(this, exportOptions);
+      reportBlockedResources(this, exportOptions);
+      return pdf;
+    } catch (err) {
+      throw new Error(`Failed to export map to PDF: ${(err as Error).message}`);
+    } finally {
+      restoreView();
     }
   };
+
+  // Add exportBounds method for poster-sized output
+  (L.Map.prototype as any).exportBounds = function (
+    this: any,
+    bounds: LeafletModule.LatLngBoundsExpression,
+    exportOptions: ExportBoundsOptions
+  ) {
+    return exportMapBounds(this, bounds, exportOptions);
+  };
+}
+
+/**
+ * Render the map in the requested output format
+ */
+async function renderExport(
+  map: LeafletHeadlessMap,
+  format: ExportFormat,
+  options: ExportOptions | PDFExportOptions
+): Promise<Buffer> {
+  if (format === 'svg') {
+    return Buffer.from(await mapToSVG(map, options.controls, options.popupChrome), 'utf-8');
+  }
+  if (format === 'pdf') {
+    return await mapToPDF(map, options);
+  }
+
+  const canvas = await mapToCanvas(map, options.scale, options.controls, options.popupChrome);
+  return await encodeCanvas(canvas, format, options.quality);
 }
 
+/**
+ * Pan popups into view, then wait for the map to render when requested
+ * through export options
+ *
+ * @returns Moves the map back to its view once the export is done
+ */
+async function waitBeforeExport(map: LeafletHeadlessMap, options: ExportOptions): Promise<() => void> {
+  const restoreView = await panPopupsIntoView(map);
+  if (!options.waitForRender) {
+    return restoreView;
+  }
+
+  const renderOptions = options.waitForRender === true ? {} : options.waitForRender;
+  try {
+    await map.whenRendered(renderOptions);
+  } catch (err) {
+    restoreView();
+    throw err;
+  }
+  return restoreView;
+}
+
+/**
+ * Pass the resources offline mode kept out of an export to its `onBlocked` callback
+ */
+function reportBlockedResources(map: LeafletHeadlessMap, options: ExportOptions): void {
+  if (!options.onBlocked) {
+    return;
+  }
+
+  const blocked = collectBlockedResources(map);
+  if (blocked.length > 0) {
+    options.onBlocked(blocked);
+  }
+}
+
+// Archive tile layers of every environment load through these handlers, so
+// they are registered once rather than per environment
+registerImageProtocol('mbtiles', loadMBTilesTile);
+registerImageProtocol('pmtiles', loadPMTilesTile);
+
 // Initialize environment on module load
 const L = initializeEnvironment();
 
 // Export typed Leaflet with headless extensions
 export default L;
-export type { LeafletHeadlessMap, HeadlessOptions } from './types.js';
+export type {
+  LeafletHeadlessMap,
+  HeadlessOptions,
+  HeadlessEnvironment,
+  HeadlessLeaflet,
+  TileLayerFactoryExtensions,
+  MapSpec,
+  MapSpecIssue,
+  RenderJob,
+  RenderJobLayer,
+  RenderJobTileLayer,
+  RenderJobGeoJSONLayer,
+  RenderJobMarkerLayer,
+  RenderJobPopupLayer,
+  RenderPoolOptions,
+  ExportOptions,
+  ExportControlsOptions,
+  ImageFormat,
+  ExportFormat,
+  ExportBoundsOptions,
+  PDFExportOptions,
+  PDFPageSize,
+  WhenRenderedOptions,
+  PendingResource,
+  RenderStatus,
+  BlockedResource,
+  TileCacheOptions,
+  ImageCacheOptions,
+  ImageCacheStats,
+  NetworkOptions,
+  OfflineOptions,
+  HostLimits,
+  RetryOptions,
+  UrlPattern,
+  UrlSigner,
+  RequestHeaderRule,
+  ImageRequestOptions,
+  ImageProtocolHandler,
+  ImageProtocolContext,
+  ImageProtocolResult,
+  MBTilesMetadata,
+  PMTilesHeader,
+} from './types.js';
+export { RenderTimeoutError } from './render-wait.js';
+export { RenderPool, RenderPoolError } from './render-pool.js';
+export { MapSpecError, mapSpecSchema, renderMapSpec, validateMapSpec } from './map-spec.js';
+export { TileCache, configureTileCache, getTileCache } from './tile-cache.js';
+export { clearImageCache, configureImageCache, getImageCacheStats } from './image-cache.js';
+export { configureNetwork } from './network.js';
+export { OfflineModeError, configureOffline } from './offline.js';
+export { registerImageProtocol, unregisterImageProtocol } from './protocols.js';
+export { MBTilesReader, openMBTiles, closeAllMBTiles } from './mbtiles.js';
+export { PMTilesReader, openPMTiles, closeAllPMTiles } from './pmtiles.js';
 
 // Also export as named export for convenience
 export { L };
@@ -0,0 +1,16 @@
+/**
+ * Leaflet namespace lookup for exporters
+ *
+ * Every headless environment loads its own copy of Leaflet, so layer classes
+ * differ between maps from different environments. Exporters resolve the
+ * classes to test layers against from the map being exported.
+ */
+
+import type * as LeafletModule from 'leaflet';
+
+/**
+ * The Leaflet namespace a map was created with
+ */
+export function leafletOf(map: any): typeof LeafletModule {
+  return map?._headlessLeaflet ?? (globalThis as any).L;
+}
@@ -0,0 +1,307 @@
+/**
+ * Map specs: JSON descriptions of maps, validated and rendered headlessly
+ *
+ * Specs carry plain data only, so callers in other languages can write them
+ * and they can cross to worker threads. They are validated against the
+ * published JSON Schema and rendered as render jobs.
+ */
+
+import schema from './assets/map-spec.schema.json';
+import { leafletOf } from './leaflet-instance.js';
+import { renderJob } from './render-job.js';
+import type { HeadlessEnvironment, MapSpec, MapSpecIssue } from './types.js';
+
+/**
+ * The JSON Schema map specs are validated against, also published as
+ * `leaflet-node/map-spec.schema.json`
+ */
+export const mapSpecSchema: Readonly<Record<string, unknown>> = schema;
+
+/**
+ * The JSON Schema keywords the published schema uses
+ *
+ * `oneOf` and `anyOf` pick the branch whose `const` properties, or else
+ * required properties and type, match the value, so errors point into that
+ * branch instead of listing every alternative. A node's `title` names its
+ * branches in the error for an unknown discriminator value.
+ */
+interface SchemaNode {
+  $ref?: string;
+  title?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean;
+  oneOf?: SchemaNode[];
+  anyOf?: SchemaNode[];
+  definitions?: Record<string, SchemaNode>;
+}
+
+const root = schema as unknown as SchemaNode;
+
+const TYPE_NAMES: Record<string, string> = {
+  integer: 'an integer',
+  number: 'a number',
+  string: 'a string',
+  boolean: 'a boolean',
+  object: 'an object',
+  array: 'an array',
+  null: 'null',
+};
+
+/**
+ * Error raised for map specs that do not match the schema
+ */
+export class MapSpecError extends Error {
+  readonly issues: MapSpecIssue[];
+
+  constructor(issues: MapSpecIssue[]) {
+    const details = issues.map((issue) => `${issue.path || 'spec'}: ${issue.message}`).join('; ');
+    super(`Invalid map spec: ${details}`);
+    this.name = 'MapSpecError';
+    this.issues = issues;
+  }
+}
+
+function resolveRef(node: SchemaNode): SchemaNode {
+  const definitions = root.definitions ?? {};
+  let resolved = node;
+  while (resolved.$ref) {
+    resolved = definitions[resolved.$ref.replace('#/definitions/', '')];
+  }
+  return resolved;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+  case 'integer':
+    return Number.isInteger(value);
+  case 'number':
+    return typeof value === 'number' && Number.isFinite(value);
+  case 'object':
+    return isPlainObject(value);
+  case 'array':
+    return Array.isArray(value);
+  case 'null':
+    return value === null;
+  default:
+    return typeof value === type;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return String(value);
+  }
+  return TYPE_NAMES[typeof value] ?? String(typeof value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function typesOf(node: SchemaNode): string[] {
+  return node.type === undefined ? [] : ([] as string[]).concat(node.type);
+}
+
+/**
+ * The `const` properties that tell a `oneOf` branch apart, such as a layer's `type`
+ */
+function discriminators(node: SchemaNode): [string, unknown][] {
+  return Object.entries(node.properties ?? {})
+    .filter(([, property]) => property.const !== undefined)
+    .map(([key, property]) => [key, property.const]);
+}
+
+function selectBranch(branches: SchemaNode[], value: unknown): SchemaNode | undefined {
+  return branches.find((branch) => {
+    const types = typesOf(branch);
+    if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+      return false;
+    }
+    if (!isPlainObject(value)) {
+      return true;
+    }
+
+    const constants = discriminators(branch);
+    if (constants.length > 0) {
+      return constants.every(([key, constant]) => value[key] === constant);
+    }
+    return (branch.required ?? []).every((key) => value[key] !== undefined);
+  });
+}
+
+function unmatchedBranches(node: SchemaNode, branches: SchemaNode[], value: unknown, path: string, issues: MapSpecIssue[]): void {
+  if (isPlainObject(value)) {
+    const [discriminator] = discriminators(branches[0]);
+    if (discriminator) {
+      const key = discriminator[0];
+      const allowed = branches.map((branch) => JSON.stringify(branch.properties?.[key]?.const)).join(', ');
+      const message = node.title && value[key] !== undefined
+        ? `Unknown ${node.title} ${key} ${JSON.stringify(value[key])}; expected one of ${allowed}`
+        : `expected one of ${allowed}`;
+      issues.push({ path: childPath(path, key), message });
+      return;
+    }
+
+    const alternatives = branches.map((branch) => (branch.required ?? []).join(' and ')).join(', or ');
+    issues.push({ path, message: `expected ${alternatives}` });
+    return;
+  }
+
+  const types = [...new Set(branches.flatMap(typesOf))].map((type) => TYPE_NAMES[type] ?? type);
+  issues.push({ path, message: `expected ${types.join(' or ')}, got ${describeValue(value)}` });
+}
+
+function checkNumber(node: SchemaNode, value: number, path: string, issues: MapSpecIssue[]): void {
+  if (node.minimum !== undefined && value < node.minimum) {
+    issues.push({ path, message: `must be at least ${node.minimum}, got ${value}` });
+  }
+  if (node.exclusiveMinimum !== undefined && value <= node.exclusiveMinimum) {
+    issues.push({ path, message: `must be greater than ${node.exclusiveMinimum}, got ${value}` });
+  }
+  if (node.maximum !== undefined && value > node.maximum) {
+    issues.push({ path, message: `must be at most ${node.maximum}, got ${value}` });
+  }
+}
+
+function checkArray(node: SchemaNode, value: unknown[], path: string, issues: MapSpecIssue[]): void {
+  const { minItems, maxItems } = node;
+  if (minItems !== undefined && minItems === maxItems && value.length !== minItems) {
+    issues.push({ path, message: `expected ${minItems} items, got ${value.length}` });
+    return;
+  }
+  if (minItems !== undefined && value.length < minItems) {
+    issues.push({ path, message: `expected at least ${minItems} items, got ${value.length}` });
+    return;
+  }
+  if (maxItems !== undefined && value.length > maxItems) {
+    issues.push({ path, message: `expected at most ${maxItems} items, got ${value.length}` });
+    return;
+  }
+
+  if (node.items) {
+    value.forEach((item, index) => checkValue(node.items as SchemaNode, item, childPath(path, index), issues));
+  }
+}
+
+function checkObject(node: SchemaNode, value: Record<string, unknown>, path: string, issues: MapSpecIssue[]): void {
+  for (const key of node.required ?? []) {
+    if (value[key] === undefined) {
+      issues.push({ path: childPath(path, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, property] of Object.entries(value)) {
+    if (property === undefined) {
+      continue;
+    }
+    const propertySchema = node.properties?.[key];
+    if (propertySchema) {
+      checkValue(propertySchema, property, childPath(path, key), issues);
+    } else if (node.additionalProperties === false) {
+      issues.push({ path: childPath(path, key), message: 'is not allowed' });
+    }
+  }
+}
+
+function checkValue(schemaNode: SchemaNode, value: unknown, path: string, issues: MapSpecIssue[]): void {
+  const node = resolveRef(schemaNode);
+
+  if (node.const !== undefined && value !== node.const) {
+    issues.push({ path, message: `expected ${JSON.stringify(node.const)}` });
+    return;
+  }
+
+  const types = typesOf(node);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    const expected = types.map((type) => TYPE_NAMES[type] ?? type).join(' or ');
+    issues.push({ path, message: `expected ${expected}, got ${describeValue(value)}` });
+    return;
+  }
+
+  if (node.enum && !node.enum.includes(value)) {
+    issues.push({ path, message: `expected one of ${node.enum.map((entry) => JSON.stringify(entry)).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    checkNumber(node, value, path, issues);
+  } else if (typeof value === 'string' && node.minLength !== undefined && value.length < node.minLength) {
+    issues.push({ path, message: node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters` });
+  } else if (Array.isArray(value)) {
+    checkArray(node, value, path, issues);
+  } else if (isPlainObject(value)) {
+    checkObject(node, value, path, issues);
+  }
+
+  const alternatives = node.oneOf ?? node.anyOf;
+  if (alternatives) {
+    const branches = alternatives.map(resolveRef);
+    const branch = selectBranch(branches, value);
+    if (branch) {
+      checkValue(branch, value, path, issues);
+    } else {
+      unmatchedBranches(node, branches, value, path, issues);
+    }
+  }
+}
+
+/**
+ * Check a map spec against the schema
+ *
+ * @returns The spec, typed
+ * @throws MapSpecError listing every problem with its path
+ */
+export function validateMapSpec(spec: unknown): MapSpec {
+  const issues: MapSpecIssue[] = [];
+  checkValue(root, spec, '', issues);
+  if (issues.length > 0) {
+    throw new MapSpecError(issues);
+  }
+  return spec as MapSpec;
+}
+
+/**
+ * Validate a map spec, given as an object or JSON text, and render it
+ *
+ * @param environment - Environment to render in; the default environment
+ * when omitted
+ * @returns The encoded image, SVG or PDF
+ * @throws MapSpecError when the spec is not valid JSON or does not match the schema
+ */
+export async function renderMapSpec(spec: MapSpec | string, environment?: HeadlessEnvironment): Promise<Buffer> {
+  let parsed: unknown = spec;
+  if (typeof spec === 'string') {
+    try {
+      parsed = JSON.parse(spec);
+    } catch (error) {
+      throw new MapSpecError([{ path: '', message: `is not valid JSON (${(error as Error).message})` }]);
+    }
+  }
+
+  const valid = validateMapSpec(parsed);
+  return renderJob(environment ?? { L: leafletOf(null), document: globalThis.document }, valid);
+}
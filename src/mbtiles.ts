@@ -0,0 +1,208 @@
+/**
+ * MBTiles archive support
+ *
+ * Reads raster tiles and metadata straight from `.mbtiles` SQLite files so
+ * offline basemaps work without a tile server. Tiles are addressed with
+ * `mbtiles:///path/to/file.mbtiles/{z}/{x}/{y}` URLs, which are served
+ * through the image protocol registry, and `L.tileLayer.mbtiles()` builds a
+ * layer configured from the archive's metadata table.
+ *
+ * Requires the optional `better-sqlite3` peer dependency.
+ */
+
+import { createRequire } from 'module';
+import * as path from 'path';
+import type * as LeafletModule from 'leaflet';
+import type { MBTilesMetadata } from './types.js';
+
+interface SqliteStatement {
+  get(...params: unknown[]): any;
+  all(...params: unknown[]): any[];
+}
+
+interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+type SqliteConstructor = new (file: string, options?: { readonly?: boolean; fileMustExist?: boolean }) => SqliteDatabase;
+
+const MBTILES_URL_PATTERN = /^mbtiles:\/\/(.+?\.mbtiles)\/(\d+)\/(\d+)\/(\d+)(?:\.[a-z0-9]+)?(?:\?.*)?$/i;
+
+let sqliteConstructor: SqliteConstructor | null = null;
+
+function loadSqlite(): SqliteConstructor {
+  if (sqliteConstructor) {
+    return sqliteConstructor;
+  }
+
+  try {
+    const require = createRequire(import.meta.url);
+    sqliteConstructor = require('better-sqlite3') as SqliteConstructor;
+    return sqliteConstructor;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND') {
+      throw new Error('leaflet-node: reading MBTiles requires the optional "better-sqlite3" package; install it alongside leaflet-node');
+    }
+    throw error;
+  }
+}
+
+function parseNumberList(value: string | undefined): number[] | null {
+  if (!value) {
+    return null;
+  }
+
+  const numbers = value.split(',').map((part) => parseFloat(part.trim()));
+  return numbers.every((number) => Number.isFinite(number)) ? numbers : null;
+}
+
+/**
+ * Read-only view of an MBTiles archive
+ */
+export class MBTilesReader {
+  readonly file: string;
+  private db: SqliteDatabase;
+  private tileStatement: SqliteStatement;
+  private metadata: MBTilesMetadata | null = null;
+
+  constructor(file: string) {
+    const Database = loadSqlite();
+    this.file = path.resolve(file);
+    this.db = new Database(this.file, { readonly: true, fileMustExist: true });
+    this.tileStatement = this.db.prepare(
+      'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+    );
+  }
+
+  /**
+   * Read a tile by XYZ coordinates (the TMS row flip is handled here)
+   *
+   * @returns The tile bytes, or null when the archive has no such tile
+   */
+  getTile(z: number, x: number, y: number): Buffer | null {
+    const tmsRow = (1 << z) - 1 - y;
+    const row = this.tileStatement.get(z, x, tmsRow) as { tile_data: Buffer } | undefined;
+    return row ? Buffer.from(row.tile_data) : null;
+  }
+
+  /**
+   * Read and parse the archive's metadata table
+   */
+  getMetadata(): MBTilesMetadata {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const rows = this.db.prepare('SELECT name, value FROM metadata').all() as Array<{ name: string; value: string }>;
+    const raw: Record<string, string> = {};
+    for (const row of rows) {
+      raw[row.name] = row.value;
+    }
+
+    const bounds = parseNumberList(raw.bounds);
+    const center = parseNumberList(raw.center);
+    const minZoom = parseInt(raw.minzoom ?? '', 10);
+    const maxZoom = parseInt(raw.maxzoom ?? '', 10);
+
+    this.metadata = {
+      name: raw.name,
+      format: raw.format,
+      attribution: raw.attribution,
+      description: raw.description,
+      bounds: bounds && bounds.length === 4
+        ? [[bounds[1], bounds[0]], [bounds[3], bounds[2]]]
+        : undefined,
+      center: center && center.length >= 2
+        ? { lat: center[1], lng: center[0], zoom: center[2] }
+        : undefined,
+      minZoom: Number.isFinite(minZoom) ? minZoom : undefined,
+      maxZoom: Number.isFinite(maxZoom) ? maxZoom : undefined,
+      raw,
+    };
+    return this.metadata;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+const openReaders = new Map<string, MBTilesReader>();
+
+/**
+ * Open (or reuse) a reader for an MBTiles file
+ */
+export function openMBTiles(file: string): MBTilesReader {
+  const resolved = path.resolve(file);
+  let reader = openReaders.get(resolved);
+  if (!reader) {
+    reader = new MBTilesReader(resolved);
+    openReaders.set(resolved, reader);
+  }
+  return reader;
+}
+
+/**
+ * Close every MBTiles file opened through `openMBTiles`
+ */
+export function closeAllMBTiles(): void {
+  for (const reader of openReaders.values()) {
+    reader.close();
+  }
+  openReaders.clear();
+}
+
+/**
+ * Image protocol handler for `mbtiles://` URLs
+ */
+export function loadMBTilesTile(url: string): Buffer {
+  const match = MBTILES_URL_PATTERN.exec(url);
+  if (!match) {
+    throw new Error(`Invalid MBTiles URL: ${url} (expected mbtiles:///path/file.mbtiles/{z}/{x}/{y})`);
+  }
+
+  const [, file, z, x, y] = match;
+  const reader = openMBTiles(decodeURIComponent(file));
+  const format = reader.getMetadata().format;
+  if (format === 'pbf') {
+    throw new Error(`MBTiles archive ${reader.file} contains vector tiles, which cannot be rendered`);
+  }
+
+  const tile = reader.getTile(Number(z), Number(x), Number(y));
+  if (!tile) {
+    throw new Error(`Tile ${z}/${x}/${y} not found in ${reader.file}`);
+  }
+  return tile;
+}
+
+/**
+ * Create a tile layer reading from an MBTiles file, configured from its
+ * metadata (bounds, zoom range and attribution) unless overridden
+ */
+export function createMBTilesLayer(
+  L: typeof LeafletModule,
+  file: string,
+  options: LeafletModule.TileLayerOptions = {}
+): LeafletModule.TileLayer {
+  const reader = openMBTiles(file);
+  const metadata = reader.getMetadata();
+  const defaults: LeafletModule.TileLayerOptions = {};
+
+  if (metadata.minZoom !== undefined) {
+    defaults.minNativeZoom = metadata.minZoom;
+  }
+  if (metadata.maxZoom !== undefined) {
+    defaults.maxNativeZoom = metadata.maxZoom;
+  }
+  if (metadata.bounds) {
+    defaults.bounds = L.latLngBounds(metadata.bounds);
+  }
+  if (metadata.attribution) {
+    defaults.attribution = metadata.attribution;
+  }
+
+  const urlPath = reader.file.split(path.sep).map(encodeURIComponent).join('/');
+  const prefix = urlPath.startsWith('/') ? '' : '/';
+  return L.tileLayer(`mbtiles://${prefix}${urlPath}/{z}/{x}/{y}`, { ...defaults, ...options });
+}
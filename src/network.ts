@@ -0,0 +1,334 @@
+/**
+ * Request scheduling for image and tile fetches
+ *
+ * Limits how many requests run at once (globally and per host), spaces
+ * requests to each host to honour a requests-per-second cap, and retries
+ * transient failures (network errors, 5xx and 429 responses) with
+ * exponential backoff that respects `Retry-After`.
+ */
+
+import type { CacheableResponse } from './tile-cache.js';
+import type { HostLimits, ImageRequestOptions, NetworkOptions, UrlPattern } from './types.js';
+
+const DEFAULT_MAX_CONCURRENCY = 16;
+const DEFAULT_MAX_CONCURRENCY_PER_HOST = 6;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_MIN_RETRY_DELAY = 250;
+const DEFAULT_MAX_RETRY_DELAY = 10000;
+
+/**
+ * Fully read response, so the scheduling slot covers the body download
+ */
+export interface BufferedResponse extends CacheableResponse {
+  body: Buffer;
+}
+
+interface QueuedRequest {
+  host: string;
+  start: () => void;
+}
+
+interface HostState {
+  active: number;
+  nextSlot: number;
+}
+
+function resolveHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+function parseRetryAfter(header: string | null, now: number): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - now) : null;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('The request was aborted');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+class RequestScheduler {
+  private options: NetworkOptions = {};
+  private queue: QueuedRequest[] = [];
+  private hosts = new Map<string, HostState>();
+  private active = 0;
+  private wakeTimer: NodeJS.Timeout | null = null;
+
+  configure(options: NetworkOptions): void {
+    this.options = { ...options };
+    this.pump();
+  }
+
+  getOptions(): NetworkOptions {
+    return this.options;
+  }
+
+  /**
+   * Run a task once a global, per-host and rate-limit slot is available
+   *
+   * @param signal - Takes the task out of the queue if aborted while it waits
+   */
+  async schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = resolveHost(url);
+
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(request), 1);
+        reject(abortReason(signal as AbortSignal));
+      };
+      const request: QueuedRequest = {
+        host,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(request);
+      this.pump();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.hostState(host).active--;
+      this.pump();
+    }
+  }
+
+  /**
+   * Hold back every request to a host, e.g. after a 429 with Retry-After
+   */
+  pauseHost(url: string, ms: number): void {
+    const state = this.hostState(resolveHost(url));
+    state.nextSlot = Math.max(state.nextSlot, Date.now() + ms);
+  }
+
+  private limitsFor(host: string): Required<HostLimits> {
+    const override = this.options.hosts?.[host] ?? {};
+    return {
+      maxConcurrency: override.maxConcurrency
+        ?? this.options.maxConcurrencyPerHost
+        ?? DEFAULT_MAX_CONCURRENCY_PER_HOST,
+      requestsPerSecond: override.requestsPerSecond
+        ?? this.options.requestsPerSecondPerHost
+        ?? 0,
+    };
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextSlot: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private pump(): void {
+    const maxConcurrency = this.options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    for (let index = 0; index < this.queue.length && this.active < maxConcurrency; index++) {
+      const request = this.queue[index];
+      const state = this.hostState(request.host);
+      const limits = this.limitsFor(request.host);
+
+      if (state.active >= limits.maxConcurrency) {
+        continue;
+      }
+
+      if (state.nextSlot > now) {
+        nextWake = Math.min(nextWake, state.nextSlot);
+        continue;
+      }
+
+      if (limits.requestsPerSecond > 0) {
+        state.nextSlot = now + 1000 / limits.requestsPerSecond;
+      }
+
+      this.queue.splice(index, 1);
+      index--;
+      this.active++;
+      state.active++;
+      request.start();
+    }
+
+    if (Number.isFinite(nextWake) && !this.wakeTimer) {
+      this.wakeTimer = setTimeout(() => {
+        this.wakeTimer = null;
+        this.pump();
+      }, Math.max(0, nextWake - now));
+    }
+  }
+}
+
+const scheduler = new RequestScheduler();
+
+/**
+ * Configure concurrency, rate limits and retries for image and tile fetches
+ */
+export function configureNetwork(options: NetworkOptions): void {
+  scheduler.configure(options);
+}
+
+function matchesPattern(url: string, pattern: UrlPattern): boolean {
+  if (typeof pattern === 'function') {
+    return pattern(url);
+  }
+
+  if (pattern instanceof RegExp) {
+    return pattern.test(url);
+  }
+
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(url);
+}
+
+function mergeHeaders(target: Map<string, [string, string]>, headers?: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    target.set(name.toLowerCase(), [name, value]);
+  }
+}
+
+/**
+ * Resolve the final URL and headers for a request
+ *
+ * Headers are layered from the global User-Agent/Referer and headers, then
+ * matching header rules, then per-request overrides. The URL is passed
+ * through the per-request or global signer, if any.
+ */
+export async function resolveRequest(
+  url: string,
+  overrides: ImageRequestOptions = {}
+): Promise<{ url: string; headers: Record<string, string> }> {
+  const options = scheduler.getOptions();
+  const headers = new Map<string, [string, string]>();
+
+  if (options.userAgent) {
+    headers.set('user-agent', ['User-Agent', options.userAgent]);
+  }
+  if (options.referer) {
+    headers.set('referer', ['Referer', options.referer]);
+  }
+  mergeHeaders(headers, options.headers);
+
+  for (const rule of options.headerRules ?? []) {
+    if (matchesPattern(url, rule.match)) {
+      mergeHeaders(headers, rule.headers);
+    }
+  }
+  mergeHeaders(headers, overrides.headers);
+
+  const signUrl = overrides.signUrl ?? options.signUrl;
+  const finalUrl = signUrl ? await signUrl(url) : url;
+
+  return {
+    url: finalUrl,
+    headers: Object.fromEntries(headers.values()),
+  };
+}
+
+/**
+ * Fetch a URL through the request scheduler, retrying transient failures
+ *
+ * @param url - URL being requested (used for per-host limits)
+ * @param request - Function performing a single attempt
+ * @param signal - Aborts the request: a queued attempt leaves the queue and
+ * no further attempts are made
+ * @returns The buffered response of the final attempt
+ */
+export async function scheduleFetch(
+  url: string,
+  request: () => Promise<CacheableResponse>,
+  signal?: AbortSignal
+): Promise<BufferedResponse> {
+  const retry = scheduler.getOptions().retry ?? {};
+  const retries = retry.retries ?? DEFAULT_RETRIES;
+  const minDelay = retry.minDelay ?? DEFAULT_MIN_RETRY_DELAY;
+  const maxDelay = retry.maxDelay ?? DEFAULT_MAX_RETRY_DELAY;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: BufferedResponse | null = null;
+    let failure: unknown = null;
+
+    try {
+      response = await scheduler.schedule(url, async () => {
+        const raw = await request();
+        const body = Buffer.from(await raw.arrayBuffer());
+        return {
+          ok: raw.ok,
+          status: raw.status,
+          statusText: raw.statusText,
+          headers: raw.headers,
+          body,
+          arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer,
+        };
+      }, signal);
+    } catch (error) {
+      failure = error;
+    }
+
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+
+    if (response && !isRetryableStatus(response.status)) {
+      return response;
+    }
+
+    const backoff = Math.min(maxDelay, minDelay * 2 ** attempt);
+    const retryAfter = response ? parseRetryAfter(response.headers.get('retry-after'), Date.now()) : null;
+    const wait = retryAfter ?? backoff * (0.5 + Math.random() / 2);
+
+    if (attempt >= retries || wait > maxDelay) {
+      if (response) {
+        return response;
+      }
+      throw failure;
+    }
+
+    if (retryAfter !== null) {
+      scheduler.pauseHost(url, retryAfter);
+    }
+
+    await delay(wait, signal);
+  }
+}
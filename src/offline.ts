@@ -0,0 +1,129 @@
+/**
+ * Strict offline mode
+ *
+ * When enabled, image and tile loads and jsdom's own resource loading are
+ * checked against a host allowlist and fail fast with an `OfflineModeError`
+ * naming the blocked URL. Responses already in the tile cache can still be
+ * served, so renders stay reproducible without touching the network.
+ * XMLHttpRequest in the jsdom window and the global `fetch` are not covered.
+ */
+
+import { ResourceLoader } from 'jsdom';
+import type { FetchOptions } from 'jsdom';
+import type { OfflineOptions } from './types.js';
+
+interface OfflinePolicy {
+  allowHosts: string[];
+  allowCache: boolean;
+}
+
+let policy: OfflinePolicy | null = null;
+
+/**
+ * Error raised when offline mode blocks a network request
+ */
+export class OfflineModeError extends Error {
+  readonly url: string;
+
+  constructor(url: string) {
+    super(`Network request to ${url} blocked by offline mode`);
+    this.name = 'OfflineModeError';
+    this.url = url;
+  }
+}
+
+/**
+ * Enable or disable strict offline mode
+ *
+ * @param options - `true` or an options object to enable, `false`/null to disable
+ */
+export function configureOffline(options: boolean | OfflineOptions | null | undefined): void {
+  if (!options) {
+    policy = null;
+    return;
+  }
+
+  const settings = options === true ? {} : options;
+  policy = {
+    allowHosts: (settings.allowHosts ?? []).map((host) => host.trim().toLowerCase()),
+    allowCache: settings.allowCache ?? true,
+  };
+}
+
+/**
+ * Check whether offline mode is enabled
+ */
+export function isOfflineMode(): boolean {
+  return policy !== null;
+}
+
+function matchesHost(pattern: string, url: URL): boolean {
+  // Patterns with a port compare against host:port, others against the hostname
+  const candidate = pattern.includes(':') ? url.host : url.hostname;
+  if (pattern.startsWith('*.')) {
+    return candidate.endsWith(pattern.substring(1));
+  }
+  return candidate === pattern;
+}
+
+/**
+ * Check whether a URL may be requested under the current offline policy
+ *
+ * Only http(s) URLs count as network access; data URIs and local files are
+ * always allowed.
+ */
+export function isRequestAllowed(url: string): boolean {
+  if (!policy) {
+    return true;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return true;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return true;
+  }
+
+  return policy.allowHosts.some((pattern) => matchesHost(pattern, parsed));
+}
+
+/**
+ * Throw an OfflineModeError if the URL may not be requested
+ */
+export function assertRequestAllowed(url: string): void {
+  if (!isRequestAllowed(url)) {
+    throw new OfflineModeError(url);
+  }
+}
+
+/**
+ * Whether blocked URLs may still be served from the tile cache
+ */
+export function allowsCachedResponses(): boolean {
+  return policy?.allowCache ?? true;
+}
+
+/**
+ * jsdom resource loader that applies the offline policy to scripts,
+ * stylesheets and frames loaded by the document
+ */
+class OfflineAwareResourceLoader extends ResourceLoader {
+  fetch(url: string, options: FetchOptions) {
+    if (!isRequestAllowed(url)) {
+      // jsdom reports rejected fetches as load errors on the requesting element
+      return Object.assign(Promise.reject(new OfflineModeError(url)), { abort() {} });
+    }
+    return super.fetch(url, options);
+  }
+}
+
+/**
+ * Create the resource loader used for the headless jsdom window
+ */
+export function createResourceLoader(): ResourceLoader {
+  return new OfflineAwareResourceLoader();
+}
@@ -0,0 +1,407 @@
+/**
+ * PMTiles (v3) archive support
+ *
+ * Reads raster tiles from single-file PMTiles archives without a tile
+ * server: the fixed header, Hilbert-ordered root and leaf directories and
+ * internally compressed sections are decoded here, with parsed directories
+ * cached between tile reads. Tiles are addressed with
+ * `pmtiles:///path/to/file.pmtiles/{z}/{x}/{y}` URLs served through the
+ * image protocol registry, and `L.tileLayer.pmtiles()` builds a layer
+ * configured from the archive header.
+ */
+
+import { promises as fs } from 'fs';
+import * as fsSync from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type * as LeafletModule from 'leaflet';
+import type { PMTilesHeader } from './types.js';
+
+const HEADER_SIZE = 127;
+const MAX_DIRECTORY_DEPTH = 4;
+const DIRECTORY_CACHE_SIZE = 64;
+const PMTILES_URL_PATTERN = /^pmtiles:\/\/(.+?\.pmtiles)\/(\d+)\/(\d+)\/(\d+)(?:\.[a-z0-9]+)?(?:\?.*)?$/i;
+
+const COMPRESSION_NAMES = ['unknown', 'none', 'gzip', 'brotli', 'zstd'] as const;
+const TILE_TYPE_NAMES = ['unknown', 'mvt', 'png', 'jpeg', 'webp', 'avif'] as const;
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+function readUint64(buffer: Buffer, offset: number): number {
+  return Number(buffer.readBigUInt64LE(offset));
+}
+
+function decompress(data: Buffer, compression: PMTilesHeader['internalCompression']): Buffer {
+  switch (compression) {
+  case 'none':
+  case 'unknown':
+    return data;
+  case 'gzip':
+    return zlib.gunzipSync(data);
+  case 'brotli':
+    return zlib.brotliDecompressSync(data);
+  case 'zstd': {
+    const zstd = (zlib as unknown as { zstdDecompressSync?: (input: Buffer) => Buffer }).zstdDecompressSync;
+    if (!zstd) {
+      throw new Error('PMTiles zstd compression requires a Node.js version with zlib zstd support');
+    }
+    return zstd(data);
+  }
+  }
+}
+
+/**
+ * Decode a serialized PMTiles directory
+ */
+function parseDirectory(data: Buffer): DirectoryEntry[] {
+  let position = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    while (true) {
+      if (position >= data.length) {
+        throw new Error('Unexpected end of PMTiles directory');
+      }
+      const byte = data[position++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+  };
+
+  const count = readVarint();
+  const entries: DirectoryEntry[] = [];
+
+  let lastId = 0;
+  for (let i = 0; i < count; i++) {
+    lastId += readVarint();
+    entries.push({ tileId: lastId, offset: 0, length: 0, runLength: 1 });
+  }
+  for (const entry of entries) {
+    entry.runLength = readVarint();
+  }
+  for (const entry of entries) {
+    entry.length = readVarint();
+  }
+  for (let i = 0; i < count; i++) {
+    const value = readVarint();
+    entries[i].offset = value === 0 && i > 0
+      ? entries[i - 1].offset + entries[i - 1].length
+      : value - 1;
+  }
+
+  return entries;
+}
+
+function rotate(size: number, xy: [number, number], rx: number, ry: number): void {
+  if (ry === 0) {
+    if (rx === 1) {
+      xy[0] = size - 1 - xy[0];
+      xy[1] = size - 1 - xy[1];
+    }
+    const swap = xy[0];
+    xy[0] = xy[1];
+    xy[1] = swap;
+  }
+}
+
+/**
+ * Convert XYZ tile coordinates to a PMTiles Hilbert tile id
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) {
+    throw new Error(`PMTiles zoom level ${z} exceeds the supported maximum of 26`);
+  }
+
+  const size = 2 ** z;
+  if (x < 0 || y < 0 || x >= size || y >= size) {
+    throw new Error(`Tile ${z}/${x}/${y} is outside the zoom level bounds`);
+  }
+
+  // Number of tiles on all lower zoom levels: (4^z - 1) / 3
+  const base = (4 ** z - 1) / 3;
+  const xy: [number, number] = [x, y];
+  let distance = 0;
+
+  for (let s = size / 2; s >= 1; s /= 2) {
+    const rx = (xy[0] & s) > 0 ? 1 : 0;
+    const ry = (xy[1] & s) > 0 ? 1 : 0;
+    distance += s * s * ((3 * rx) ^ ry);
+    rotate(s, xy, rx, ry);
+  }
+
+  return base + distance;
+}
+
+function findTile(entries: DirectoryEntry[], tileId: number): DirectoryEntry | null {
+  let low = 0;
+  let high = entries.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const difference = tileId - entries[middle].tileId;
+    if (difference > 0) {
+      low = middle + 1;
+    } else if (difference < 0) {
+      high = middle - 1;
+    } else {
+      return entries[middle];
+    }
+  }
+
+  // The preceding entry covers the id through its run length, or is a leaf pointer
+  if (high >= 0) {
+    const candidate = entries[high];
+    if (candidate.runLength === 0 || tileId - candidate.tileId < candidate.runLength) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+function parseHeader(buffer: Buffer): PMTilesHeader {
+  if (buffer.length < HEADER_SIZE || buffer.toString('ascii', 0, 7) !== 'PMTiles') {
+    throw new Error('Not a PMTiles archive');
+  }
+
+  const version = buffer[7];
+  if (version !== 3) {
+    throw new Error(`Unsupported PMTiles version ${version}; only version 3 is supported`);
+  }
+
+  const readE7 = (offset: number) => buffer.readInt32LE(offset) / 1e7;
+
+  return {
+    version,
+    rootDirectoryOffset: readUint64(buffer, 8),
+    rootDirectoryLength: readUint64(buffer, 16),
+    metadataOffset: readUint64(buffer, 24),
+    metadataLength: readUint64(buffer, 32),
+    leafDirectoryOffset: readUint64(buffer, 40),
+    leafDirectoryLength: readUint64(buffer, 48),
+    tileDataOffset: readUint64(buffer, 56),
+    tileDataLength: readUint64(buffer, 64),
+    clustered: buffer[96] === 1,
+    internalCompression: COMPRESSION_NAMES[buffer[97]] ?? 'unknown',
+    tileCompression: COMPRESSION_NAMES[buffer[98]] ?? 'unknown',
+    tileType: TILE_TYPE_NAMES[buffer[99]] ?? 'unknown',
+    minZoom: buffer[100],
+    maxZoom: buffer[101],
+    bounds: [[readE7(106), readE7(102)], [readE7(114), readE7(110)]],
+    center: { lat: readE7(123), lng: readE7(119), zoom: buffer[118] },
+  };
+}
+
+/**
+ * Read-only view of a local PMTiles archive
+ */
+export class PMTilesReader {
+  readonly file: string;
+  private handle: Promise<fs.FileHandle>;
+  private header: Promise<PMTilesHeader> | null = null;
+  private directories = new Map<string, Promise<DirectoryEntry[]>>();
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+    this.handle = fs.open(this.file, 'r');
+    // Surface open failures on first use rather than as unhandled rejections
+    this.handle.catch(() => {});
+  }
+
+  /**
+   * Read and parse the fixed-size archive header
+   */
+  getHeader(): Promise<PMTilesHeader> {
+    if (!this.header) {
+      this.header = this.read(0, HEADER_SIZE).then(parseHeader);
+    }
+    return this.header;
+  }
+
+  /**
+   * Read the archive's JSON metadata
+   */
+  async getMetadata(): Promise<Record<string, unknown>> {
+    const header = await this.getHeader();
+    if (header.metadataLength === 0) {
+      return {};
+    }
+
+    const raw = await this.read(header.metadataOffset, header.metadataLength);
+    return JSON.parse(decompress(raw, header.internalCompression).toString('utf-8')) as Record<string, unknown>;
+  }
+
+  /**
+   * Read a tile by XYZ coordinates
+   *
+   * @returns The (decompressed) tile bytes, or null when the archive has no such tile
+   */
+  async getTile(z: number, x: number, y: number): Promise<Buffer | null> {
+    const header = await this.getHeader();
+    const tileId = zxyToTileId(z, x, y);
+
+    let directoryOffset = header.rootDirectoryOffset;
+    let directoryLength = header.rootDirectoryLength;
+
+    for (let depth = 0; depth < MAX_DIRECTORY_DEPTH; depth++) {
+      const entries = await this.getDirectory(directoryOffset, directoryLength, header);
+      const entry = findTile(entries, tileId);
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.runLength > 0) {
+        const data = await this.read(header.tileDataOffset + entry.offset, entry.length);
+        return decompress(data, header.tileCompression);
+      }
+
+      directoryOffset = header.leafDirectoryOffset + entry.offset;
+      directoryLength = entry.length;
+    }
+
+    throw new Error(`PMTiles directory nesting exceeds ${MAX_DIRECTORY_DEPTH} levels in ${this.file}`);
+  }
+
+  async close(): Promise<void> {
+    const handle = await this.handle.catch(() => null);
+    await handle?.close();
+  }
+
+  private getDirectory(offset: number, length: number, header: PMTilesHeader): Promise<DirectoryEntry[]> {
+    const key = `${offset}:${length}`;
+    const cached = this.directories.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.directories.delete(key);
+      this.directories.set(key, cached);
+      return cached;
+    }
+
+    const directory = this.read(offset, length)
+      .then((data) => parseDirectory(decompress(data, header.internalCompression)));
+    this.directories.set(key, directory);
+    directory.catch(() => this.directories.delete(key));
+
+    if (this.directories.size > DIRECTORY_CACHE_SIZE) {
+      const oldest = this.directories.keys().next().value as string;
+      this.directories.delete(oldest);
+    }
+
+    return directory;
+  }
+
+  private async read(offset: number, length: number): Promise<Buffer> {
+    const handle = await this.handle;
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    if (bytesRead < length) {
+      throw new Error(`Unexpected end of PMTiles archive ${this.file}`);
+    }
+    return buffer;
+  }
+}
+
+const openReaders = new Map<string, PMTilesReader>();
+
+/**
+ * Open (or reuse) a reader for a PMTiles file
+ */
+export function openPMTiles(file: string): PMTilesReader {
+  const resolved = path.resolve(file);
+  let reader = openReaders.get(resolved);
+  if (!reader) {
+    reader = new PMTilesReader(resolved);
+    openReaders.set(resolved, reader);
+  }
+  return reader;
+}
+
+/**
+ * Close every PMTiles file opened through `openPMTiles`
+ */
+export async function closeAllPMTiles(): Promise<void> {
+  const readers = Array.from(openReaders.values());
+  openReaders.clear();
+  await Promise.all(readers.map((reader) => reader.close()));
+}
+
+/**
+ * Image protocol handler for `pmtiles://` URLs
+ */
+export async function loadPMTilesTile(url: string): Promise<Buffer> {
+  const match = PMTILES_URL_PATTERN.exec(url);
+  if (!match) {
+    throw new Error(`Invalid PMTiles URL: ${url} (expected pmtiles:///path/file.pmtiles/{z}/{x}/{y})`);
+  }
+
+  const [, file, z, x, y] = match;
+  const reader = openPMTiles(decodeURIComponent(file));
+  const header = await reader.getHeader();
+  if (header.tileType === 'mvt') {
+    throw new Error(`PMTiles archive ${reader.file} contains vector tiles, which cannot be rendered`);
+  }
+
+  const tile = await reader.getTile(Number(z), Number(x), Number(y));
+  if (!tile) {
+    throw new Error(`Tile ${z}/${x}/${y} not found in ${reader.file}`);
+  }
+  return tile;
+}
+
+/**
+ * Synchronously read an archive's header and JSON metadata
+ */
+function readSummarySync(file: string): { header: PMTilesHeader; metadata: Record<string, unknown> } {
+  const descriptor = fsSync.openSync(file, 'r');
+  try {
+    const readSection = (offset: number, length: number): Buffer => {
+      const buffer = Buffer.alloc(length);
+      fsSync.readSync(descriptor, buffer, 0, length, offset);
+      return buffer;
+    };
+
+    const header = parseHeader(readSection(0, HEADER_SIZE));
+    const metadata = header.metadataLength > 0
+      ? JSON.parse(decompress(readSection(header.metadataOffset, header.metadataLength), header.internalCompression)
+        .toString('utf-8')) as Record<string, unknown>
+      : {};
+    return { header, metadata };
+  } finally {
+    fsSync.closeSync(descriptor);
+  }
+}
+
+/**
+ * Create a tile layer reading from a PMTiles file, configured from its
+ * header (bounds and zoom range) and metadata (attribution) unless
+ * overridden
+ */
+export function createPMTilesLayer(
+  L: typeof LeafletModule,
+  file: string,
+  options: LeafletModule.TileLayerOptions = {}
+): LeafletModule.TileLayer {
+  const reader = openPMTiles(file);
+  const { header, metadata } = readSummarySync(reader.file);
+  const defaults: LeafletModule.TileLayerOptions = {
+    minNativeZoom: header.minZoom,
+    maxNativeZoom: header.maxZoom,
+    bounds: L.latLngBounds(header.bounds),
+  };
+  if (typeof metadata.attribution === 'string') {
+    defaults.attribution = metadata.attribution;
+  }
+
+  const urlPath = reader.file.split(path.sep).map(encodeURIComponent).join('/');
+  const prefix = urlPath.startsWith('/') ? '' : '/';
+  return L.tileLayer(`pmtiles://${prefix}${urlPath}/{z}/{x}/{y}`, { ...defaults, ...options });
+}
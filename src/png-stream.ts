@@ -0,0 +1,108 @@
+/**
+ * Incremental PNG encoding
+ *
+ * Writes an RGBA PNG from rows produced a strip at a time, compressing and
+ * emitting IDAT chunks as the rows arrive so the whole image never has to
+ * be held in memory.
+ */
+
+import * as zlib from 'zlib';
+import { once } from 'events';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffers: Buffer[]): number {
+  let crc = 0xffffffff;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i++) {
+      crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeBuffer = Buffer.from(type, 'ascii');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32([typeBuffer, data]));
+  return Buffer.concat([length, typeBuffer, data, crc]);
+}
+
+/**
+ * Encode RGBA rows as a PNG, yielding the file in pieces
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param strips - Unfiltered RGBA pixel data, a whole number of rows per strip, top to bottom
+ */
+export async function* encodePngStream(
+  width: number,
+  height: number,
+  strips: AsyncIterable<Buffer>
+): AsyncGenerator<Buffer> {
+  const stride = width * 4;
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: RGBA
+  yield Buffer.concat([PNG_SIGNATURE, pngChunk('IHDR', header)]);
+
+  const deflate = zlib.createDeflate();
+  const compressed: Buffer[] = [];
+  deflate.on('data', (data: Buffer) => compressed.push(data));
+
+  try {
+    let rows = 0;
+    for await (const strip of strips) {
+      if (strip.length % stride !== 0) {
+        throw new Error(`PNG strip of ${strip.length} bytes is not a whole number of ${width} pixel rows`);
+      }
+
+      // Prefix every row with filter type 0 (none)
+      const stripRows = strip.length / stride;
+      const filtered = Buffer.alloc(stripRows * (stride + 1));
+      for (let row = 0; row < stripRows; row++) {
+        strip.copy(filtered, row * (stride + 1) + 1, row * stride, (row + 1) * stride);
+      }
+      rows += stripRows;
+      if (rows > height) {
+        throw new Error(`PNG stream received more than ${height} rows`);
+      }
+
+      if (!deflate.write(filtered)) {
+        await once(deflate, 'drain');
+      }
+      if (compressed.length > 0) {
+        yield pngChunk('IDAT', Buffer.concat(compressed.splice(0)));
+      }
+    }
+
+    if (rows !== height) {
+      throw new Error(`PNG stream ended after ${rows} of ${height} rows`);
+    }
+
+    deflate.end();
+    await once(deflate, 'end');
+    if (compressed.length > 0) {
+      yield pngChunk('IDAT', Buffer.concat(compressed));
+    }
+  } finally {
+    deflate.destroy();
+  }
+  yield pngChunk('IEND', Buffer.alloc(0));
+}
@@ -0,0 +1,64 @@
+/**
+ * URL scheme handler registry for image loading
+ *
+ * `loadImageSource` resolves the scheme of each source (`https:`, `data:`,
+ * `file:` or any custom scheme such as `tiles:`) to a registered handler,
+ * so tiles, image overlays and marker icons can be served from databases,
+ * archives or in-process functions transparently.
+ */
+
+import { Image as CanvasImage } from '@napi-rs/canvas';
+import type { ImageProtocolHandler } from './types.js';
+
+const handlers = new Map<string, ImageProtocolHandler>();
+
+function normaliseScheme(scheme: string): string {
+  return scheme.trim().replace(/:(\/\/)?$/, '').toLowerCase();
+}
+
+/**
+ * Extract the scheme of a URL, or null for bare paths
+ */
+export function resolveScheme(src: string): string | null {
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(src);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Register a handler for a URL scheme, replacing any existing handler
+ *
+ * @param scheme - Scheme name, e.g. 'tiles' (a trailing ':' or '://' is ignored)
+ * @param handler - Function returning image bytes or an already decoded image
+ */
+export function registerImageProtocol(scheme: string, handler: ImageProtocolHandler): void {
+  const name = normaliseScheme(scheme);
+  if (!/^[a-z][a-z0-9+.-]*$/.test(name)) {
+    throw new Error(`Invalid image protocol scheme: "${scheme}"`);
+  }
+
+  handlers.set(name, handler);
+}
+
+/**
+ * Remove the handler registered for a URL scheme
+ *
+ * @returns true if a handler was removed
+ */
+export function unregisterImageProtocol(scheme: string): boolean {
+  return handlers.delete(normaliseScheme(scheme));
+}
+
+/**
+ * Find the handler responsible for a source, if any
+ */
+export function getImageProtocolHandler(src: string): ImageProtocolHandler | undefined {
+  const scheme = resolveScheme(src);
+  return scheme ? handlers.get(scheme) : undefined;
+}
+
+/**
+ * Check whether a handler result is an already decoded image
+ */
+export function isDecodedImage(value: unknown): value is CanvasImage {
+  return value instanceof CanvasImage;
+}
@@ -0,0 +1,105 @@
+/**
+ * Render jobs: serialisable map descriptions rendered in a headless environment
+ *
+ * Jobs carry plain data only, so they can cross to worker threads; the map
+ * is built from them with the environment's own Leaflet, exported and
+ * removed again.
+ */
+
+import type * as LeafletModule from 'leaflet';
+import type { LeafletHeadlessMap, RenderJob, RenderJobLayer } from './types.js';
+
+/**
+ * Keeps every popup in a job open, instead of each closing the one before
+ */
+const JOB_POPUP_OPTIONS: LeafletModule.PopupOptions = { autoClose: false, closeOnClick: false };
+
+/**
+ * Drop unset options, which Leaflet would otherwise copy over its defaults
+ */
+function definedOptions<T extends object>(options: T): T {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as T;
+}
+
+function addJobLayer(L: typeof LeafletModule, map: LeafletModule.Map, layer: RenderJobLayer): void {
+  switch (layer.type) {
+  case 'tile':
+    L.tileLayer(layer.url, layer.options).addTo(map);
+    return;
+  case 'geojson': {
+    const { style, pointRadius } = layer;
+    L.geoJSON(layer.data, {
+      style,
+      pointToLayer: pointRadius === undefined
+        ? undefined
+        : (_feature, latlng) => L.circleMarker(latlng, { ...style, radius: pointRadius }),
+    }).addTo(map);
+    return;
+  }
+  case 'marker': {
+    const { icon } = layer;
+    const marker = L.marker(layer.latlng, definedOptions({
+      icon: icon && L.icon(definedOptions({
+        iconUrl: icon.url,
+        iconRetinaUrl: icon.retinaUrl,
+        iconSize: icon.size,
+        iconAnchor: icon.anchor,
+        popupAnchor: icon.popupAnchor,
+        className: icon.className,
+      })),
+      title: layer.title,
+      opacity: layer.opacity,
+      zIndexOffset: layer.zIndexOffset,
+    })).addTo(map);
+    if (layer.popup !== undefined) {
+      marker.bindPopup(layer.popup, JOB_POPUP_OPTIONS).openPopup();
+    }
+    return;
+  }
+  case 'popup':
+    L.popup({ ...JOB_POPUP_OPTIONS, ...layer.options })
+      .setLatLng(layer.latlng)
+      .setContent(layer.content)
+      .openOn(map);
+    return;
+  default:
+    throw new Error(`Unknown render job layer type "${String((layer as { type?: unknown }).type)}"`);
+  }
+}
+
+/**
+ * Build the map a job describes, wait for it to render and export it
+ *
+ * @returns The encoded image, SVG or PDF
+ */
+export async function renderJob(
+  environment: { L: typeof LeafletModule; document: Document },
+  job: RenderJob
+): Promise<Buffer> {
+  const { L, document } = environment;
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const map = L.map(container) as LeafletHeadlessMap;
+
+  try {
+    const { view } = job;
+    if ('bounds' in view) {
+      // fitBounds needs the final size, and setSize needs a view
+      map.setView([0, 0], 0);
+      map.setSize(job.size.width, job.size.height);
+      map.fitBounds(view.bounds, { padding: view.padding === undefined ? undefined : [view.padding, view.padding] });
+    } else {
+      map.setView(view.center, view.zoom);
+      map.setSize(job.size.width, job.size.height);
+    }
+
+    for (const layer of job.layers ?? []) {
+      addJobLayer(L, map, layer);
+    }
+
+    return await map.toBuffer(job.format ?? 'png', { waitForRender: true, ...job.exportOptions });
+  } finally {
+    map.remove();
+    container.remove();
+  }
+}
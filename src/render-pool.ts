@@ -0,0 +1,337 @@
+/**
+ * Parallel map rendering on worker threads
+ *
+ * A RenderPool starts worker threads that each own a headless environment
+ * and render serialisable jobs one at a time. Jobs wait in the main thread
+ * until a worker is free. A job that times out or crashes its worker fails on
+ * its own, and the worker is replaced.
+ */
+
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { validateMapSpec } from './map-spec.js';
+import { DEFAULT_MAX_SIZE } from './tile-cache.js';
+import type { RenderJob, RenderPoolOptions } from './types.js';
+
+const DEFAULT_JOB_TIMEOUT = 60000;
+
+/**
+ * Message from the pool to a worker
+ */
+export interface RenderWorkerRequest {
+  id: number;
+  job: RenderJob;
+}
+
+/**
+ * Message from a worker to the pool
+ */
+export type RenderWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; bytes: Uint8Array }
+  | { type: 'error'; id: number; error: { name: string; message: string; stack?: string } };
+
+/**
+ * Error raised for jobs the pool could not run: a full queue, a timeout, a
+ * crashed worker or a closed pool
+ */
+export class RenderPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderPoolError';
+  }
+}
+
+interface QueuedJob {
+  id: number;
+  job: RenderJob;
+  resolve: (buffer: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  current: QueuedJob | null;
+  timer: NodeJS.Timeout | null;
+}
+
+function resolveBaseDirectory(): string {
+  if (typeof __dirname !== 'undefined') {
+    return __dirname;
+  }
+
+  return path.dirname(fileURLToPath(import.meta.url));
+}
+
+/**
+ * Start a render worker: the compiled script next to the bundle, or, under
+ * the test runner, the TypeScript source compiled by tsx
+ */
+function createWorker(workerData: RenderPoolOptions): Worker {
+  const directory = resolveBaseDirectory();
+  const compiled = path.join(directory, 'render-worker.js');
+  if (existsSync(compiled)) {
+    return new Worker(compiled, { workerData });
+  }
+
+  // tsx is a development dependency, so only tests run the worker from source
+  if (!process.env.VITEST) {
+    throw new RenderPoolError(`RenderPool worker script not found: ${compiled}`);
+  }
+
+  const require = createRequire(import.meta.url);
+  const source = path.join(directory, 'render-worker.ts');
+  const bootstrap = `require(${JSON.stringify(require.resolve('tsx/cjs/api'))}).register();\n` +
+    `require(${JSON.stringify(source)});`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Settings handed to each worker. Every worker indexes the shared tile cache
+ * directory on its own, so each gets an equal share of its size limit.
+ */
+function workerOptions(options: RenderPoolOptions, size: number): RenderPoolOptions {
+  const { environment, tileCache, imageCache, network, offline } = options;
+  const workerTileCache = tileCache && {
+    ...tileCache,
+    maxSize: Math.floor((tileCache.maxSize ?? DEFAULT_MAX_SIZE) / size),
+  };
+  return { environment, tileCache: workerTileCache, imageCache, network, offline };
+}
+
+/**
+ * A pool of worker threads rendering maps in parallel
+ */
+export class RenderPool {
+  private readonly workerData: RenderPoolOptions;
+  private readonly maxQueue: number;
+  private readonly jobTimeout: number;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: QueuedJob[] = [];
+  private readonly waiting: (() => void)[] = [];
+  private nextId = 1;
+  private closed = false;
+
+  constructor(options: RenderPoolOptions = {}) {
+    const size = options.size ?? Math.max(1, os.availableParallelism() - 1);
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`RenderPool size must be a positive integer, got ${size}`);
+    }
+
+    this.workerData = workerOptions(options, size);
+    this.maxQueue = options.maxQueue ?? Infinity;
+    this.jobTimeout = options.jobTimeout ?? DEFAULT_JOB_TIMEOUT;
+    for (let index = 0; index < size; index++) {
+      this.workers.push(this.startWorker());
+    }
+  }
+
+  /**
+   * Number of worker threads
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Number of jobs waiting for a worker
+   */
+  get queueSize(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of jobs being rendered
+   */
+  get activeJobs(): number {
+    return this.workers.filter((entry) => entry.current).length;
+  }
+
+  /**
+   * Render a job on the next free worker
+   *
+   * @returns Promise that resolves with the encoded output, or rejects with
+   * a MapSpecError for invalid jobs, the job's error or a RenderPoolError
+   */
+  render(job: RenderJob): Promise<Buffer> {
+    // Validate here, so invalid jobs fail without taking up a worker
+    const spec: Partial<RenderJob> = { ...job };
+    delete spec.timeout;
+    try {
+      validateMapSpec(spec);
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+
+    if (this.closed) {
+      return Promise.reject(new RenderPoolError('RenderPool is closed'));
+    }
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new RenderPoolError(`RenderPool queue is full (${this.maxQueue} jobs waiting)`));
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Wait until the queue has room for another job, to apply backpressure
+   * when submitting many jobs
+   */
+  whenReady(): Promise<void> {
+    if (this.closed || this.queue.length < this.maxQueue) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Stop the workers, failing queued and running jobs
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    const error = new RenderPoolError('RenderPool is closed');
+    for (const queued of this.queue.splice(0)) {
+      queued.reject(error);
+    }
+    this.releaseWaiting();
+
+    await Promise.all(this.workers.map(async (entry) => {
+      this.finish(entry)?.reject(error);
+      await entry.worker.terminate();
+    }));
+  }
+
+  private startWorker(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: createWorker(this.workerData),
+      ready: false,
+      current: null,
+      timer: null,
+    };
+
+    entry.worker.on('message', (message: RenderWorkerResponse) => this.handleMessage(entry, message));
+    // Crashes surface as an exit with a non-zero code; errors only add the reason
+    let failure: Error | null = null;
+    entry.worker.on('error', (error) => {
+      failure = error;
+    });
+    entry.worker.on('exit', (code) => this.handleExit(entry, code, failure));
+    return entry;
+  }
+
+  private handleMessage(entry: PoolWorker, message: RenderWorkerResponse): void {
+    if (message.type === 'ready') {
+      entry.ready = true;
+      this.dispatch();
+      return;
+    }
+
+    const job = entry.current;
+    if (!job || job.id !== message.id) {
+      // The job already timed out
+      return;
+    }
+
+    this.finish(entry);
+    if (message.type === 'result') {
+      job.resolve(Buffer.from(message.bytes.buffer, message.bytes.byteOffset, message.bytes.byteLength));
+    } else {
+      const error = new Error(message.error.message);
+      error.name = message.error.name;
+      error.stack = message.error.stack;
+      job.reject(error);
+    }
+    this.dispatch();
+  }
+
+  private handleExit(entry: PoolWorker, code: number, failure: Error | null): void {
+    const index = this.workers.indexOf(entry);
+    if (this.closed || index === -1) {
+      return;
+    }
+
+    const reason = failure ? `: ${failure.message}` : ` with code ${code}`;
+    if (!entry.ready) {
+      // A worker that cannot start would fail again when replaced
+      const error = new RenderPoolError(`Render worker failed to start${reason}`);
+      for (const queued of this.queue.splice(0)) {
+        queued.reject(error);
+      }
+      void this.close();
+      return;
+    }
+
+    this.finish(entry)?.reject(new RenderPoolError(`Render worker exited${reason}`));
+    this.workers[index] = this.startWorker();
+  }
+
+  /**
+   * Send queued jobs to idle workers
+   */
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (this.queue.length === 0) {
+        break;
+      }
+      if (!entry.ready || entry.current) {
+        continue;
+      }
+
+      const queued = this.queue.shift() as QueuedJob;
+      const timeout = queued.job.timeout ?? this.jobTimeout;
+      entry.current = queued;
+      entry.timer = setTimeout(() => this.timeOut(entry, timeout), timeout);
+      const request: RenderWorkerRequest = { id: queued.id, job: queued.job };
+      entry.worker.postMessage(request);
+    }
+
+    if (this.queue.length < this.maxQueue) {
+      this.releaseWaiting();
+    }
+  }
+
+  /**
+   * Fail a job that ran too long; its worker may be stuck, so it is replaced
+   */
+  private timeOut(entry: PoolWorker, timeout: number): void {
+    this.finish(entry)?.reject(new RenderPoolError(`Render job timed out after ${timeout}ms`));
+    const index = this.workers.indexOf(entry);
+    if (index !== -1 && !this.closed) {
+      this.workers[index] = this.startWorker();
+    }
+    void entry.worker.terminate();
+  }
+
+  /**
+   * Clear a worker's current job and its timer
+   *
+   * @returns The job, if there was one
+   */
+  private finish(entry: PoolWorker): QueuedJob | null {
+    const job = entry.current;
+    entry.current = null;
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    return job;
+  }
+
+  private releaseWaiting(): void {
+    for (const resolve of this.waiting.splice(0)) {
+      resolve();
+    }
+  }
+}
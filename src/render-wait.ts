@@ -0,0 +1,203 @@
+/**
+ * Render completion tracking for headless maps
+ *
+ * Keeps a registry of image loads started through the patched
+ * HTMLImageElement `src` setter and inspects tile layers and canvas
+ * renderers so callers can wait for a map to finish drawing instead of
+ * sleeping for an arbitrary amount of time before exporting it.
+ */
+
+import type { BlockedResource, PendingResource, RenderStatus, WhenRenderedOptions } from './types.js';
+
+const DEFAULT_RENDER_TIMEOUT = 10000;
+
+interface TrackedImageLoad {
+  src: string;
+  promise: Promise<void>;
+}
+
+const pendingImageLoads = new Map<HTMLImageElement, TrackedImageLoad>();
+
+/**
+ * Error raised when a map does not finish rendering before the timeout
+ */
+export class RenderTimeoutError extends Error {
+  readonly timeout: number;
+  readonly pending: PendingResource[];
+
+  constructor(timeout: number, pending: PendingResource[]) {
+    const summary = pending
+      .slice(0, 5)
+      .map((resource) => resource.url ?? resource.type)
+      .join(', ');
+    const more = pending.length > 5 ? ` and ${pending.length - 5} more` : '';
+    super(
+      `Map did not finish rendering within ${timeout}ms; ` +
+      `${pending.length} resource(s) still pending: ${summary}${more}`
+    );
+    this.name = 'RenderTimeoutError';
+    this.timeout = timeout;
+    this.pending = pending;
+  }
+}
+
+/**
+ * Register an in-flight image load so it can be awaited by whenRendered
+ */
+export function trackImageLoad(element: HTMLImageElement, src: string, promise: Promise<void>): void {
+  const entry: TrackedImageLoad = { src, promise };
+  pendingImageLoads.set(element, entry);
+
+  const release = () => {
+    if (pendingImageLoads.get(element) === entry) {
+      pendingImageLoads.delete(element);
+    }
+  };
+  promise.then(release, release);
+}
+
+/**
+ * Whether an image element's load is still in flight
+ */
+export function isImageLoading(element: HTMLImageElement): boolean {
+  return pendingImageLoads.has(element);
+}
+
+function classifyImage(element: HTMLImageElement): BlockedResource['type'] {
+  const classList = element.classList;
+  if (classList?.contains('leaflet-tile')) {
+    return 'tile';
+  }
+  if (classList?.contains('leaflet-marker-icon') || classList?.contains('leaflet-marker-shadow')) {
+    return 'icon';
+  }
+  return 'image';
+}
+
+/**
+ * List the images in a map whose last load was blocked by offline mode
+ */
+export function collectBlockedResources(map: any): BlockedResource[] {
+  const container: HTMLElement | undefined = map.getContainer?.();
+  if (!container) {
+    return [];
+  }
+
+  const blocked: BlockedResource[] = [];
+  for (const element of Array.from(container.querySelectorAll('img'))) {
+    const url = (element as any)._headlessBlocked as string | undefined;
+    if (url) {
+      blocked.push({ type: classifyImage(element), url });
+    }
+  }
+  return blocked;
+}
+
+function waitForLayerEvent(layer: any, eventName: string): { promise: Promise<void>; cancel: () => void } {
+  let handler: (() => void) | null = null;
+  const promise = new Promise<void>((resolve) => {
+    handler = () => resolve();
+    layer.once(eventName, handler);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (handler) {
+        layer.off(eventName, handler);
+      }
+    },
+  };
+}
+
+interface PendingWork {
+  resources: PendingResource[];
+  promises: Promise<unknown>[];
+  cancel: () => void;
+}
+
+function collectPendingWork(map: any): PendingWork {
+  const resources: PendingResource[] = [];
+  const promises: Promise<unknown>[] = [];
+  const cancellers: Array<() => void> = [];
+  const listedElements = new Set<HTMLImageElement>();
+  const container: HTMLElement | undefined = map.getContainer?.();
+
+  for (const layer of Object.values(map._layers ?? {}) as any[]) {
+    if (typeof layer.isLoading === 'function' && layer.isLoading()) {
+      for (const tile of Object.values(layer._tiles ?? {}) as any[]) {
+        if (tile.loaded) {
+          continue;
+        }
+        const tileElement = tile.el as HTMLImageElement;
+        listedElements.add(tileElement);
+        resources.push({ type: 'tile', url: tileElement?.src || undefined });
+      }
+
+      const { promise, cancel } = waitForLayerEvent(layer, 'load');
+      promises.push(promise);
+      cancellers.push(cancel);
+    }
+
+    // Canvas renderers redraw on the next animation frame
+    if (layer._redrawRequest) {
+      resources.push({ type: 'renderer' });
+      promises.push(new Promise((resolve) => setTimeout(resolve, 16)));
+    }
+  }
+
+  for (const [element, load] of pendingImageLoads) {
+    if (!container || !container.contains(element)) {
+      continue;
+    }
+
+    promises.push(load.promise);
+    if (!listedElements.has(element)) {
+      resources.push({ type: classifyImage(element), url: load.src });
+    }
+  }
+
+  return {
+    resources,
+    promises,
+    cancel: () => cancellers.forEach((cancel) => cancel()),
+  };
+}
+
+/**
+ * Wait until every tile, image and vector renderer of a map has settled
+ *
+ * @param map - The Leaflet map instance
+ * @param options - Timeout and partial-result behaviour
+ * @returns Promise resolving with the render status
+ */
+export async function waitForMapRender(map: any, options: WhenRenderedOptions = {}): Promise<RenderStatus> {
+  const timeout = options.timeout ?? DEFAULT_RENDER_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const work = collectPendingWork(map);
+    if (work.resources.length === 0 && work.promises.length === 0) {
+      return { complete: true, pending: [], blocked: collectBlockedResources(map) };
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      work.cancel();
+      if (options.partial) {
+        return { complete: false, pending: work.resources, blocked: collectBlockedResources(map) };
+      }
+      throw new RenderTimeoutError(timeout, work.resources);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(work.promises),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, remaining);
+      }),
+    ]);
+    clearTimeout(timer);
+    work.cancel();
+  }
+}
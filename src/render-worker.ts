@@ -0,0 +1,54 @@
+/**
+ * Worker thread entry for RenderPool
+ *
+ * Each worker configures its caches and network from the pool's options,
+ * creates one headless environment and renders the jobs it is sent one at a
+ * time.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { createHeadlessEnvironment } from './index.js';
+import { configureTileCache } from './tile-cache.js';
+import { configureImageCache } from './image-cache.js';
+import { renderJob } from './render-job.js';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './render-pool.js';
+import type { RenderPoolOptions } from './types.js';
+
+const port = parentPort;
+if (!port) {
+  throw new Error('render-worker must run in a worker thread');
+}
+
+const options = workerData as RenderPoolOptions;
+if (options.tileCache) {
+  configureTileCache(options.tileCache);
+}
+if (options.imageCache) {
+  configureImageCache(options.imageCache);
+}
+
+const environment = createHeadlessEnvironment({
+  ...options.environment,
+  network: options.network,
+  offline: options.offline,
+});
+
+const handleRequest = async ({ id, job }: RenderWorkerRequest): Promise<void> => {
+  try {
+    // Copy out of Node's shared buffer pool so the bytes can be transferred
+    const bytes = new Uint8Array(await renderJob(environment, job));
+    const response: RenderWorkerResponse = { type: 'result', id, bytes };
+    port.postMessage(response, [bytes.buffer]);
+  } catch (error) {
+    const { name = 'Error', message = String(error), stack } = error as Partial<Error>;
+    const response: RenderWorkerResponse = { type: 'error', id, error: { name, message, stack } };
+    port.postMessage(response);
+  }
+};
+
+port.on('message', (request: RenderWorkerRequest) => {
+  void handleRequest(request);
+});
+
+const ready: RenderWorkerResponse = { type: 'ready' };
+port.postMessage(ready);
@@ -0,0 +1,131 @@
+/**
+ * High-resolution image sources for scaled exports
+ *
+ * Leaflet decides between standard and retina resources once, from
+ * `L.Browser.retina`, when tiles and icons are created. Scaled exports work
+ * out the URLs Leaflet would have requested on a retina screen (`{r}` tile
+ * templates, `detectRetina` tile layers and `iconRetinaUrl` icons) for the
+ * images already on the map.
+ */
+
+import { leafletOf } from './leaflet-instance.js';
+
+/**
+ * A replacement image covering part of an element, in fractions of its box
+ */
+export interface RetinaSource {
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Run a function with Leaflet's retina detection switched on
+ */
+function withRetina<T>(L: any, fn: () => T): T {
+  const browser = L?.Browser;
+  if (!browser) {
+    return fn();
+  }
+
+  const previous = browser.retina;
+  browser.retina = true;
+  try {
+    return fn();
+  } finally {
+    browser.retina = previous;
+  }
+}
+
+function retinaTileSources(L: any, layer: any, coords: any, element: HTMLImageElement): RetinaSource[] | null {
+  const options = layer.options ?? {};
+
+  if (L.TileLayer.WMS && layer instanceof L.TileLayer.WMS) {
+    if (!options.detectRetina) {
+      return null;
+    }
+    // Leaflet asks WMS servers for twice the pixels on retina screens
+    const size = layer.wmsParams.width * 2;
+    const proxy = Object.create(layer, {
+      wmsParams: { value: { ...layer.wmsParams, width: size, height: size } },
+    });
+    return [{ url: proxy.getTileUrl(coords), x: 0, y: 0, width: 1, height: 1 }];
+  }
+
+  const nativeZoom = options.maxNativeZoom ?? options.maxZoom;
+  if (options.detectRetina && (nativeZoom === undefined || layer._tileZoom < nativeZoom)) {
+    // Leaflet halves the tile size and requests the next zoom level, so each
+    // standard tile is covered by four tiles from one level deeper
+    const range = layer._globalTileRange;
+    const proxy = Object.create(layer, {
+      options: { value: { ...options, zoomOffset: options.zoomOffset + (options.zoomReverse ? -1 : 1) } },
+      _globalTileRange: {
+        value: range ? L.bounds(range.min.multiplyBy(2), range.max.multiplyBy(2).add([1, 1])) : range,
+      },
+    });
+
+    return withRetina(L, () => {
+      const sources: RetinaSource[] = [];
+      for (let row = 0; row < 2; row++) {
+        for (let column = 0; column < 2; column++) {
+          const childCoords = L.point(coords.x * 2 + column, coords.y * 2 + row);
+          childCoords.z = coords.z + 1;
+          sources.push({ url: proxy.getTileUrl(childCoords), x: column / 2, y: row / 2, width: 0.5, height: 0.5 });
+        }
+      }
+      return sources;
+    });
+  }
+
+  const url = withRetina(L, () => layer.getTileUrl(coords));
+  return url && url !== element.src ? [{ url, x: 0, y: 0, width: 1, height: 1 }] : null;
+}
+
+function retinaIconSources(L: any, icon: any, name: 'icon' | 'shadow', element: HTMLImageElement): RetinaSource[] | null {
+  if (!icon?.options?.[`${name}RetinaUrl`] || typeof icon._getIconUrl !== 'function') {
+    return null;
+  }
+
+  const url = withRetina(L, () => icon._getIconUrl(name));
+  return url && url !== element.src ? [{ url, x: 0, y: 0, width: 1, height: 1 }] : null;
+}
+
+/**
+ * Collect the retina replacements for tile and marker images on a map
+ *
+ * @returns Sources keyed by image element; images without a retina variant are absent
+ */
+export function collectRetinaSources(map: any): Map<HTMLImageElement, RetinaSource[]> {
+  const L: any = leafletOf(map);
+  const sources = new Map<HTMLImageElement, RetinaSource[]>();
+
+  for (const layer of Object.values(map._layers ?? {}) as any[]) {
+    if (layer instanceof L.TileLayer) {
+      for (const tile of Object.values(layer._tiles ?? {}) as any[]) {
+        if (tile.el?.tagName === 'IMG' && tile.el.src) {
+          const replacement = retinaTileSources(L, layer, tile.coords, tile.el);
+          if (replacement) {
+            sources.set(tile.el, replacement);
+          }
+        }
+      }
+      continue;
+    }
+
+    if (layer instanceof L.Marker) {
+      const icon = layer.options?.icon;
+      for (const [name, element] of [['icon', layer._icon], ['shadow', layer._shadow]] as const) {
+        if (element?.tagName === 'IMG' && element.src) {
+          const replacement = retinaIconSources(L, icon, name, element);
+          if (replacement) {
+            sources.set(element, replacement);
+          }
+        }
+      }
+    }
+  }
+
+  return sources;
+}
@@ -0,0 +1,355 @@
+/**
+ * Persistent on-disk HTTP cache for remote images and tiles
+ *
+ * Responses are stored by URL hash together with their validators so that
+ * repeated renders reuse tiles instead of refetching them. Freshness follows
+ * `Cache-Control`/`Expires`, stale entries are revalidated with
+ * `If-None-Match`/`If-Modified-Since`, and an offline mode serves cached
+ * entries without touching the network.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { TileCacheOptions } from './types.js';
+
+export const DEFAULT_MAX_SIZE = 256 * 1024 * 1024;
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimal response shape needed by the cache (satisfied by undici's Response)
+ */
+export interface CacheableResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+export type CacheFetcher = (url: string, headers: Record<string, string>) => Promise<CacheableResponse>;
+
+interface CacheEntryMetadata {
+  url: string;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+  size: number;
+}
+
+interface IndexEntry {
+  size: number;
+  lastAccess: number;
+}
+
+function parseCacheControl(header: string | null): Map<string, string> {
+  const directives = new Map<string, string>();
+  if (!header) {
+    return directives;
+  }
+
+  for (const part of header.split(',')) {
+    const [rawKey, ...rawValue] = part.split('=');
+    const key = rawKey.trim().toLowerCase();
+    if (key) {
+      directives.set(key, rawValue.join('=').trim().replace(/^"|"$/g, ''));
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Work out when a response stops being fresh, or null when it must not be stored
+ */
+function resolveExpiry(response: CacheableResponse, now: number, ttl: number): number | null {
+  const cacheControl = parseCacheControl(response.headers.get('cache-control'));
+
+  if (cacheControl.has('no-store')) {
+    return null;
+  }
+
+  if (cacheControl.has('no-cache')) {
+    return now;
+  }
+
+  const maxAge = parseInt(cacheControl.get('max-age') ?? '', 10);
+  if (Number.isFinite(maxAge)) {
+    return now + Math.max(0, maxAge) * 1000;
+  }
+
+  const expires = Date.parse(response.headers.get('expires') ?? '');
+  if (Number.isFinite(expires)) {
+    return expires;
+  }
+
+  return now + ttl;
+}
+
+/**
+ * Disk-backed cache keyed by URL
+ */
+export class TileCache {
+  readonly directory: string;
+  readonly maxSize: number;
+  readonly ttl: number;
+  readonly offline: boolean;
+
+  private index: Map<string, IndexEntry> | null = null;
+  private indexLoading: Promise<Map<string, IndexEntry>> | null = null;
+
+  constructor(options: TileCacheOptions) {
+    this.directory = path.resolve(options.directory);
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Load a URL through the cache, using the fetcher for misses and revalidation
+   *
+   * @param options.offline - Serve stale entries and never fetch for this load
+   * @param options.variant - Identity of per-request headers and signing, kept
+   * apart from entries loaded for the same URL with other credentials
+   */
+  async load(
+    url: string,
+    fetcher: CacheFetcher,
+    options: { offline?: boolean; variant?: string } = {}
+  ): Promise<Buffer> {
+    const key = this.keyFor(url, options.variant);
+    const cached = await this.readEntry(key);
+    const now = Date.now();
+    const offline = this.offline || options.offline === true;
+
+    if (cached && (offline || cached.metadata.expiresAt > now)) {
+      await this.touch(key, cached.metadata.size);
+      return cached.body;
+    }
+
+    if (offline) {
+      throw new Error(`Tile cache miss for ${url} while running offline`);
+    }
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (cached?.metadata.etag) {
+      conditionalHeaders['If-None-Match'] = cached.metadata.etag;
+    }
+    if (cached?.metadata.lastModified) {
+      conditionalHeaders['If-Modified-Since'] = cached.metadata.lastModified;
+    }
+
+    const response = await fetcher(url, conditionalHeaders);
+
+    if (cached && response.status === 304) {
+      const expiresAt = resolveExpiry(response, Date.now(), this.ttl) ?? Date.now();
+      await this.writeMetadata(key, {
+        ...cached.metadata,
+        expiresAt,
+        etag: response.headers.get('etag') ?? cached.metadata.etag,
+        lastModified: response.headers.get('last-modified') ?? cached.metadata.lastModified,
+      });
+      await this.touch(key, cached.metadata.size);
+      return cached.body;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image from ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const storedAt = Date.now();
+    const expiresAt = resolveExpiry(response, storedAt, this.ttl);
+
+    if (expiresAt !== null) {
+      await this.store(key, body, {
+        url,
+        storedAt,
+        expiresAt,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+        size: body.length,
+      });
+    }
+
+    return body;
+  }
+
+  /**
+   * Check whether a URL has a cached body (fresh or stale)
+   */
+  async has(url: string, variant?: string): Promise<boolean> {
+    const key = this.keyFor(url, variant);
+    try {
+      await fs.access(this.bodyPath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+    this.index = new Map();
+  }
+
+  private keyFor(url: string, variant?: string): string {
+    return createHash('sha256').update(variant ? `${url}\n${variant}` : url).digest('hex');
+  }
+
+  private bodyPath(key: string): string {
+    return path.join(this.directory, key.substring(0, 2), `${key}.bin`);
+  }
+
+  private metadataPath(key: string): string {
+    return path.join(this.directory, key.substring(0, 2), `${key}.json`);
+  }
+
+  private async readEntry(key: string): Promise<{ body: Buffer; metadata: CacheEntryMetadata } | null> {
+    try {
+      const [metadataRaw, body] = await Promise.all([
+        fs.readFile(this.metadataPath(key), 'utf-8'),
+        fs.readFile(this.bodyPath(key)),
+      ]);
+      return { body, metadata: JSON.parse(metadataRaw) as CacheEntryMetadata };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeAtomic(target: string, data: string | Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temporary = `${target}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, target);
+  }
+
+  private async writeMetadata(key: string, metadata: CacheEntryMetadata): Promise<void> {
+    await this.writeAtomic(this.metadataPath(key), JSON.stringify(metadata));
+  }
+
+  private async store(key: string, body: Buffer, metadata: CacheEntryMetadata): Promise<void> {
+    if (body.length > this.maxSize) {
+      return;
+    }
+
+    try {
+      await this.writeAtomic(this.bodyPath(key), body);
+      await this.writeMetadata(key, metadata);
+    } catch (error) {
+      console.warn(`leaflet-node: unable to write tile cache entry for ${metadata.url}:`, error);
+      return;
+    }
+
+    const index = await this.loadIndex();
+    index.set(key, { size: body.length, lastAccess: Date.now() });
+    await this.evict(index);
+  }
+
+  private async touch(key: string, size: number): Promise<void> {
+    const now = Date.now();
+    const index = await this.loadIndex();
+    index.set(key, { size, lastAccess: now });
+
+    // Persist the access time so eviction order survives restarts
+    await fs.utimes(this.bodyPath(key), now / 1000, now / 1000).catch(() => {});
+  }
+
+  private async loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    if (!this.indexLoading) {
+      this.indexLoading = this.scanDirectory().then((index) => {
+        this.index = index;
+        this.indexLoading = null;
+        return index;
+      });
+    }
+
+    return await this.indexLoading;
+  }
+
+  private async scanDirectory(): Promise<Map<string, IndexEntry>> {
+    const index = new Map<string, IndexEntry>();
+    let buckets: string[];
+    try {
+      buckets = await fs.readdir(this.directory);
+    } catch {
+      return index;
+    }
+
+    for (const bucket of buckets) {
+      let files: string[];
+      try {
+        files = await fs.readdir(path.join(this.directory, bucket));
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        if (!file.endsWith('.bin')) {
+          continue;
+        }
+        try {
+          const stats = await fs.stat(path.join(this.directory, bucket, file));
+          index.set(file.slice(0, -4), { size: stats.size, lastAccess: stats.mtimeMs });
+        } catch {
+          // Entry removed while scanning
+        }
+      }
+    }
+
+    return index;
+  }
+
+  private async evict(index: Map<string, IndexEntry>): Promise<void> {
+    let total = 0;
+    for (const entry of index.values()) {
+      total += entry.size;
+    }
+
+    if (total <= this.maxSize) {
+      return;
+    }
+
+    const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key, entry] of oldestFirst) {
+      if (total <= this.maxSize) {
+        break;
+      }
+
+      index.delete(key);
+      total -= entry.size;
+      await Promise.all([
+        fs.rm(this.bodyPath(key), { force: true }),
+        fs.rm(this.metadataPath(key), { force: true }),
+      ]);
+    }
+  }
+}
+
+let activeCache: TileCache | null = null;
+
+/**
+ * Enable, reconfigure or (with null) disable the on-disk tile cache
+ *
+ * @param options - Cache options, or null to disable caching
+ * @returns The active cache instance, if any
+ */
+export function configureTileCache(options: TileCacheOptions | null): TileCache | null {
+  activeCache = options ? new TileCache(options) : null;
+  return activeCache;
+}
+
+/**
+ * Get the active on-disk tile cache, if one is configured
+ */
+export function getTileCache(): TileCache | null {
+  return activeCache;
+}
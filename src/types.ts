@@ -1,4 +1,8 @@
 import type * as L from 'leaflet';
+import type { Image as CanvasImage } from '@napi-rs/canvas';
+import type { Readable } from 'stream';
+import type { DOMWindow } from 'jsdom';
+import type { GeoJsonObject } from 'geojson';
 
 /**
  * Extended Map interface with headless-specific methods
@@ -11,19 +15,267 @@ export interface LeafletHeadlessMap extends L.Map {
    */
   setSize(width: number, height: number): this;
 
+  /**
+   * Wait until all tiles, marker icons, images and vector renderers have settled
+   * @param options - Timeout and partial-result behaviour
+   * @returns Promise that resolves with the render status
+   */
+  whenRendered(options?: WhenRenderedOptions): Promise<RenderStatus>;
+
   /**
    * Save the current map view to an image file
-   * @param filename - Output filename (e.g., 'map.png')
+   * @param filename - Output filename; the format is inferred from the
+   * extension (.png, .jpg/.jpeg, .webp, .avif, .svg or .pdf) and defaults to PNG
+   * @param options - Export options (PDF page options apply to .pdf files)
    * @returns Promise that resolves with the filename when complete
    */
-  saveImage(filename: string): Promise<string>;
+  saveImage(filename: string, options?: ExportOptions | PDFExportOptions): Promise<string>;
 
   /**
    * Export the current map view to a Buffer
-   * @param format - Image format ('png' or 'jpeg')
+   * @param format - Image format
+   * @param options - Export options
    * @returns Promise that resolves with the image buffer
    */
-  toBuffer(format?: 'png' | 'jpeg'): Promise<Buffer>;
+  toBuffer(format?: ExportFormat, options?: ExportOptions | PDFExportOptions): Promise<Buffer>;
+
+  /**
+   * Export the current map view as an SVG document, with tiles and icons
+   * embedded as images and vector layers as paths
+   * @param options - Export options
+   * @returns Promise that resolves with the SVG markup
+   */
+  toSVG(options?: ExportOptions): Promise<string>;
+
+  /**
+   * Export the current map view as a single-page PDF, with tiles and icons
+   * embedded as images and vector layers and popup text kept as vectors
+   * @param options - Page size, orientation, margins, DPI and export options
+   * @returns Promise that resolves with the PDF bytes
+   */
+  toPDF(options?: PDFExportOptions): Promise<Buffer>;
+
+  /**
+   * Render a geographic area into a PNG of any size, streamed in strips so
+   * the full image is never held in memory. The map is moved and resized
+   * chunk by chunk while the export runs and restored afterwards.
+   * @param bounds - Area to render
+   * @param options - Zoom level or output size, and chunking
+   * @returns Readable stream of PNG bytes
+   */
+  exportBounds(bounds: L.LatLngBoundsExpression, options: ExportBoundsOptions): Readable;
+}
+
+/**
+ * Raster formats supported by toBuffer and saveImage
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+/**
+ * Every output format supported by toBuffer and saveImage
+ */
+export type ExportFormat = ImageFormat | 'svg' | 'pdf';
+
+/**
+ * Options for waiting until a map has finished rendering
+ */
+export interface WhenRenderedOptions {
+  /**
+   * Maximum time to wait in milliseconds
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Resolve with the still-pending resources instead of rejecting on timeout
+   * @default false
+   */
+  partial?: boolean;
+}
+
+/**
+ * A resource that had not finished loading when a render wait ended
+ */
+export interface PendingResource {
+  type: 'tile' | 'icon' | 'image' | 'renderer';
+  url?: string;
+}
+
+/**
+ * Result of waiting for a map to render
+ */
+export interface RenderStatus {
+  /**
+   * Whether every tracked resource settled before the timeout
+   */
+  complete: boolean;
+
+  /**
+   * Resources still pending when the wait ended (empty when complete)
+   */
+  pending: PendingResource[];
+
+  /**
+   * Resources in the map that failed to load because offline mode blocked them
+   */
+  blocked: BlockedResource[];
+}
+
+/**
+ * A map resource whose request was blocked by offline mode
+ */
+export interface BlockedResource {
+  type: 'tile' | 'icon' | 'image';
+  url: string;
+}
+
+/**
+ * Options shared by saveImage and toBuffer
+ */
+export interface ExportOptions {
+  /**
+   * Wait for the map to finish rendering before exporting.
+   * Pass `true` for the defaults or an options object.
+   * @default false
+   */
+  waitForRender?: boolean | WhenRenderedOptions;
+
+  /**
+   * Encoding quality from 0 to 100 for JPEG, WebP and AVIF (100 is lossless
+   * for AVIF). Ignored for PNG; the encoder default is used when omitted.
+   */
+  quality?: number;
+
+  /**
+   * Device pixel ratio for PNG, JPEG, WebP and AVIF output. A scale of 2
+   * renders vectors and popups at twice the resolution into an image twice
+   * the map size, using retina tiles (`{r}` templates and `detectRetina`
+   * layers) and `iconRetinaUrl` marker icons where available.
+   * @default 1
+   */
+  scale?: number;
+
+  /**
+   * Draw the map's controls in their corners: `true` draws them all, and an
+   * object draws every kind except those switched off
+   * @default false
+   */
+  controls?: boolean | ExportControlsOptions;
+
+  /**
+   * Draw open popups with their bubble, tip and close button; `false` draws
+   * only their content
+   * @default true
+   */
+  popupChrome?: boolean;
+
+  /**
+   * Called after the export with the resources it is missing because offline
+   * mode blocked them; not called when nothing was blocked
+   */
+  onBlocked?: (blocked: BlockedResource[]) => void;
+}
+
+/**
+ * Kinds of map control drawn in exports; each defaults to on once the
+ * `controls` option is an object
+ */
+export interface ExportControlsOptions {
+  /**
+   * The attribution control, with its links and separators
+   */
+  attribution?: boolean;
+
+  /**
+   * `L.control.scale` bars for the current view
+   */
+  scale?: boolean;
+
+  /**
+   * The zoom in and out buttons
+   */
+  zoom?: boolean;
+
+  /**
+   * `L.control.layers`, collapsed or expanded
+   */
+  layers?: boolean;
+
+  /**
+   * Any other control, drawn from its HTML content
+   */
+  custom?: boolean;
+}
+
+/**
+ * Options for exporting a geographic area with exportBounds
+ *
+ * Pass either a `zoom` level or an output `width` and/or `height`.
+ */
+export interface ExportBoundsOptions {
+  /**
+   * Zoom level to render at; the image is as large as the bounds at that zoom
+   */
+  zoom?: number;
+
+  /**
+   * Output width in pixels. The bounds are fitted into the output, rendered at
+   * the deepest zoom level whose tiles would not need to be shrunk and scaled up
+   * from there. The height follows the bounds' aspect ratio when omitted.
+   */
+  width?: number;
+
+  /**
+   * Output height in pixels; the width follows the bounds' aspect ratio when omitted
+   */
+  height?: number;
+
+  /**
+   * Width and height of each rendered chunk in output pixels. Memory use grows
+   * with the output width times this value.
+   * @default 1024
+   */
+  chunkSize?: number;
+
+  /**
+   * How long to wait for each chunk to render
+   * @default true
+   */
+  waitForRender?: boolean | WhenRenderedOptions;
+}
+
+/**
+ * Named PDF page sizes
+ */
+export type PDFPageSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
+
+/**
+ * Options for PDF export
+ */
+export interface PDFExportOptions extends ExportOptions {
+  /**
+   * Named page size or [width, height] in PDF points (1/72 inch)
+   * @default 'A4'
+   */
+  pageSize?: PDFPageSize | [number, number];
+
+  /**
+   * Page orientation; defaults to the page size as given
+   */
+  orientation?: 'portrait' | 'landscape';
+
+  /**
+   * Page margins in points, for all sides or per side
+   * @default 36
+   */
+  margin?: number | { top?: number; right?: number; bottom?: number; left?: number };
+
+  /**
+   * Map pixels per inch on the page; the map is scaled down further if it
+   * does not fit within the margins
+   * @default 96
+   */
+  dpi?: number;
 }
 
 /**
@@ -45,11 +297,596 @@ export interface HeadlessOptions {
    */
   enableAnimations?: boolean;
 
+  /**
+   * Let Leaflet position layers with CSS 3D transforms, as it does in
+   * browsers, so fractional zoom levels render scaled in exports. Layers are
+   * positioned with `left` and `top` otherwise.
+   * @default false
+   */
+  enable3dTransforms?: boolean;
+
   /**
    * Custom user agent string
    * @default 'webkit'
    */
   userAgent?: string;
+
+  /**
+   * Concurrency, rate limit and retry settings for image and tile fetches.
+   * Shared by the whole process: isolated environments alive at the same
+   * time must not ask for different ones.
+   * @default {}
+   */
+  network?: NetworkOptions;
+
+  /**
+   * Forbid network access: requests fail with an OfflineModeError unless
+   * their host is allowlisted or the tile cache already holds the response.
+   * Pass `true` for the defaults or an options object. Shared by the whole
+   * process like `network`.
+   * @default false
+   */
+  offline?: boolean | OfflineOptions;
+}
+
+/**
+ * An isolated headless DOM and Leaflet instance, from `createHeadlessEnvironment`
+ */
+export interface HeadlessEnvironment {
+  /**
+   * Leaflet loaded into this environment's window, with the headless map methods
+   */
+  L: HeadlessLeaflet;
+
+  /**
+   * The environment's jsdom window
+   */
+  window: DOMWindow;
+
+  /**
+   * The environment's document, where map containers are created
+   */
+  document: Document;
+
+  /**
+   * Remove the environment's maps and close its window; the environment
+   * cannot be used afterwards
+   */
+  dispose(): void;
+}
+
+/**
+ * A tile layer in a render job
+ */
+export interface RenderJobTileLayer {
+  type: 'tile';
+
+  /**
+   * URL template, as for `L.tileLayer`
+   */
+  url: string;
+
+  /**
+   * Tile layer options; `signUrl` and other functions cannot be described in
+   * JSON or cross to a worker
+   */
+  options?: L.TileLayerOptions;
+}
+
+/**
+ * A GeoJSON layer in a render job, drawn with the canvas renderer
+ */
+export interface RenderJobGeoJSONLayer {
+  type: 'geojson';
+  data: GeoJsonObject;
+
+  /**
+   * Path style applied to every feature
+   */
+  style?: L.PathOptions;
+
+  /**
+   * Draw points as circle markers of this radius instead of marker icons
+   */
+  pointRadius?: number;
+}
+
+/**
+ * A marker in a render job
+ */
+export interface RenderJobMarkerLayer {
+  type: 'marker';
+  latlng: [number, number];
+
+  /**
+   * Image icon; Leaflet's default marker when omitted
+   */
+  icon?: {
+    url: string;
+    retinaUrl?: string;
+    size?: [number, number];
+    anchor?: [number, number];
+    popupAnchor?: [number, number];
+    className?: string;
+  };
+
+  title?: string;
+  opacity?: number;
+  zIndexOffset?: number;
+
+  /**
+   * HTML content of a popup opened on the marker
+   */
+  popup?: string;
+}
+
+/**
+ * An open popup in a render job
+ */
+export interface RenderJobPopupLayer {
+  type: 'popup';
+  latlng: [number, number];
+
+  /**
+   * HTML content
+   */
+  content: string;
+
+  options?: {
+    maxWidth?: number;
+    minWidth?: number;
+    maxHeight?: number;
+    className?: string;
+    closeButton?: boolean;
+    offset?: [number, number];
+  };
+}
+
+/**
+ * A layer in a render job
+ */
+export type RenderJobLayer = RenderJobTileLayer | RenderJobGeoJSONLayer | RenderJobMarkerLayer | RenderJobPopupLayer;
+
+/**
+ * A JSON description of a map, for `renderMapSpec` and `RenderPool`
+ *
+ * Described by the JSON Schema published as
+ * `leaflet-node/map-spec.schema.json`.
+ */
+export interface MapSpec {
+  /**
+   * Map size in pixels
+   */
+  size: { width: number; height: number };
+
+  /**
+   * Centre and zoom, or bounds to fit with optional padding in pixels
+   */
+  view:
+    | { center: [number, number]; zoom: number }
+    | { bounds: [[number, number], [number, number]]; padding?: number };
+
+  /**
+   * Layers, added bottom to top
+   * @default []
+   */
+  layers?: RenderJobLayer[];
+
+  /**
+   * Output format
+   * @default 'png'
+   */
+  format?: ExportFormat;
+
+  /**
+   * Export options; the map always waits for rendering unless
+   * `waitForRender` is false
+   */
+  exportOptions?: PDFExportOptions;
+}
+
+/**
+ * A problem found while validating a map spec
+ */
+export interface MapSpecIssue {
+  /**
+   * Location of the problem, such as `layers[1].style.weight`
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * A map spec rendered by `RenderPool`
+ */
+export interface RenderJob extends MapSpec {
+  /**
+   * Milliseconds before the job fails and its worker is restarted
+   * @default the pool's `jobTimeout`
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for `RenderPool`
+ *
+ * Every option is copied to the workers, so none may hold functions.
+ */
+export interface RenderPoolOptions {
+  /**
+   * Number of worker threads
+   * @default available parallelism minus one, at least 1
+   */
+  size?: number;
+
+  /**
+   * Maximum number of jobs waiting for a worker; further jobs are rejected
+   * with a RenderPoolError until the queue drains
+   * @default Infinity
+   */
+  maxQueue?: number;
+
+  /**
+   * Milliseconds a job may run before it fails and its worker is restarted
+   * @default 60000
+   */
+  jobTimeout?: number;
+
+  /**
+   * Default map size, animation, 3D transform and user agent settings of each worker's environment
+   */
+  environment?: Pick<HeadlessOptions, 'mapSize' | 'enableAnimations' | 'enable3dTransforms' | 'userAgent'>;
+
+  /**
+   * On-disk tile cache shared by the workers; each worker evicts down to an
+   * equal share of `maxSize`, so together they stay within it
+   */
+  tileCache?: TileCacheOptions;
+
+  /**
+   * Decoded-image cache settings of each worker
+   */
+  imageCache?: ImageCacheOptions;
+
+  /**
+   * Network settings of each worker; limits apply per worker
+   */
+  network?: NetworkOptions;
+
+  /**
+   * Offline mode of each worker
+   */
+  offline?: boolean | OfflineOptions;
+}
+
+/**
+ * Settings for strict offline mode
+ */
+export interface OfflineOptions {
+  /**
+   * Hosts that may still be reached, e.g. 'localhost', 'tiles.internal:8080'
+   * or '*.example.com'. Entries with a port only match that port.
+   * @default []
+   */
+  allowHosts?: string[];
+
+  /**
+   * Serve blocked URLs already present in the tile cache (fresh or stale)
+   * @default true
+   */
+  allowCache?: boolean;
+}
+
+/**
+ * Limits applied to requests against a single host
+ */
+export interface HostLimits {
+  /**
+   * Maximum simultaneous requests to the host
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum requests started per second against the host (0 for no cap)
+   */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Retry behaviour for transient fetch failures
+ */
+export interface RetryOptions {
+  /**
+   * Number of retries after the first attempt
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Base delay in milliseconds for exponential backoff
+   * @default 250
+   */
+  minDelay?: number;
+
+  /**
+   * Longest delay in milliseconds; a `Retry-After` beyond this fails the request
+   * @default 10000
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Network settings for image and tile fetches
+ */
+export interface NetworkOptions {
+  /**
+   * Maximum simultaneous requests across all hosts
+   * @default 16
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum simultaneous requests to any single host
+   * @default 6
+   */
+  maxConcurrencyPerHost?: number;
+
+  /**
+   * Maximum requests started per second against any single host (0 for no cap)
+   * @default 0
+   */
+  requestsPerSecondPerHost?: number;
+
+  /**
+   * Per-host overrides keyed by host (e.g. 'tile.openstreetmap.org')
+   */
+  hosts?: Record<string, HostLimits>;
+
+  /**
+   * Retries for network errors, 5xx and 429 responses
+   */
+  retry?: RetryOptions;
+
+  /**
+   * User-Agent header sent with image and tile requests (many tile
+   * providers require an identifying value)
+   */
+  userAgent?: string;
+
+  /**
+   * Referer header sent with image and tile requests
+   */
+  referer?: string;
+
+  /**
+   * Headers sent with every image and tile request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Headers added to requests whose URL matches a pattern, applied in order
+   */
+  headerRules?: RequestHeaderRule[];
+
+  /**
+   * Hook to rewrite (e.g. sign) each URL right before it is requested
+   */
+  signUrl?: UrlSigner;
+}
+
+/**
+ * URL matcher: a string with `*` wildcards matched against the whole URL,
+ * a regular expression, or a predicate
+ */
+export type UrlPattern = string | RegExp | ((url: string) => boolean);
+
+/**
+ * Rewrites a URL before it is requested, e.g. to add a signature
+ */
+export type UrlSigner = (url: string) => string | Promise<string>;
+
+/**
+ * Headers applied to requests matching a URL pattern
+ */
+export interface RequestHeaderRule {
+  match: UrlPattern;
+  headers: Record<string, string>;
+}
+
+/**
+ * Per-request overrides for image and tile fetches
+ */
+export interface ImageRequestOptions {
+  /**
+   * Headers taking precedence over global and pattern headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * URL signer used instead of the global one
+   */
+  signUrl?: UrlSigner;
+
+  /**
+   * Aborts this request, e.g. when the requesting image element's source
+   * changes before the load finishes. Requests for the same image share one
+   * load, whose HTTP request or protocol handler signal is aborted once all
+   * of them are. Aborted HTTP requests leave the request queue and are not
+   * retried.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Context passed to custom image protocol handlers
+ */
+export interface ImageProtocolContext {
+  /**
+   * Aborted when the image is no longer needed
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Value returned by a protocol handler: encoded image bytes or an already
+ * decoded @napi-rs/canvas Image
+ */
+export type ImageProtocolResult = Buffer | Uint8Array | ArrayBuffer | CanvasImage;
+
+/**
+ * Loads images for a custom URL scheme
+ */
+export type ImageProtocolHandler = (
+  url: string,
+  context: ImageProtocolContext
+) => ImageProtocolResult | Promise<ImageProtocolResult>;
+
+/**
+ * Parsed metadata table of an MBTiles archive
+ */
+export interface MBTilesMetadata {
+  name?: string;
+  /** Tile format, e.g. 'png', 'jpg', 'webp' or 'pbf' */
+  format?: string;
+  attribution?: string;
+  description?: string;
+  /** Bounds as [[south, west], [north, east]] */
+  bounds?: [[number, number], [number, number]];
+  center?: { lat: number; lng: number; zoom?: number };
+  minZoom?: number;
+  maxZoom?: number;
+  /** Every metadata row as stored in the archive */
+  raw: Record<string, string>;
+}
+
+/**
+ * Parsed header of a PMTiles (v3) archive
+ */
+export interface PMTilesHeader {
+  version: number;
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  leafDirectoryLength: number;
+  tileDataOffset: number;
+  tileDataLength: number;
+  clustered: boolean;
+  internalCompression: 'unknown' | 'none' | 'gzip' | 'brotli' | 'zstd';
+  tileCompression: 'unknown' | 'none' | 'gzip' | 'brotli' | 'zstd';
+  tileType: 'unknown' | 'mvt' | 'png' | 'jpeg' | 'webp' | 'avif';
+  minZoom: number;
+  maxZoom: number;
+  /** Bounds as [[south, west], [north, east]] */
+  bounds: [[number, number], [number, number]];
+  center: { lat: number; lng: number; zoom: number };
+}
+
+/**
+ * Tile layer factories leaflet-node adds to `L.tileLayer`
+ */
+export interface TileLayerFactoryExtensions {
+  /**
+   * Create a tile layer reading tiles from a local MBTiles file, using the
+   * archive's bounds, zoom range and attribution as defaults
+   */
+  mbtiles(file: string, options?: L.TileLayerOptions): L.TileLayer;
+
+  /**
+   * Create a tile layer reading raster tiles from a local PMTiles file, using
+   * the archive's bounds, zoom range and attribution as defaults
+   */
+  pmtiles(file: string, options?: L.TileLayerOptions): L.TileLayer;
+}
+
+/**
+ * Leaflet as set up by leaflet-node, with the extra tile layer factories
+ */
+export type HeadlessLeaflet = typeof L & {
+  tileLayer: typeof L.tileLayer & TileLayerFactoryExtensions;
+};
+
+declare module 'leaflet' {
+  interface TileLayerOptions {
+    /**
+     * Headers sent with this layer's tile requests (leaflet-node only)
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * URL signer for this layer's tile requests (leaflet-node only)
+     */
+    signUrl?: UrlSigner;
+  }
+}
+
+/**
+ * Options for the persistent on-disk tile cache
+ */
+export interface TileCacheOptions {
+  /**
+   * Directory where cached responses are stored
+   */
+  directory: string;
+
+  /**
+   * Maximum total size of cached bodies in bytes; least recently used
+   * entries are evicted beyond this
+   * @default 268435456 (256 MiB)
+   */
+  maxSize?: number;
+
+  /**
+   * Freshness lifetime in milliseconds for responses that carry no
+   * `Cache-Control: max-age` or `Expires` header
+   * @default 86400000 (24 hours)
+   */
+  ttl?: number;
+
+  /**
+   * Serve cached entries (even stale ones) without touching the network,
+   * failing on cache misses
+   * @default false
+   */
+  offline?: boolean;
+}
+
+/**
+ * Options for the in-memory decoded-image cache
+ */
+export interface ImageCacheOptions {
+  /**
+   * Pixel memory budget in bytes (width × height × 4 per image)
+   * @default 268435456 (256 MiB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Set to false to decode every image on each request
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Counters and memory usage of the decoded-image cache
+ */
+export interface ImageCacheStats {
+  /** Requests served from a cached decoded image */
+  hits: number;
+  /** Requests that had to load and decode the image */
+  misses: number;
+  /** Requests that joined an already in-flight load */
+  deduplicated: number;
+  /** Images dropped to stay within the memory budget */
+  evictions: number;
+  /** Number of cached images */
+  entries: number;
+  /** Pixel memory held by cached images */
+  bytes: number;
+  /** Configured memory budget */
+  maxBytes: number;
 }
 
 /**
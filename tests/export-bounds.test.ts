@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Readable } from 'stream';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { clearImageCache } from '../src/image-cache.js';
+import { decodePng } from './helpers/decode-png.js';
+
+async function collect(stream: Readable): Promise<{ buffer: Buffer; pieces: number }> {
+  const pieces: Buffer[] = [];
+  for await (const piece of stream) {
+    pieces.push(piece as Buffer);
+  }
+  return { buffer: Buffer.concat(pieces), pieces: pieces.length };
+}
+
+describe('exportBounds', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeEach(() => {
+    clearImageCache();
+    registerImageProtocol('poster', async (url) => {
+      // Every tile gets its own colour and a diagonal so misplaced chunks show up
+      const [, z, x, y] = /poster:\/\/(\d+)\/(\d+)\/(\d+)/.exec(url)!.map(Number);
+      const canvas = createCanvas(256, 256);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = `rgb(${(x * 67) % 256}, ${(y * 131) % 256}, ${(z * 40) % 256})`;
+      ctx.fillRect(0, 0, 256, 256);
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(256, 256);
+      ctx.stroke();
+      return await canvas.encode('png');
+    });
+
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([10, 20], 2);
+    map.setSize(300, 200);
+    L.tileLayer('poster://{z}/{x}/{y}').addTo(map);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+    unregisterImageProtocol('poster');
+  });
+
+  it('stitches chunks into the same image as a single render', async () => {
+    L.circleMarker([0, 0], { radius: 30, color: '#0000ff' }).addTo(map);
+    const bounds = L.latLngBounds([-40, -60], [40, 60]);
+
+    const whole = await decodePng((await collect(map.exportBounds(bounds, { zoom: 3, chunkSize: 2048 }))).buffer);
+    const chunked = await collect(map.exportBounds(bounds, { zoom: 3, chunkSize: 100 }));
+    const stitched = await decodePng(chunked.buffer);
+
+    const nw = map.project(bounds.getNorthWest(), 3).round();
+    const se = map.project(bounds.getSouthEast(), 3);
+    expect([stitched.width, stitched.height]).toEqual([Math.round(se.x - nw.x), Math.round(se.y - nw.y)]);
+    expect([whole.width, whole.height]).toEqual([stitched.width, stitched.height]);
+    expect(chunked.pieces).toBeGreaterThan(3);
+
+    let differing = 0;
+    for (let i = 0; i < whole.data.length; i += 4) {
+      if (Math.abs(whole.data[i] - stitched.data[i]) > 2 || Math.abs(whole.data[i + 2] - stitched.data[i + 2]) > 2) {
+        differing++;
+      }
+    }
+    expect(differing).toBe(0);
+  });
+
+  it('fits the bounds into a requested output size', async () => {
+    const bounds = L.latLngBounds([-40, -60], [40, 60]);
+
+    const sized = await decodePng((await collect(map.exportBounds(bounds, { width: 900, height: 900, chunkSize: 512 }))).buffer);
+    expect([sized.width, sized.height]).toEqual([900, 900]);
+
+    const aspect = await decodePng((await collect(map.exportBounds(bounds, { width: 600 }))).buffer);
+    const nw = map.project(bounds.getNorthWest(), 0);
+    const se = map.project(bounds.getSouthEast(), 0);
+    expect(aspect.width).toBe(600);
+    expect(aspect.height).toBe(Math.round(600 * (se.y - nw.y) / (se.x - nw.x)));
+  });
+
+  it('restores the map size and view afterwards', async () => {
+    await collect(map.exportBounds([[-10, -10], [10, 10]], { zoom: 4, chunkSize: 128 }));
+
+    expect(map.getSize()).toEqual(L.point(300, 200));
+    expect(map.getZoom()).toBe(2);
+    expect(map.getCenter().lat).toBeCloseTo(10, 6);
+    expect(map.getCenter().lng).toBeCloseTo(20, 6);
+  });
+
+  it('validates its options before rendering', () => {
+    const bounds: L.LatLngBoundsExpression = [[-10, -10], [10, 10]];
+
+    expect(() => map.exportBounds(bounds, {})).toThrow('requires either a zoom or an output width');
+    expect(() => map.exportBounds(bounds, { zoom: 3, width: 100 })).toThrow('requires either a zoom or an output width');
+    expect(() => map.exportBounds(bounds, { width: 0 })).toThrow('width must be a positive integer');
+    expect(() => map.exportBounds(bounds, { zoom: 3, chunkSize: 1.5 })).toThrow('chunkSize must be a positive integer');
+    expect(() => map.exportBounds(bounds, { zoom: 2.5 })).toThrow('not a valid zoom level');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { pdfContent } from './helpers/pdf-content.js';
+
+const opaque = (rgba: number[]) => rgba[3] > 0;
+
+describe('Map controls in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(300, 200);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('draws the attribution in the bottom right corner, growing with layer attributions', async () => {
+    const prefixOnly = await decodePng(await map.toBuffer('png', { controls: true }));
+    const prefix = prefixOnly.find(0, 185, 300, 15, opaque);
+    // Flush against the corner, as the attribution control has no margin
+    expect(prefix.right).toBe(300);
+    expect(prefixOnly.pixel(299, 199)[3]).toBeGreaterThan(0);
+
+    L.tileLayer('data:,', { attribution: '&copy; <a href="https://osm.org">OpenStreetMap</a> contributors' }).addTo(map);
+    const withLayer = (await decodePng(await map.toBuffer('png', { controls: true }))).find(0, 185, 300, 15, opaque);
+    expect(withLayer.right).toBe(300);
+    expect(withLayer.left).toBeLessThan(prefix.left - 100);
+
+    const hidden = await decodePng(await map.toBuffer('png', { controls: { attribution: false } }));
+    expect(hidden.find(0, 185, 300, 15, opaque).count).toBe(0);
+  });
+
+  it('draws scale bars as wide as Leaflet computed them for the current view', async () => {
+    const scale = L.control.scale({ imperial: false }).addTo(map);
+    const bar = (scale as any)._mScale as HTMLElement;
+    const width = parseFloat(bar.style.width);
+    expect(width).toBeGreaterThan(30);
+
+    const image = await decodePng(await map.toBuffer('png', { controls: { attribution: false } }));
+    const gray = image.find(0, 170, 300, 30, (rgba) => rgba[0] === 119 && rgba[1] === 119 && rgba[2] === 119 && rgba[3] === 255);
+    // 5px from the map edge, with the width given to the line by Leaflet
+    expect(gray.left).toBe(5);
+    expect(gray.right).toBe(5 + width);
+    expect(image.pixel(6, 194)).toEqual([119, 119, 119, 255]);
+
+    map.setZoom(6);
+    const zoomedWidth = parseFloat(bar.style.width);
+    const zoomed = await decodePng(await map.toBuffer('png', { controls: { attribution: false } }));
+    const zoomedGray = zoomed.find(0, 170, 300, 30, (rgba) => rgba[0] === 119 && rgba[1] === 119 && rgba[2] === 119 && rgba[3] === 255);
+    expect(zoomedGray.right).toBe(5 + zoomedWidth);
+  });
+
+  it('draws the zoom buttons unless switched off', async () => {
+    const image = await decodePng(await map.toBuffer('png', { controls: true }));
+    // Inside the zoom in button, clear of its + sign
+    expect(image.pixel(16, 16)).toEqual([255, 255, 255, 255]);
+    expect(image.find(10, 10, 40, 60, (rgba) => rgba[3] === 255 && rgba[0] < 50).count).toBeGreaterThan(20);
+
+    const hidden = await decodePng(await map.toBuffer('png', { controls: { zoom: false } }));
+    expect(hidden.pixel(16, 16)[3]).toBe(0);
+
+    const none = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(none.find(0, 0, 300, 200, opaque).count).toBe(0);
+  });
+
+  it('leaves controls out unless asked for', async () => {
+    L.control.scale().addTo(map);
+
+    const image = await decodePng(await map.toBuffer('png'));
+    expect(image.find(0, 0, 300, 200, opaque).count).toBe(0);
+    expect(await map.toSVG()).not.toContain('leaflet-control');
+  });
+
+  it('stacks custom controls in their corner from their HTML', async () => {
+    const Swatch = L.Control.extend({
+      onAdd() {
+        const swatch = L.DomUtil.create('div');
+        swatch.style.cssText = `width: 20px; height: 20px; background: ${this.options.color};`;
+        return swatch;
+      },
+    });
+    new (Swatch as any)({ position: 'topright', color: '#ff0000' }).addTo(map);
+    new (Swatch as any)({ position: 'topright', color: '#0000ff' }).addTo(map);
+
+    const image = await decodePng(await map.toBuffer('png', { controls: true }));
+    // 10px margins from the corner and between the controls
+    expect(image.pixel(270, 10)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(289, 29)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(289, 31)[3]).toBe(0);
+    expect(image.pixel(270, 40)).toEqual([0, 0, 255, 255]);
+
+    const hidden = await decodePng(await map.toBuffer('png', { controls: { custom: false } }));
+    expect(hidden.pixel(270, 10)[3]).toBe(0);
+  });
+
+  it('includes controls in SVG and PDF exports', async () => {
+    const svg = await map.toSVG({ controls: true });
+    expect(svg).toMatch(/<image class="leaflet-control-zoom leaflet-bar leaflet-control" x="10" y="10"/);
+    expect(svg).toContain('<image class="leaflet-control-attribution leaflet-control"');
+    expect(await map.toSVG({ controls: false })).not.toContain('leaflet-control');
+
+    const content = pdfContent(await map.toPDF({ controls: true }));
+    expect(content).toMatch(/\( ?Leaflet\) Tj/);
+    expect(content).toContain('(\\226) Tj');
+  });
+});
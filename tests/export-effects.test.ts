@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { square } from './helpers/markers.js';
+import { pdfContent } from './helpers/pdf-content.js';
+
+describe('CSS filters and blend modes in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let style: HTMLStyleElement;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    style = document.createElement('style');
+    document.head.appendChild(style);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(200, 200);
+
+    registerImageProtocol('flat', async () => {
+      const canvas = createCanvas(256, 256);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = '#ff0000';
+      ctx.fillRect(0, 0, 256, 256);
+      return canvas.toBuffer('image/png');
+    });
+  });
+
+  afterEach(() => {
+    unregisterImageProtocol('flat');
+    map.remove();
+    element.remove();
+    style.remove();
+  });
+
+  it('applies filters from a stylesheet to tile layers with a className', async () => {
+    style.textContent = '.muted { filter: grayscale(1) brightness(0.8); }';
+    L.tileLayer('flat://{z}/{x}/{y}', { className: 'muted' }).addTo(map);
+    await map.whenRendered();
+
+    // Red turned to its luminance, then darkened
+    const [r, g, b, a] = (await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100);
+    expect(r).toBeCloseTo(43, -1);
+    expect(g).toBe(r);
+    expect(b).toBe(r);
+    expect(a).toBe(255);
+
+    const svg = await map.toSVG({ controls: false });
+    expect(svg).toMatch(/<g style="filter: grayscale\(1\) brightness\(0.8\)">\s*<image class="leaflet-tile/);
+  });
+
+  it('applies inline filters on panes and scales blur with the output', async () => {
+    map.createPane('inverted').style.filter = 'invert(1)';
+    square(map, '#ff0000', { pane: 'inverted' });
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([0, 255, 255, 255]);
+
+    map.getPane('inverted')!.style.filter = 'blur(4px)';
+    // The square's edge at x = 80 is softened over the blur radius
+    const blurred = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(blurred.pixel(80, 100)[3]).toBeGreaterThan(64);
+    expect(blurred.pixel(80, 100)[3]).toBeLessThan(192);
+    expect(blurred.pixel(76, 100)[3]).toBeGreaterThan(0);
+    const hiDpi = await decodePng(await map.toBuffer('png', { controls: false, scale: 2 }));
+    expect(hiDpi.pixel(152, 200)[3]).toBeCloseTo(blurred.pixel(76, 100)[3], -1.5);
+  });
+
+  it('blends panes with mix-blend-mode', async () => {
+    L.tileLayer('flat://{z}/{x}/{y}').addTo(map);
+    await map.whenRendered();
+    const pane = map.createPane('overlay');
+    square(map, '#ffff00', { pane: 'overlay' });
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([255, 255, 0, 255]);
+
+    // Yellow multiplied with the red tiles below leaves red
+    pane.style.mixBlendMode = 'multiply';
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([255, 0, 0, 255]);
+    expect(await map.toSVG({ controls: false })).toContain('<g style="mix-blend-mode: multiply">');
+    expect((await map.toPDF({ controls: false })).toString('latin1')).toMatch(/\/ExtGState << [^>]*\/BM \/Multiply >>/);
+  });
+
+  it('rasterises filtered groups in PDF exports', async () => {
+    const pane = map.createPane('gray');
+    pane.style.filter = 'grayscale(1)';
+    L.circle(map.getCenter(), { radius: 500000, renderer: L.canvas({ pane: 'gray' }), color: '#ff0000' }).addTo(map);
+    await map.whenRendered();
+
+    const filtered = pdfContent(await map.toPDF({ controls: false }));
+    expect(filtered).toContain('/Im1 Do');
+    expect(filtered).not.toContain('1 0 0 RG');
+
+    pane.style.filter = '';
+    const plain = pdfContent(await map.toPDF({ controls: false }));
+    expect(plain).not.toContain('/Im1 Do');
+    expect(plain).toContain('1 0 0 RG');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Image as CanvasImage } from '@napi-rs/canvas';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { ensureTileFixture, getTileFixtureUrl } from './helpers/tile-fixture.js';
+
+function isWebp(buffer: Buffer): boolean {
+  return buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP';
+}
+
+function isAvif(buffer: Buffer): boolean {
+  return buffer.toString('ascii', 4, 8) === 'ftyp' && buffer.toString('ascii', 8, 12) === 'avif';
+}
+
+describe('Export formats', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let outDir: string;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-formats-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(outDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 0);
+    map.setSize(128, 128);
+    L.tileLayer(getTileFixtureUrl()).addTo(map);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('encodes WebP and AVIF buffers that decode back to the map size', async () => {
+    const webp = await map.toBuffer('webp', { waitForRender: true });
+    const avif = await map.toBuffer('avif');
+
+    expect(isWebp(webp)).toBe(true);
+    expect(isAvif(avif)).toBe(true);
+
+    const decoded = new CanvasImage();
+    await new Promise<void>((resolve, reject) => {
+      decoded.onload = () => resolve();
+      decoded.onerror = reject;
+      decoded.src = webp;
+    });
+    expect(decoded.width).toBe(128);
+    expect(decoded.height).toBe(128);
+  });
+
+  it('applies the quality setting to lossy formats', async () => {
+    await map.whenRendered();
+
+    const low = await map.toBuffer('webp', { quality: 5 });
+    const high = await map.toBuffer('webp', { quality: 95 });
+    const lowJpeg = await map.toBuffer('jpeg', { quality: 5 });
+    const highJpeg = await map.toBuffer('jpeg', { quality: 95 });
+
+    expect(low.length).toBeLessThan(high.length);
+    expect(lowJpeg.length).toBeLessThan(highJpeg.length);
+    await expect(map.toBuffer('webp', { quality: 150 })).rejects.toThrow('between 0 and 100');
+  });
+
+  it('infers the saveImage format from the file extension', async () => {
+    await map.whenRendered();
+
+    const expectations: Array<[string, (buffer: Buffer) => boolean]> = [
+      ['map.png', (buffer) => buffer.toString('hex', 0, 8) === '89504e470d0a1a0a'],
+      ['map.JPG', (buffer) => buffer.toString('hex', 0, 3) === 'ffd8ff'],
+      ['map.webp', isWebp],
+      ['map.avif', isAvif],
+      ['map', (buffer) => buffer.toString('hex', 0, 8) === '89504e470d0a1a0a'],
+    ];
+
+    for (const [name, matches] of expectations) {
+      const filename = await map.saveImage(path.join(outDir, name), { quality: 80 });
+      expect(matches(await fs.readFile(filename))).toBe(true);
+    }
+  });
+
+  it('writes PNG for unrecognised file extensions', async () => {
+    const filename = await map.saveImage(path.join(outDir, 'map.gif'));
+    expect((await fs.readFile(filename)).toString('hex', 0, 8)).toBe('89504e470d0a1a0a');
+  });
+});
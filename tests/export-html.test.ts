@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { pdfContent } from './helpers/pdf-content.js';
+
+describe('HTML layers in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let stylesheet: HTMLStyleElement;
+
+  beforeEach(() => {
+    stylesheet = document.createElement('style');
+    stylesheet.textContent = `
+      .pin { background: #ff0000; border: 3px solid #0000ff; border-radius: 50%; box-sizing: border-box; }
+      .pin span { color: #ffffff; font-size: 16px; font-weight: bold; }
+    `;
+    document.head.appendChild(stylesheet);
+
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(200, 200);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+    stylesheet.remove();
+  });
+
+  it('draws divIcon backgrounds, borders and rounded corners', async () => {
+    L.marker([0, 0], { icon: L.divIcon({ className: 'pin', iconSize: [40, 40] }) }).addTo(map);
+
+    const image = await decodePng(await map.toBuffer('png'));
+    expect(image.pixel(100, 100)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(81, 100)).toEqual([0, 0, 255, 255]);
+    // Corners fall outside the circle
+    expect(image.pixel(82, 82)[3]).toBe(0);
+  });
+
+  it('applies the default Leaflet divIcon style', async () => {
+    L.marker([0, 0], { icon: L.divIcon() }).addTo(map);
+
+    const image = await decodePng(await map.toBuffer('png'));
+    expect(image.pixel(100, 100)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(94, 100)).toEqual([102, 102, 102, 255]);
+    expect(image.pixel(90, 100)[3]).toBe(0);
+  });
+
+  it('draws text content with its font styles', async () => {
+    const icon = (html: string) => L.divIcon({ className: 'pin', iconSize: [40, 40], html });
+    const blank = L.marker([0, 0], { icon: icon('') }).addTo(map);
+    const before = await decodePng(await map.toBuffer('png'));
+    blank.remove();
+
+    L.marker([0, 0], { icon: icon('<span>42</span>') }).addTo(map);
+    const after = await decodePng(await map.toBuffer('png'));
+
+    const white = (rgba: number[]) => rgba[0] > 200 && rgba[1] > 200 && rgba[2] > 200;
+    expect(before.count(80, 80, 40, 40, white)).toBe(0);
+    // Text starts at the top left of the content box
+    expect(after.count(83, 83, 20, 18, white)).toBeGreaterThan(10);
+  });
+
+  it('positions nested absolute elements and inline SVG', async () => {
+    L.marker([0, 0], {
+      icon: L.divIcon({
+        className: '',
+        iconSize: [40, 20],
+        html:
+          '<div style="position: relative; width: 40px; height: 20px; background: #00ff00">' +
+          '<svg width="10" height="10" viewBox="0 0 2 2" style="color: #0000ff"><rect width="2" height="2" fill="currentColor"/></svg>' +
+          '<span style="position: absolute; right: -5px; top: -5px; width: 10px; height: 10px; background: #ff0000"></span>' +
+          '</div>',
+      }),
+    }).addTo(map);
+
+    const image = await decodePng(await map.toBuffer('png'));
+    // Icon spans 80..120 horizontally and 90..110 vertically
+    expect(image.pixel(110, 105)).toEqual([0, 255, 0, 255]);
+    expect(image.pixel(84, 94)).toEqual([0, 0, 255, 255]);
+    expect(image.pixel(122, 88)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('draws GridLayer tiles built from divs', async () => {
+    const Grid = L.GridLayer.extend({
+      createTile(coords: L.Coords) {
+        const tile = document.createElement('div');
+        tile.style.background = (coords.x + coords.y) % 2 === 0 ? '#ff00ff' : '#00ffff';
+        return tile;
+      },
+    });
+    new Grid().addTo(map);
+    await map.whenRendered();
+
+    const image = await decodePng(await map.toBuffer('png'));
+    // Zoom 1 shows the four tiles around the map centre
+    expect(image.pixel(50, 50)).toEqual([255, 0, 255, 255]);
+    expect(image.pixel(150, 50)).toEqual([0, 255, 255, 255]);
+    expect(image.pixel(150, 150)).toEqual([255, 0, 255, 255]);
+  });
+
+  it('embeds HTML layers in SVG and PDF exports', async () => {
+    L.marker([0, 0], { icon: L.divIcon({ className: 'pin', iconSize: [40, 40], html: '<span>7</span>' }) }).addTo(map);
+
+    const svg = await map.toSVG();
+    expect(svg).toMatch(/<image class="leaflet-marker-icon pin[^"]*" x="80" y="80" width="40" height="40"/);
+
+    const content = pdfContent(await map.toPDF());
+    expect(content).toContain('(7) Tj');
+    expect(content).toMatch(/W n/);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promises as fs } from 'fs';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { ensureTileFixture, getTileFixtureUrl } from './helpers/tile-fixture.js';
+
+interface PdfObject {
+  id: number;
+  dictionary: string;
+  stream: Buffer | null;
+}
+
+/**
+ * Minimal reader for the uncompressed object structure written by toPDF
+ */
+function readPdf(pdf: Buffer): { objects: PdfObject[]; content: string; mediaBox: number[] } {
+  const text = pdf.toString('latin1');
+  const objects: PdfObject[] = [];
+  const pattern = /(\d+) 0 obj\n<< ([\s\S]*?) >>\n(stream\n|endobj)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    let stream: Buffer | null = null;
+    if (match[3] === 'stream\n') {
+      const length = parseInt(/\/Length (\d+)/.exec(match[2])![1], 10);
+      const start = match.index + match[0].length;
+      stream = pdf.subarray(start, start + length);
+      if (match[2].includes('/FlateDecode')) {
+        stream = zlib.inflateSync(stream);
+      }
+    }
+    objects.push({ id: Number(match[1]), dictionary: match[2], stream });
+  }
+
+  const page = objects.find((object) => object.dictionary.includes('/Type /Page '))!;
+  const contentId = /\/Contents (\d+) 0 R/.exec(page.dictionary)![1];
+  const content = objects.find((object) => object.id === Number(contentId))!.stream!.toString('latin1');
+  const mediaBox = /\/MediaBox \[([^\]]+)\]/.exec(page.dictionary)![1].split(' ').map(Number);
+
+  return { objects, content, mediaBox };
+}
+
+describe('PDF export', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+  });
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 2);
+    map.setSize(400, 300);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('writes a well-formed single page document', async () => {
+    const pdf = await map.toPDF();
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    // Every xref entry points at the start of its object
+    const startxref = parseInt(/startxref\n(\d+)/.exec(text)![1], 10);
+    const entries = text.substring(startxref).split('\n').filter((line) => / 00000 n $/.test(line));
+    entries.forEach((entry, index) => {
+      const offset = parseInt(entry.substring(0, 10), 10);
+      expect(text.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+    });
+  });
+
+  it('applies page size, orientation and margins', async () => {
+    expect(readPdf(await map.toPDF()).mediaBox).toEqual([0, 0, 595.28, 841.89]);
+    expect(readPdf(await map.toPDF({ pageSize: 'A4', orientation: 'landscape' })).mediaBox).toEqual([0, 0, 841.89, 595.28]);
+    expect(readPdf(await map.toPDF({ pageSize: [500, 400], orientation: 'portrait' })).mediaBox).toEqual([0, 0, 400, 500]);
+
+    await expect(map.toPDF({ pageSize: 'A4', margin: 400 })).rejects.toThrow('no room for the map');
+  });
+
+  it('places the map at the requested DPI, shrinking it to fit the page', async () => {
+    // 72 DPI maps one pixel to one point, centred within the margins of a Letter page
+    const atPoints = readPdf(await map.toPDF({ pageSize: 'Letter', dpi: 72 }));
+    expect(atPoints.content).toContain('1 0 0 -1 106 546 cm');
+
+    const highDpi = readPdf(await map.toPDF({ pageSize: 'Letter', dpi: 144, margin: 0 }));
+    expect(highDpi.content).toContain('0.5 0 0 -0.5 206 471 cm');
+
+    const fitted = readPdf(await map.toPDF({ pageSize: [200, 200], dpi: 72, margin: 0 }));
+    expect(fitted.content).toContain('0.5 0 0 -0.5 0 175 cm');
+  });
+
+  it('embeds tiles and icons as images and keeps vector layers as paths', async () => {
+    L.tileLayer(getTileFixtureUrl()).addTo(map);
+    L.marker([0, 0]).addTo(map);
+    L.polyline([[0, -60], [0, 60]], { color: '#ff0000', weight: 6, dashArray: '10 5' }).addTo(map);
+    L.circleMarker([20, 20], { radius: 15, color: '#0000ff', fillOpacity: 0.5 }).addTo(map);
+
+    const { objects, content } = readPdf(await map.toPDF({ waitForRender: true }));
+    const images = objects.filter((object) => object.dictionary.includes('/Subtype /Image /Width'));
+
+    expect(images.some((image) => image.dictionary.includes('/Width 256 /Height 256'))).toBe(true);
+    expect(images.some((image) => image.dictionary.includes('/SMask'))).toBe(true);
+    expect(content).toMatch(/\/Im\d+ Do/);
+
+    // Dashed red polyline stroke
+    expect(content).toMatch(/1 0 0 RG\n6 w\n1 J\n1 j\n10 M\n\[10 5\] 0 d\n[-\d.]+ [-\d.]+ m\n[-\d.]+ [-\d.]+ l\nS/);
+    // Circle marker built from curves, filled at half opacity with the even-odd rule
+    expect(content).toMatch(/\/GS\d+ gs\n0 0 1 rg\n[-\d.]+ [-\d.]+ m\n([-\d.]+ ){6}c\n([-\d.]+ ){6}c\n([-\d.]+ ){6}c\n([-\d.]+ ){6}c\nf\*/);
+    expect(objects.some((object) => /\/GS\d+ << \/Type \/ExtGState \/ca 0.5 \/CA 1 >>/.test(object.dictionary))).toBe(true);
+  });
+
+  it('writes popup text as selectable text', async () => {
+    L.popup().setLatLng([0, 0]).setContent('Hello <b>PDF</b> café (x)<br>Second line').openOn(map);
+
+    const { content } = readPdf(await map.toPDF());
+
+    // One run per style, with the bold run in the bold font
+    expect(content).toMatch(/\/F1 13 Tf\n1 0 0 -1 [-\d.]+ [-\d.]+ Tm\n\(Hello \) Tj/);
+    expect(content).toMatch(/\/F2 13 Tf\n1 0 0 -1 [-\d.]+ [-\d.]+ Tm\n\(PDF\) Tj/);
+    expect(content).toContain('( caf\\351 \\(x\\)) Tj');
+    expect(content).toContain('(Second line) Tj');
+  });
+
+  describe('saveImage', () => {
+    let outDir: string;
+
+    beforeAll(async () => {
+      outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-pdf-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(outDir, { recursive: true, force: true });
+    });
+
+    it('writes PDF documents for .pdf filenames with page options', async () => {
+      L.circleMarker([0, 0], { radius: 20 }).addTo(map);
+
+      const filename = await map.saveImage(path.join(outDir, 'map.pdf'), { pageSize: 'Letter', orientation: 'landscape' });
+      const { mediaBox, content } = readPdf(await fs.readFile(filename));
+
+      expect(mediaBox).toEqual([0, 0, 792, 612]);
+      expect(content).toContain(' c\n');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { pdfContent } from './helpers/pdf-content.js';
+
+/**
+ * Text runs written to a PDF content stream with their font and position
+ */
+function pdfTextRuns(content: string): { text: string; font: string; x: number; y: number }[] {
+  const pattern = /\/(F\d) [\d.]+ Tf\n1 0 0 -1 ([-\d.]+) ([-\d.]+) Tm\n\((.*)\) Tj/g;
+  return Array.from(content.matchAll(pattern), ([, font, x, y, text]) => ({ text, font, x: Number(x), y: Number(y) }));
+}
+
+const white = (rgba: number[]) => rgba[0] === 255 && rgba[1] === 255 && rgba[2] === 255 && rgba[3] === 255;
+
+describe('Popups in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(600, 400);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  const openAt = (x: number, y: number, content: string, options: L.PopupOptions = {}) =>
+    L.popup(options).setLatLng(map.containerPointToLatLng([x, y])).setContent(content).openOn(map);
+
+  it('wraps long lines at maxWidth as Leaflet sizes the content', async () => {
+    const text = 'A rather long line of popup text that cannot possibly fit in a narrow popup';
+    const popup = openAt(300, 350, text, { maxWidth: 150 });
+    const narrow = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect((popup as any)._contentNode.style.width).toBe('151px');
+
+    // Content, content margins (20px and 24px) and the wrapper's 1px padding
+    const narrowWidth = narrow.span('row', 300, white);
+    expect(narrowWidth.end - narrowWidth.start).toBeCloseTo(151 + 44 + 2, -0.5);
+    const narrowHeight = narrow.span('column', 300, white);
+
+    openAt(300, 350, text, { maxWidth: 600 });
+    const wide = await decodePng(await map.toBuffer('png', { controls: false }));
+    const wideHeight = wide.span('column', 300, white);
+    expect(wide.span('row', 330, white).end - wide.span('row', 330, white).start).toBeGreaterThan(400);
+    // Each wrapped line adds its 1.3 line height
+    expect(narrowHeight.end - narrowHeight.start).toBeGreaterThan(wideHeight.end - wideHeight.start + 3 * 16);
+  });
+
+  it('clips content taller than maxHeight', async () => {
+    const popup = openAt(300, 350, '<p>one</p><p>two</p><p>three</p><p>four</p>', { maxHeight: 50 });
+    const image = await decodePng(await map.toBuffer('png', { controls: false }));
+
+    const content: HTMLElement = (popup as any)._contentNode;
+    expect(content.style.height).toBe('50px');
+    expect(content.classList.contains('leaflet-popup-scrolled')).toBe(true);
+
+    // 50px of content between 13px margins and the wrapper padding, above the tip
+    const height = image.span('column', 280, white);
+    expect(height.end - height.start).toBeCloseTo(50 + 26 + 2, -0.5);
+
+    const svg = await map.toSVG({ controls: false });
+    expect(svg).toMatch(/<clipPath id="leaflet-popup-clip-1"><rect [^>]*height="50"\/><\/clipPath><g clip-path="url\(#leaflet-popup-clip-1\)">/);
+  });
+
+  it('keeps inline formatting, list markers and table columns', async () => {
+    openAt(300, 380, [
+      '<b>Depot</b> <i>north</i> <a href="#">link</a>',
+      '<ul><li>Apples</li></ul>',
+      '<ol start="3"><li>Pears</li><li value="9">Plums</li></ol>',
+      '<table><tr><th>Name</th><th>Count</th></tr><tr><td>Alpha</td><td>12</td></tr></table>',
+    ].join(''));
+
+    const runs = pdfTextRuns(pdfContent(await map.toPDF({ controls: false })));
+    const run = (text: string) => runs.find((candidate) => candidate.text === text)!;
+
+    expect(run('Depot').font).toBe('F2');
+    expect(run('link').font).toBe('F1');
+    expect(run('\\225').y).toBe(run('Apples').y);
+    expect(run('\\225').x).toBeLessThan(run('Apples').x);
+    expect(run('3.').y).toBe(run('Pears').y);
+    expect(run('9.').y).toBe(run('Plums').y);
+
+    // Cells line up in columns, with bold, centred headers
+    expect(run('Name').font).toBe('F2');
+    expect(run('Count').y).toBe(run('Name').y);
+    expect(run('12').y).toBe(run('Alpha').y);
+    expect(run('Alpha').y).toBeGreaterThan(run('Name').y);
+    expect(run('12').x).toBeGreaterThan(run('Alpha').x + 20);
+    expect(run('12').x).toBeGreaterThan(run('Name').x + 20);
+  });
+
+  it('draws images in popup content', async () => {
+    registerImageProtocol('popup', async () => {
+      const canvas = createCanvas(40, 30);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = '#ff0000';
+      ctx.fillRect(0, 0, 40, 30);
+      return canvas.toBuffer('image/png');
+    });
+
+    try {
+      openAt(300, 350, '<img src="popup://red.png"><br>Caption');
+      const image = await decodePng(await map.toBuffer('png', { controls: false }));
+      const red = (rgba: number[]) => rgba[0] === 255 && rgba[1] === 0 && rgba[2] === 0;
+
+      const column = image.span('column', 300, white);
+      const redRow = image.span('row', column.start + 1 + 13 + 15, red);
+      expect(redRow.end - redRow.start).toBeCloseTo(40, -0.5);
+
+      const svg = await map.toSVG({ controls: false });
+      const popup = svg.slice(svg.indexOf('<g class="leaflet-popup">')).split('</g>')[0];
+      expect(popup).toContain('<image');
+      expect(popup).toMatch(/<text [^>]*>Caption<\/text>/);
+    } finally {
+      unregisterImageProtocol('popup');
+    }
+  });
+
+  const popupEdges = (svg: string) => {
+    const [, top, right] = /<g class="leaflet-popup"><path d="M[-\d.]+,([-\d.]+) L[-\d.]+,[-\d.]+ Q([-\d.]+),/.exec(svg)!.map(Number);
+    return { top, right };
+  };
+
+  it('pans exports so autoPan popups are fully visible, leaving the view as it was', async () => {
+    const center = map.getCenter();
+    const popup = openAt(590, 30, '<b>Edge</b> popup near the corner', { autoPanPadding: [10, 10] });
+    await map.toBuffer('png', { controls: false });
+    expect(map.getCenter()).toEqual(center);
+
+    // The wrapper's right edge and top sit 10px inside the map
+    const { top, right } = popupEdges(await map.toSVG({ controls: false }));
+    expect(right).toBeCloseTo(590, 0);
+    expect(top).toBeCloseTo(10, 0);
+    expect(map.getCenter()).toEqual(center);
+
+    // Moving the map settles the pan, as it would have happened on open
+    map.panBy([-200, 0], { animate: false });
+    expect(popupEdges(await map.toSVG({ controls: false })).right).toBeGreaterThan(600);
+    expect(map.latLngToContainerPoint(popup.getLatLng()).x).toBeGreaterThan(600);
+  });
+
+  it('keeps keepInView popups in view after the map moves, and honours autoPan: false', async () => {
+    openAt(300, 200, 'Kept', { keepInView: true });
+    map.panBy([400, 0], { animate: false });
+    const center = map.getCenter();
+    const { right } = popupEdges(await map.toSVG({ controls: false }));
+    expect(right).toBeGreaterThan(0);
+    expect(right).toBeLessThanOrEqual(600);
+    expect(map.getCenter()).toEqual(center);
+
+    map.closePopup();
+    openAt(590, 30, 'Not panned', { autoPan: false });
+    expect(popupEdges(await map.toSVG({ controls: false })).right).toBeGreaterThan(600);
+    expect(map.getCenter()).toEqual(center);
+  });
+
+  it('draws the close button unless it is disabled', async () => {
+    const gray = (rgba: number[]) => rgba[3] === 255 && rgba[0] < 200 && rgba[0] === rgba[1] && rgba[1] === rgba[2];
+
+    openAt(300, 300, 'Closable');
+    const closable = await decodePng(await map.toBuffer('png', { controls: false }));
+    // The × glyph in the wrapper's top right 24px square
+    const top = closable.span('column', 300, white).start;
+    const right = closable.span('row', top + 12, white).end;
+    expect(closable.count(right - 24, top, 24, 24, gray)).toBeGreaterThan(10);
+    expect(await map.toSVG({ controls: false })).toMatch(/<text [^>]*fill="rgb\(117, 117, 117\)"[^>]*>×<\/text>/);
+
+    openAt(300, 300, 'Closable', { closeButton: false });
+    const plain = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(plain.count(right - 24, top, 24, 24, gray)).toBe(0);
+    expect(await map.toSVG({ controls: false })).not.toContain('>×</text>');
+  });
+
+  it('leaves out the bubble, tip and close button without popup chrome', async () => {
+    openAt(300, 300, '<b>Label</b>');
+    const image = await decodePng(await map.toBuffer('png', { controls: false, popupChrome: false }));
+    expect(image.span('column', 300, white).start).toBe(Infinity);
+    expect(image.span('row', 275, (rgba) => rgba[3] > 0).start).toBeLessThan(Infinity);
+
+    const svg = await map.toSVG({ controls: false, popupChrome: false });
+    const popup = svg.slice(svg.indexOf('<g class="leaflet-popup">')).split('</g>')[0];
+    expect(popup).not.toContain('<path');
+    expect(popup).toMatch(/>Label<\/text>/);
+    expect(popup).not.toContain('×');
+  });
+});
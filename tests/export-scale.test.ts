@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { clearImageCache } from '../src/image-cache.js';
+import { decodePng } from './helpers/decode-png.js';
+
+async function solidPng(color: string, size: number): Promise<Buffer> {
+  const canvas = createCanvas(size, size);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, size, size);
+  return await canvas.encode('png');
+}
+
+describe('Scaled export', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let requested: string[];
+
+  beforeEach(() => {
+    clearImageCache();
+    requested = [];
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(200, 100);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+    unregisterImageProtocol('scaled');
+    vi.restoreAllMocks();
+  });
+
+  it('renders a larger image with vectors drawn at the higher resolution', async () => {
+    L.polyline([[0, -90], [0, 90]], { color: '#ff0000', weight: 1, opacity: 1 }).addTo(map);
+
+    const standard = await decodePng(await map.toBuffer('png'));
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 2 }));
+
+    expect([standard.width, standard.height]).toEqual([200, 100]);
+    expect([scaled.width, scaled.height]).toEqual([400, 200]);
+
+    // A one pixel line straddling y=50 is antialiased at 1x but covers two full rows at 2x
+    expect(standard.pixel(100, 50)[3]).toBeLessThan(255);
+    expect(scaled.pixel(200, 99)).toEqual([255, 0, 0, 255]);
+    expect(scaled.pixel(200, 100)).toEqual([255, 0, 0, 255]);
+    expect(scaled.pixel(200, 97)[3]).toBe(0);
+  });
+
+  it('scales popups with the rest of the map', async () => {
+    map.setSize(400, 300);
+    L.popup().setLatLng([-20, 0]).setContent('Scaled popup').openOn(map);
+
+    const standard = await decodePng(await map.toBuffer('png'));
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 3 }));
+
+    const popupRows = (image: typeof standard, x: number) => {
+      let rows = 0;
+      for (let y = 0; y < image.height; y++) {
+        rows += image.pixel(x, y)[3] === 255 ? 1 : 0;
+      }
+      return rows;
+    };
+    expect(popupRows(scaled, 600)).toBeCloseTo(popupRows(standard, 200) * 3, -1);
+  });
+
+  it('requests @2x tiles for {r} templates', async () => {
+    registerImageProtocol('scaled', async (url) => {
+      requested.push(url);
+      return await solidPng(url.includes('@2x') ? '#ff0000' : '#0000ff', 256);
+    });
+    L.tileLayer('scaled://{z}/{x}/{y}{r}.png').addTo(map);
+    await map.whenRendered();
+
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 2, controls: false }));
+
+    expect(requested).toContain('scaled://1/0/0.png');
+    expect(requested).toContain('scaled://1/0/0@2x.png');
+    expect(scaled.pixel(10, 10)).toEqual([255, 0, 0, 255]);
+    expect(scaled.pixel(390, 190)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('requests tiles one zoom level deeper for detectRetina layers', async () => {
+    registerImageProtocol('scaled', async (url) => {
+      requested.push(url);
+      return await solidPng(url.startsWith('scaled://2/') ? '#00ff00' : '#0000ff', 256);
+    });
+    L.tileLayer('scaled://{z}/{x}/{y}.png', { detectRetina: true }).addTo(map);
+    await map.whenRendered();
+
+    const standard = await decodePng(await map.toBuffer('png'));
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 2 }));
+
+    expect(standard.pixel(100, 50)).toEqual([0, 0, 255, 255]);
+    expect(scaled.pixel(200, 100)).toEqual([0, 255, 0, 255]);
+    expect(requested).toEqual(expect.arrayContaining([
+      'scaled://2/1/1.png', 'scaled://2/2/1.png', 'scaled://2/1/2.png', 'scaled://2/2/2.png',
+    ]));
+  });
+
+  it('uses iconRetinaUrl for marker icons', async () => {
+    registerImageProtocol('scaled', async (url) => {
+      requested.push(url);
+      return url.includes('@2x') ? await solidPng('#ff0000', 40) : await solidPng('#0000ff', 20);
+    });
+    L.marker([0, 0], {
+      icon: L.icon({
+        iconUrl: 'scaled://marker.png',
+        iconRetinaUrl: 'scaled://marker@2x.png',
+        iconSize: [20, 20],
+        iconAnchor: [10, 10],
+      }),
+    }).addTo(map);
+    await map.whenRendered();
+
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 2 }));
+
+    expect(requested).toContain('scaled://marker@2x.png');
+    expect(scaled.pixel(200, 100)).toEqual([255, 0, 0, 255]);
+    expect(scaled.pixel(200 - 22, 100)[3]).toBe(0);
+  });
+
+  it('falls back to standard images when retina variants fail to load', async () => {
+    registerImageProtocol('scaled', async (url) => {
+      if (url.includes('@2x')) {
+        throw new Error('Not found');
+      }
+      return await solidPng('#0000ff', 256);
+    });
+    L.tileLayer('scaled://{z}/{x}/{y}{r}.png').addTo(map);
+    await map.whenRendered();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const scaled = await decodePng(await map.toBuffer('png', { scale: 2 }));
+
+    expect(scaled.pixel(200, 100)).toEqual([0, 0, 255, 255]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('high-resolution image(s) failed to load'));
+  });
+
+  it('rejects invalid scales', async () => {
+    await expect(map.toBuffer('png', { scale: 0 })).rejects.toThrow('Export scale must be a positive number');
+  });
+});
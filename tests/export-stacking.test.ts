@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { square } from './helpers/markers.js';
+
+describe('Stacking and opacity in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(200, 200);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('stacks custom panes by z-index rather than creation order', async () => {
+    map.createPane('above').style.zIndex = '650';
+    map.createPane('below').style.zIndex = '350';
+    square(map, '#ff0000', { pane: 'above' });
+    square(map, '#0000ff', { pane: 'below' });
+
+    const image = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(image.pixel(100, 100)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('stacks tile layers by their zIndex option', async () => {
+    const colors: Record<string, string> = { red: '#ff0000', blue: '#0000ff' };
+    registerImageProtocol('flat', async (url) => {
+      const canvas = createCanvas(256, 256);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = colors[url.slice('flat://'.length).split('/')[0]];
+      ctx.fillRect(0, 0, 256, 256);
+      return canvas.toBuffer('image/png');
+    });
+
+    try {
+      L.tileLayer('flat://red/{z}/{x}/{y}', { zIndex: 2 }).addTo(map);
+      const blue = L.tileLayer('flat://blue/{z}/{x}/{y}', { zIndex: 1 }).addTo(map);
+      await map.whenRendered();
+      expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([255, 0, 0, 255]);
+
+      blue.setZIndex(3);
+      expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([0, 0, 255, 255]);
+
+      // A half transparent layer on top lets the one below show through
+      blue.setOpacity(0.5);
+      const [r, g, b, a] = (await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100);
+      expect(r).toBeCloseTo(128, -1);
+      expect(g).toBe(0);
+      expect(b).toBeCloseTo(128, -1);
+      expect(a).toBe(255);
+
+      const svg = await map.toSVG({ controls: false });
+      expect(svg).toMatch(/<image class="leaflet-tile[^"]*"[^>]*opacity="0.5"/);
+    } finally {
+      unregisterImageProtocol('flat');
+    }
+  });
+
+  it('applies marker and pane opacity', async () => {
+    const marker = square(map, '#ff0000');
+    marker.setOpacity(0.5);
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)[3]).toBeCloseTo(128, -1);
+
+    marker.setOpacity(1);
+    map.getPane('markerPane')!.style.opacity = '0.25';
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)[3]).toBeCloseTo(64, -1);
+  });
+
+  it('applies pane opacity to vector layers, including Leaflet\'s own path opacity', async () => {
+    map.createPane('faded').style.opacity = '0.5';
+    const renderer = L.canvas({ pane: 'faded' });
+    L.rectangle(map.getBounds(), { renderer, fillColor: '#00ff00', fillOpacity: 1, stroke: false }).addTo(map);
+    await map.whenRendered();
+
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)[3]).toBeCloseTo(128, -1);
+    const hiDpi = await decodePng(await map.toBuffer('png', { controls: false, scale: 2 }));
+    expect(hiDpi.pixel(200, 200)[3]).toBeCloseTo(128, -1);
+  });
+
+  it('skips elements hidden with display or visibility', async () => {
+    square(map, '#ff0000', {}, 'visibility: hidden;');
+    const hiddenPane = map.createPane('hidden');
+    hiddenPane.style.display = 'none';
+    square(map, '#0000ff', { pane: 'hidden' });
+    const invisible = square(map, '#00ff00');
+    (invisible.getElement() as HTMLElement).style.visibility = 'hidden';
+
+    const image = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(image.pixel(100, 100)[3]).toBe(0);
+
+    hiddenPane.style.display = '';
+    expect((await decodePng(await map.toBuffer('png', { controls: false }))).pixel(100, 100)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('composites a thousand icon markers quickly', async () => {
+    map.setSize(800, 600);
+    for (let index = 0; index < 1000; index++) {
+      L.marker([(index % 40) - 20, Math.floor(index / 40) * 3 - 36]).addTo(map);
+    }
+    await map.toBuffer('png');
+
+    const start = performance.now();
+    await map.toBuffer('png');
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+});
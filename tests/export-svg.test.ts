@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { createCanvas, Image as CanvasImage } from '@napi-rs/canvas';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { ensureTileFixture, getTileFixtureUrl } from './helpers/tile-fixture.js';
+
+async function rasterise(svg: string, width: number, height: number) {
+  const image = new CanvasImage();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = Buffer.from(svg);
+  });
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return (x: number, y: number) => Array.from(ctx.getImageData(x, y, 1, 1).data);
+}
+
+describe('SVG export', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+  });
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 2);
+    map.setSize(400, 300);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('emits tiles and marker icons as embedded images', async () => {
+    L.tileLayer(getTileFixtureUrl()).addTo(map);
+    L.marker([0, 0]).addTo(map);
+
+    const svg = await map.toSVG({ waitForRender: true });
+
+    expect(svg.startsWith('<?xml')).toBe(true);
+    expect(svg).toContain('width="400" height="300" viewBox="0 0 400 300"');
+    expect(svg).toMatch(/<image class="[^"]*leaflet-tile[^"]*" x="[-\d.]+" y="[-\d.]+" width="256" height="256"/);
+    expect(svg).toMatch(/<image class="[^"]*leaflet-marker-icon[^"]*"[^>]*xlink:href="data:image\/png;base64,/);
+
+    const parsed = new window.DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(parsed.getElementsByTagName('parsererror')).toHaveLength(0);
+  });
+
+  it('emits vector layers as paths with their Leaflet styles', async () => {
+    L.polyline([[0, -60], [0, 60]], { color: '#ff0000', weight: 8, dashArray: '4 2' }).addTo(map);
+    L.polygon([[10, 10], [20, 20], [10, 30]], { color: '#00ff00', fillOpacity: 0.5 }).addTo(map);
+    L.circleMarker([-20, -20], { radius: 12, color: '#0000ff' }).addTo(map);
+    L.geoJSON({ type: 'Point', coordinates: [0, 0] } as any, {
+      pointToLayer: (_feature, latlng) => L.circle(latlng, { radius: 100000, color: '#123456' }),
+    }).addTo(map);
+
+    const svg = await map.toSVG({ controls: false });
+    const paths = svg.match(/<path d="[^"]+"[^>]*>/g) ?? [];
+
+    expect(paths.some((p) => p.includes('stroke="#ff0000"') && p.includes('stroke-width="8"') && p.includes('stroke-dasharray="4 2"') && p.includes('fill="none"'))).toBe(true);
+    expect(paths.some((p) => p.includes('stroke="#00ff00"') && p.includes('fill-opacity="0.5"') && p.includes('fill-rule="evenodd"') && / d="M[^"]*z"/.test(p))).toBe(true);
+    expect(paths.some((p) => p.includes('stroke="#0000ff"') && / d="M[^"]*a12,12 0 1,0 /.test(p))).toBe(true);
+    expect(paths.some((p) => p.includes('stroke="#123456"'))).toBe(true);
+    expect(svg).not.toContain('<image');
+  });
+
+  it('positions paths like the raster export', async () => {
+    map.setView([0, 0], 2);
+    L.polyline([[0, -60], [0, 60]], { color: '#ff0000', weight: 10, opacity: 1 }).addTo(map);
+
+    const svg = await map.toSVG();
+    const pixel = await rasterise(svg, 400, 300);
+
+    // The line crosses the centre horizontally
+    expect(pixel(200, 150)).toEqual([255, 0, 0, 255]);
+    expect(pixel(200, 120)[3]).toBe(0);
+    expect(pixel(10, 150)[3]).toBe(0);
+  });
+
+  it('draws popups as shapes and text', async () => {
+    L.popup().setLatLng([0, 0]).setContent('Hello <b>SVG</b> & friends<br>Second line').openOn(map);
+
+    const svg = await map.toSVG();
+
+    expect(svg).toContain('<g class="leaflet-popup">');
+    expect(svg).toContain('filter="url(#leaflet-popup-shadow)"');
+    expect(svg).toMatch(/<text [^>]*style="font: normal bold [^"]*"[^>]*>SVG<\/text>/);
+    expect(svg).toMatch(/<text [^>]*> &amp; friends<\/text><text [^>]*>Second line<\/text>/);
+    // Plain text needs no rasterised content
+    const popup = svg.slice(svg.indexOf('<g class="leaflet-popup">')).split('</g>')[0];
+    expect(popup).not.toContain('<image');
+  });
+
+  describe('saveImage', () => {
+    let outDir: string;
+
+    beforeAll(async () => {
+      outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-svg-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(outDir, { recursive: true, force: true });
+    });
+
+    it('writes SVG documents for .svg filenames', async () => {
+      L.circleMarker([0, 0], { radius: 20 }).addTo(map);
+
+      const filename = await map.saveImage(path.join(outDir, 'map.svg'));
+      const content = await fs.readFile(filename, 'utf-8');
+
+      expect(content).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+      expect(content).toContain('<path d="M');
+    });
+  });
+});
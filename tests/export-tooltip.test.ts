@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { pdfContent } from './helpers/pdf-content.js';
+
+/**
+ * Bounding box and peak alpha of the pure red pixels in an image
+ */
+async function findRed(buffer: Buffer) {
+  const image = await decodePng(buffer);
+  const red = (rgba: number[]) => rgba[0] > 200 && rgba[1] < 30 && rgba[2] < 30 && rgba[3] > 100;
+  const bounds = image.find(0, 0, image.width, image.height, red);
+
+  let alpha = 0;
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      const rgba = image.pixel(x, y);
+      if (red(rgba)) {
+        alpha = Math.max(alpha, rgba[3]);
+      }
+    }
+  }
+  const alphaAt = (x: number, y: number) => image.pixel(x, y)[3];
+  return { ...bounds, alpha, alphaAt };
+}
+
+describe('Tooltips in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let stylesheet: HTMLStyleElement;
+
+  beforeEach(() => {
+    stylesheet = document.createElement('style');
+    stylesheet.textContent = '.red { background: #ff0000; border-color: #ff0000; color: #ff0000; }';
+    document.head.appendChild(stylesheet);
+
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(200, 200);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+    stylesheet.remove();
+  });
+
+  function addLabel(latLng: L.LatLngExpression, options: L.TooltipOptions) {
+    return L.circleMarker(latLng, { radius: 2, color: '#0000ff' })
+      .addTo(map)
+      .bindTooltip('Label', { permanent: true, className: 'red', opacity: 1, ...options });
+  }
+
+  it('places permanent tooltips on the side given by their direction, with a tip', async () => {
+    addLabel([0, 0], { direction: 'top' });
+    const top = await findRed(await map.toBuffer('png'));
+    // The box ends 6px above the point and its tip reaches back towards it
+    expect(Math.abs((top.left + top.right) / 2 - 100)).toBeLessThanOrEqual(1);
+    expect(top.bottom).toBeGreaterThanOrEqual(98);
+    expect(top.bottom).toBeLessThanOrEqual(100);
+    expect(top.top).toBeLessThan(70);
+
+    map.eachLayer((layer) => {
+      if (layer instanceof L.CircleMarker) {
+        layer.unbindTooltip();
+      }
+    });
+    addLabel([0, 0], { direction: 'right' });
+    const right = await findRed(await map.toBuffer('png'));
+    expect(right.left).toBeGreaterThanOrEqual(100);
+    expect(right.left).toBeLessThanOrEqual(102);
+    expect(Math.abs((right.top + right.bottom) / 2 - 100)).toBeLessThanOrEqual(1);
+  });
+
+  it('mirrors Leaflet for bottom, left and center directions', async () => {
+    const bottom = addLabel([0, 0], { direction: 'bottom' });
+    const below = await findRed(await map.toBuffer('png'));
+    expect(below.top).toBeGreaterThanOrEqual(100);
+    expect(below.top).toBeLessThanOrEqual(102);
+    bottom.unbindTooltip();
+
+    const left = addLabel([0, 0], { direction: 'left' });
+    const leftOf = await findRed(await map.toBuffer('png'));
+    expect(leftOf.right).toBeGreaterThanOrEqual(98);
+    expect(leftOf.right).toBeLessThanOrEqual(100);
+    left.unbindTooltip();
+
+    addLabel([0, 0], { direction: 'center' });
+    const center = await findRed(await map.toBuffer('png'));
+    expect(Math.abs((center.left + center.right) / 2 - 100)).toBeLessThanOrEqual(1);
+    expect(Math.abs((center.top + center.bottom) / 2 - 100)).toBeLessThanOrEqual(1);
+  });
+
+  it('resolves auto direction from the side of the map and applies the offset', async () => {
+    addLabel([0, -60], { offset: [10, 0] });
+    const leftHalf = await findRed(await map.toBuffer('png'));
+    const point = map.latLngToContainerPoint([0, -60]);
+    // Auto points tooltips on the left half of the map to the right
+    expect(leftHalf.left).toBeGreaterThanOrEqual(point.x + 10);
+    expect(leftHalf.left).toBeLessThanOrEqual(point.x + 12);
+  });
+
+  it('honours tooltip opacity and skips closed tooltips', async () => {
+    const label = addLabel([0, 0], { direction: 'top', opacity: 0.5 });
+    const faded = await findRed(await map.toBuffer('png'));
+    // Inside the padding, clear of the border and text
+    expect(faded.alphaAt(faded.left + 3, faded.top + 3)).toBeCloseTo(128, -1);
+
+    label.unbindTooltip();
+    const hover = L.circleMarker([0, 0]).addTo(map).bindTooltip('Hover', { className: 'red' });
+    expect((await findRed(await map.toBuffer('png'))).alpha).toBe(0);
+
+    hover.openTooltip();
+    expect((await findRed(await map.toBuffer('png'))).alpha).toBeGreaterThan(200);
+  });
+
+  it('includes tooltips in SVG and PDF exports', async () => {
+    addLabel([0, 0], { direction: 'top' });
+
+    const svg = await map.toSVG();
+    expect(svg).toMatch(/<image class="leaflet-tooltip red[^"]*leaflet-tooltip-top"/);
+
+    const content = pdfContent(await map.toPDF());
+    expect(content).toContain('(Label) Tj');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, { createHeadlessEnvironment, registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { HeadlessEnvironment, LeafletHeadlessMap } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+
+describe('CSS transforms in exports', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let transformed: HeadlessEnvironment;
+
+  // Layers are only scaled for the zoom level with Leaflet's 3D positioning
+  const createTransformedMap = (options?: L.MapOptions) => {
+    const container = transformed.document.createElement('div');
+    transformed.document.body.appendChild(container);
+    return transformed.L.map(container, options) as LeafletHeadlessMap;
+  };
+
+  beforeAll(() => {
+    transformed = createHeadlessEnvironment({ enable3dTransforms: true });
+  });
+
+  afterAll(() => {
+    transformed.dispose();
+  });
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+
+    // Red tiles at zoom 2, blue at any other zoom
+    registerImageProtocol('zoom', async (url) => {
+      const canvas = createCanvas(256, 256);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = url.startsWith('zoom://2/') ? '#ff0000' : '#0000ff';
+      ctx.fillRect(0, 0, 256, 256);
+      return canvas.toBuffer('image/png');
+    });
+  });
+
+  afterEach(() => {
+    unregisterImageProtocol('zoom');
+    map.remove();
+    element.remove();
+  });
+
+  it('scales tiles to fractional zoom levels', async () => {
+    expect(L.Browser.any3d).toBe(false);
+    expect(transformed.L.Browser.any3d).toBe(true);
+    map = createTransformedMap({ zoomSnap: 0 });
+    map.setView([0, 0], 3.5);
+    map.setSize(200, 200);
+    expect(map.getZoom()).toBe(3.5);
+    transformed.L.tileLayer('zoom://{z}/{x}/{y}').addTo(map);
+    await map.whenRendered();
+
+    // Zoom 4 tiles shrunk to fit, meeting at the map centre without a seam
+    for (const scale of [1, 2]) {
+      const image = await decodePng(await map.toBuffer('png', { controls: false, scale }));
+      for (const [x, y] of [[0, 0], [100, 100], [100, 50], [199, 199]]) {
+        expect(image.pixel(x * scale, y * scale)).toEqual([0, 0, 255, 255]);
+      }
+    }
+
+    const svg = await map.toSVG({ controls: false });
+    expect(svg).toMatch(/<image class="leaflet-tile[^"]*" x="0" y="0" transform="matrix\(0\.707 0 0 0\.707 /);
+  });
+
+  it('scales overzoomed tiles from their native zoom', async () => {
+    map = createTransformedMap();
+    map.setView([0, 0], 3);
+    map.setSize(200, 200);
+    transformed.L.tileLayer('zoom://{z}/{x}/{y}', { maxNativeZoom: 2 }).addTo(map);
+    await map.whenRendered();
+
+    const image = await decodePng(await map.toBuffer('png', { controls: false }));
+    for (const [x, y] of [[0, 0], [100, 100], [199, 199]]) {
+      expect(image.pixel(x, y)).toEqual([255, 0, 0, 255]);
+    }
+    expect(await map.toSVG({ controls: false })).toContain('transform="matrix(2 0 0 2 ');
+  });
+
+  it('rotates markers around their transform origin', async () => {
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(200, 200);
+    const icon = L.divIcon({ className: '', html: '<div style="width: 60px; height: 20px; background: #ff0000"></div>', iconSize: [60, 20] });
+    const marker = L.marker(map.getCenter(), { icon }).addTo(map);
+
+    // A wide bar centred on the map
+    let image = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(image.pixel(75, 100)[3]).toBe(255);
+    expect(image.pixel(100, 75)[3]).toBe(0);
+
+    const markerElement = marker.getElement() as HTMLElement;
+    markerElement.style.transformOrigin = 'center';
+    markerElement.style.transform += ' rotate(90deg)';
+    for (const scale of [1, 2]) {
+      image = await decodePng(await map.toBuffer('png', { controls: false, scale }));
+      expect(image.pixel(75 * scale, 100 * scale)[3]).toBe(0);
+      expect(image.pixel(100 * scale, 75 * scale)).toEqual([255, 0, 0, 255]);
+    }
+    // SVG rasterises HTML layers, upright in the rotated bounds
+    expect(await map.toSVG({ controls: false })).toMatch(/<image class="leaflet-marker-icon[^"]*" x="90" y="70" width="20" height="60"/);
+  });
+
+  it('composes the transforms of panes with those of their layers', async () => {
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 3);
+    map.setSize(200, 200);
+    const pane = map.createPane('tilted');
+    const icon = L.divIcon({ className: '', html: '<div style="width: 20px; height: 20px; background: #00ff00"></div>', iconSize: [20, 20] });
+    L.marker(map.getCenter(), { icon, pane: 'tilted' }).addTo(map);
+
+    // Doubling the pane around the map centre doubles the square around it
+    pane.style.transformOrigin = '100px 100px';
+    pane.style.transform = 'scale(2)';
+    const image = await decodePng(await map.toBuffer('png', { controls: false }));
+    expect(image.pixel(82, 100)).toEqual([0, 255, 0, 255]);
+    expect(image.pixel(78, 100)[3]).toBe(0);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import L, {
+  configureNetwork,
+  configureOffline,
+  createHeadlessEnvironment,
+  registerImageProtocol,
+  unregisterImageProtocol,
+} from '../src/index.js';
+import type { HeadlessEnvironment, LeafletHeadlessMap } from '../src/types.js';
+import { getImageProtocolHandler } from '../src/protocols.js';
+import { loadMBTilesTile } from '../src/mbtiles.js';
+import { decodePng } from './helpers/decode-png.js';
+
+function createMap(environment: HeadlessEnvironment): LeafletHeadlessMap {
+  const element = environment.document.createElement('div');
+  environment.document.body.appendChild(element);
+  return environment.L.map(element).setView([0, 0], 2) as LeafletHeadlessMap;
+}
+
+describe('Headless environments', () => {
+  const environments: HeadlessEnvironment[] = [];
+  const create = (...args: Parameters<typeof createHeadlessEnvironment>) => {
+    const environment = createHeadlessEnvironment(...args);
+    environments.push(environment);
+    return environment;
+  };
+
+  afterEach(() => {
+    environments.splice(0).forEach((environment) => environment.dispose());
+  });
+
+  it('loads its own window and Leaflet without touching globals', () => {
+    const globals = { window: globalThis.window, document: globalThis.document, L: (globalThis as any).L };
+    const environment = create({ userAgent: 'leaflet-node-test' });
+
+    expect(environment.L).not.toBe(L);
+    expect(environment.window).not.toBe(globals.window);
+    expect(environment.document).toBe(environment.window.document);
+    expect(environment.window.navigator.userAgent).toBe('leaflet-node-test');
+    expect({ window: globalThis.window, document: globalThis.document, L: (globalThis as any).L }).toEqual(globals);
+
+    // Layers from one environment are not instances of another's classes
+    expect(environment.L.marker([0, 0])).not.toBeInstanceOf(L.Marker);
+  });
+
+  it('applies its own map size and animation options', () => {
+    const small = createMap(create({ mapSize: { width: 320, height: 240 } }));
+    const animated = createMap(create({ enableAnimations: true }));
+
+    expect(small.getSize()).toEqual(L.point(320, 240));
+    expect(small.options.fadeAnimation).toBe(false);
+    expect(animated.getSize()).toEqual(L.point(1024, 1024));
+    expect(animated.options.fadeAnimation).toBe(true);
+  });
+
+  it('exports maps from differently configured environments side by side', async () => {
+    registerImageProtocol('flat', async () => {
+      const canvas = createCanvas(256, 256);
+      const ctx = canvas.getContext('2d');
+      ctx.fillStyle = '#ff0000';
+      ctx.fillRect(0, 0, 256, 256);
+      return canvas.toBuffer('image/png');
+    });
+
+    try {
+      const first = create({ mapSize: { width: 200, height: 100 } });
+      const second = create({ mapSize: { width: 100, height: 200 } });
+      const maps = [first, second].map((environment) => {
+        const map = createMap(environment);
+        environment.L.tileLayer('flat://{z}/{x}/{y}').addTo(map);
+        const icon = environment.L.divIcon({ className: '', html: '<div style="width: 20px; height: 20px; background: #0000ff"></div>', iconSize: [20, 20] });
+        environment.L.marker(map.getCenter(), { icon }).addTo(map);
+        return map;
+      });
+
+      const [wide, tall] = await Promise.all(maps.map(async (map) => {
+        await map.whenRendered();
+        return decodePng(await map.toBuffer('png', { controls: false }));
+      }));
+
+      expect([wide.width, wide.height, tall.width, tall.height]).toEqual([200, 100, 100, 200]);
+      expect(wide.pixel(10, 10)).toEqual([255, 0, 0, 255]);
+      expect(wide.pixel(100, 50)).toEqual([0, 0, 255, 255]);
+      expect(tall.pixel(50, 100)).toEqual([0, 0, 255, 255]);
+      expect(await maps[0].toSVG({ controls: false })).toContain('<image class="leaflet-tile');
+    } finally {
+      unregisterImageProtocol('flat');
+    }
+  });
+
+  it('removes its maps when disposed', () => {
+    const environment = createHeadlessEnvironment();
+    const map = createMap(environment);
+    const removed = createMap(environment);
+    removed.remove();
+    const container = map.getContainer();
+    expect(container.childElementCount).toBeGreaterThan(0);
+
+    environment.dispose();
+    expect(container.childElementCount).toBe(0);
+    // Disposing twice is harmless
+    environment.dispose();
+  });
+
+  it('rejects network and offline options that conflict with a live environment', () => {
+    const settings = { network: { maxConcurrency: 4 }, offline: { allowHosts: ['localhost'] } };
+    try {
+      const first = create(settings);
+      expect(() => create({ network: { maxConcurrency: 8 } })).toThrow('Environment network options conflict');
+      expect(() => create({ offline: false })).toThrow('Environment offline options conflict');
+
+      // The same settings, or none, can be shared
+      const second = create({ ...settings, mapSize: { width: 100, height: 100 } });
+      create();
+      first.dispose();
+      expect(() => create({ offline: true })).toThrow('Environment offline options conflict');
+
+      second.dispose();
+      expect(() => create({ network: { maxConcurrency: 8 }, offline: true })).not.toThrow();
+    } finally {
+      configureNetwork({});
+      configureOffline(false);
+    }
+  });
+
+  it('leaves archive protocol handlers registered by the caller in place', () => {
+    const handler = () => Buffer.alloc(0);
+    registerImageProtocol('mbtiles', handler);
+    try {
+      create();
+      expect(getImageProtocolHandler('mbtiles://tiles.mbtiles/0/0/0')).toBe(handler);
+    } finally {
+      registerImageProtocol('mbtiles', loadMBTilesTile);
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { createCanvas, Image as CanvasImage } from '@napi-rs/canvas';
+
+export type PixelMatcher = (rgba: number[]) => boolean;
+
+export interface PixelBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  count: number;
+}
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  /** RGBA values of one pixel */
+  pixel(x: number, y: number): number[];
+  /** Number of matching pixels in a region */
+  count(left: number, top: number, width: number, height: number, match: PixelMatcher): number;
+  /** Bounding box and number of the matching pixels in a region */
+  find(left: number, top: number, width: number, height: number, match: PixelMatcher): PixelBounds;
+  /** Extent of the matching pixels along a row or a column */
+  span(along: 'row' | 'column', at: number, match: PixelMatcher): { start: number; end: number };
+}
+
+/**
+ * Decode an encoded image (PNG, JPEG, WebP...) into its pixels
+ */
+export async function decodePng(buffer: Buffer): Promise<DecodedPng> {
+  const image = new CanvasImage();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = buffer;
+  });
+
+  const { width, height } = image;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const pixel = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    return Array.from(data.subarray(index, index + 4));
+  };
+
+  const find = (left: number, top: number, regionWidth: number, regionHeight: number, match: PixelMatcher) => {
+    const bounds = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity, count: 0 };
+    for (let y = top; y < top + regionHeight; y++) {
+      for (let x = left; x < left + regionWidth; x++) {
+        if (match(pixel(x, y))) {
+          bounds.left = Math.min(bounds.left, x);
+          bounds.top = Math.min(bounds.top, y);
+          bounds.right = Math.max(bounds.right, x + 1);
+          bounds.bottom = Math.max(bounds.bottom, y + 1);
+          bounds.count++;
+        }
+      }
+    }
+    return bounds;
+  };
+
+  const span = (along: 'row' | 'column', at: number, match: PixelMatcher) => {
+    const length = along === 'row' ? width : height;
+    const range = { start: Infinity, end: -Infinity };
+    for (let i = 0; i < length; i++) {
+      if (match(along === 'row' ? pixel(i, at) : pixel(at, i))) {
+        range.start = Math.min(range.start, i);
+        range.end = Math.max(range.end, i + 1);
+      }
+    }
+    return range;
+  };
+
+  return {
+    width,
+    height,
+    data,
+    pixel,
+    count: (left, top, regionWidth, regionHeight, match) => find(left, top, regionWidth, regionHeight, match).count,
+    find,
+    span,
+  };
+}
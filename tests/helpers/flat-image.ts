@@ -0,0 +1,12 @@
+import { createCanvas } from '@napi-rs/canvas';
+
+/**
+ * PNG data URL of a square in one colour
+ */
+export function flatImageUrl(color: string, size = 256): string {
+  const canvas = createCanvas(size, size);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, size, size);
+  return canvas.toDataURL('image/png');
+}
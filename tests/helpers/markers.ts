@@ -0,0 +1,11 @@
+import L from '../../src/index.js';
+
+/**
+ * Add a 40px square divIcon marker of one colour at the map center
+ *
+ * @param css - Extra inline style for the square
+ */
+export function square(map: L.Map, color: string, options: L.MarkerOptions = {}, css = ''): L.Marker {
+  const icon = L.divIcon({ className: '', html: `<div style="width: 40px; height: 40px; background: ${color}; ${css}"></div>`, iconSize: [40, 40] });
+  return L.marker(map.getCenter(), { icon, ...options }).addTo(map);
+}
@@ -0,0 +1,17 @@
+import * as zlib from 'zlib';
+
+/**
+ * Inflated content streams of a PDF, joined together
+ */
+export function pdfContent(pdf: Buffer): string {
+  const streams = pdf.toString('latin1').split('stream\n').slice(1).map((part) => part.split('\nendstream')[0]);
+  return streams
+    .map((stream) => {
+      try {
+        return zlib.inflateSync(Buffer.from(stream, 'latin1')).toString('latin1');
+      } catch {
+        return '';
+      }
+    })
+    .join('\n');
+}
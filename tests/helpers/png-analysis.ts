@@ -29,3 +29,19 @@ export function analyzePng(buffer: Buffer): PngAnalysis {
     uniqueColorCount: uniqueColors.size,
   };
 }
+
+export function solidTile(r: number, g: number, b: number): Buffer {
+  const png = new PNG({ width: 256, height: 256 });
+  for (let i = 0; i < png.data.length; i += 4) {
+    png.data[i] = r;
+    png.data[i + 1] = g;
+    png.data[i + 2] = b;
+    png.data[i + 3] = 255;
+  }
+  return PNG.sync.write(png);
+}
+
+export function pixelAt(png: PNG, x: number, y: number): [number, number, number] {
+  const idx = (y * png.width + x) * 4;
+  return [png.data[idx], png.data[idx + 1], png.data[idx + 2]];
+}
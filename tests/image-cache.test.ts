@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import { loadImageSource } from '../src/image.js';
+import { clearImageCache, configureImageCache, getImageCacheStats } from '../src/image-cache.js';
+import { ensureTileFixture, getTileFixturePath, getTileFixtureUrl } from './helpers/tile-fixture.js';
+
+describe('Decoded image cache', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requestCount = 0;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    const tileBuffer = await fs.readFile(getTileFixturePath());
+
+    server = http.createServer((_req, res) => {
+      requestCount++;
+      // Delay the response so concurrent requests overlap
+      setTimeout(() => {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(tileBuffer);
+      }, 50);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    configureImageCache({ maxBytes: 256 * 1024 * 1024 });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requestCount = 0;
+    clearImageCache();
+  });
+
+  it('returns the same decoded image for repeated loads', async () => {
+    const first = await loadImageSource(getTileFixtureUrl());
+    const second = await loadImageSource(getTileFixtureUrl());
+
+    expect(second).toBe(first);
+    const stats = getImageCacheStats();
+    expect(stats.misses).toBe(1);
+    expect(stats.hits).toBe(1);
+    expect(stats.entries).toBe(1);
+    expect(stats.bytes).toBe(256 * 256 * 4);
+  });
+
+  it('de-duplicates concurrent requests for the same URL', async () => {
+    const images = await Promise.all([
+      loadImageSource(`${baseUrl}/tile.png`),
+      loadImageSource(`${baseUrl}/tile.png`),
+      loadImageSource(`${baseUrl}/tile.png`),
+    ]);
+
+    expect(requestCount).toBe(1);
+    expect(images[1]).toBe(images[0]);
+    expect(images[2]).toBe(images[0]);
+    expect(getImageCacheStats().deduplicated).toBe(2);
+  });
+
+  it('evicts least recently used images beyond the memory budget', async () => {
+    configureImageCache({ maxBytes: 256 * 256 * 4 * 2 });
+
+    await loadImageSource(`${baseUrl}/a.png`);
+    await loadImageSource(`${baseUrl}/b.png`);
+    await loadImageSource(`${baseUrl}/a.png`);
+    await loadImageSource(`${baseUrl}/c.png`);
+
+    const stats = getImageCacheStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.evictions).toBe(1);
+    expect(stats.bytes).toBeLessThanOrEqual(stats.maxBytes);
+
+    // "a" was used most recently before "c" was added, so "b" was evicted
+    requestCount = 0;
+    await loadImageSource(`${baseUrl}/a.png`);
+    expect(requestCount).toBe(0);
+    await loadImageSource(`${baseUrl}/b.png`);
+    expect(requestCount).toBe(1);
+  });
+
+  it('does not cache failed loads', async () => {
+    await expect(loadImageSource('/non/existent/cache-test.png')).rejects.toThrow('Could not find image');
+    await expect(loadImageSource('/non/existent/cache-test.png')).rejects.toThrow('Could not find image');
+
+    expect(getImageCacheStats().misses).toBe(2);
+    expect(getImageCacheStats().entries).toBe(0);
+  });
+
+  it('clearImageCache empties the cache and resets statistics', async () => {
+    await loadImageSource(getTileFixtureUrl());
+    clearImageCache();
+
+    expect(getImageCacheStats()).toMatchObject({ hits: 0, misses: 0, entries: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { MapSpecError, createHeadlessEnvironment, mapSpecSchema, renderMapSpec, validateMapSpec } from '../src/index.js';
+import type { MapSpec } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { flatImageUrl } from './helpers/flat-image.js';
+
+function baseSpec(): MapSpec {
+  return {
+    size: { width: 200, height: 100 },
+    view: { center: [0, 0], zoom: 2 },
+    layers: [{ type: 'tile', url: flatImageUrl('#0000ff') }],
+    exportOptions: { controls: false },
+  };
+}
+
+describe('Map specs', () => {
+  it('renders tile, GeoJSON, marker and popup layers', async () => {
+    const spec: MapSpec = {
+      ...baseSpec(),
+      layers: [
+        { type: 'tile', url: flatImageUrl('#0000ff') },
+        {
+          type: 'geojson',
+          data: { type: 'Point', coordinates: [0, 0] } as GeoJSON.Point,
+          pointRadius: 10,
+          style: { stroke: false, fillColor: '#ff0000', fillOpacity: 1 },
+        },
+        { type: 'marker', latlng: [0, 20], icon: { url: flatImageUrl('#00ff00', 16), size: [16, 16], anchor: [8, 8] } },
+      ],
+    };
+
+    const image = await decodePng(await renderMapSpec(spec));
+    expect([image.width, image.height]).toEqual([200, 100]);
+    expect(image.pixel(100, 50)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(10, 10)).toEqual([0, 0, 255, 255]);
+    // 20 degrees of longitude is about 57px at zoom 2
+    expect(image.pixel(157, 50)).toEqual([0, 255, 0, 255]);
+
+    const svg = (await renderMapSpec({
+      ...baseSpec(),
+      size: { width: 400, height: 300 },
+      layers: [
+        { type: 'marker', latlng: [0, 0], popup: 'Marker popup' },
+        { type: 'popup', latlng: [-30, 60], content: 'Standalone popup', options: { closeButton: false } },
+      ],
+      format: 'svg',
+    })).toString('utf-8');
+    expect(svg).toContain('Marker popup');
+    expect(svg).toContain('Standalone popup');
+    expect(svg).toContain('marker-icon');
+  });
+
+  it('fits bounds and accepts JSON text', async () => {
+    const env = createHeadlessEnvironment();
+    const json = JSON.stringify({
+      size: { width: 120, height: 80 },
+      view: { bounds: [[-10, -10], [10, 10]], padding: 10 },
+      layers: [{ type: 'tile', url: flatImageUrl('#00ff00') }],
+      format: 'jpeg',
+      exportOptions: { quality: 90, controls: false },
+    });
+
+    try {
+      const jpeg = await renderMapSpec(json, env);
+      expect(jpeg.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+      expect((await decodePng(jpeg)).width).toBe(120);
+    } finally {
+      env.dispose();
+    }
+
+    await expect(renderMapSpec('{"size": ')).rejects.toThrow(/^Invalid map spec: spec: is not valid JSON/);
+  });
+
+  it('reports every problem with its path', () => {
+    const spec = {
+      size: { width: 0, height: '100' },
+      view: { center: [51.5], zoom: 3 },
+      layers: [
+        { type: 'tile' },
+        { type: 'geojson', data: { type: 'Point', coordinates: [0, 0] }, style: { colour: 'red', weight: -1 } },
+        { type: 'heatmap' },
+        { type: 'popup', latlng: [0, 0], content: 'Hi', options: { offset: [0, '10'] } },
+      ],
+      format: 'gif',
+      exportOptions: { controls: { zoom: 'yes' }, pageSize: 'A9' },
+      extra: true,
+    };
+
+    let error: MapSpecError | undefined;
+    try {
+      validateMapSpec(spec);
+    } catch (caught) {
+      error = caught as MapSpecError;
+    }
+
+    expect(error).toBeInstanceOf(MapSpecError);
+    expect(error?.issues).toEqual([
+      { path: 'size.width', message: 'must be at least 1, got 0' },
+      { path: 'size.height', message: 'expected an integer, got a string' },
+      { path: 'view.center', message: 'expected 2 items, got 1' },
+      { path: 'layers[0].url', message: 'is required' },
+      { path: 'layers[1].style.colour', message: 'is not allowed' },
+      { path: 'layers[1].style.weight', message: 'must be at least 0, got -1' },
+      { path: 'layers[2].type', message: 'Unknown render job layer type "heatmap"; expected one of "tile", "geojson", "marker", "popup"' },
+      { path: 'layers[3].options.offset[1]', message: 'expected a number, got a string' },
+      { path: 'format', message: 'expected one of "png", "jpeg", "webp", "avif", "svg", "pdf"' },
+      { path: 'exportOptions.controls.zoom', message: 'expected a boolean, got a string' },
+      { path: 'exportOptions.pageSize', message: 'expected one of "A3", "A4", "A5", "Letter", "Legal", "Tabloid"' },
+      { path: 'extra', message: 'is not allowed' },
+    ]);
+    expect(error?.message).toMatch(/^Invalid map spec: size\.width: must be at least 1, got 0; size\.height: /);
+
+    expect(() => validateMapSpec({ size: { width: 10, height: 10 }, view: { zoom: 3 } }))
+      .toThrow('Invalid map spec: view: expected center and zoom, or bounds');
+    expect(() => validateMapSpec([])).toThrow('Invalid map spec: spec: expected an object, got an array');
+  });
+
+  it('publishes the schema it validates against', () => {
+    const published = JSON.parse(readFileSync(path.join(__dirname, '../src/assets/map-spec.schema.json'), 'utf-8'));
+    expect(mapSpecSchema).toEqual(published);
+    expect(published.$schema).toBe('http://json-schema.org/draft-07/schema#');
+
+    const spec = baseSpec();
+    expect(validateMapSpec(spec)).toBe(spec);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import Database from 'better-sqlite3';
+import { PNG } from 'pngjs';
+import L, { openMBTiles, closeAllMBTiles } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { pixelAt, solidTile } from './helpers/png-analysis.js';
+
+describe('MBTiles', () => {
+  let tmpDir: string;
+  let archivePath: string;
+  const red = solidTile(255, 0, 0);
+  const blue = solidTile(0, 0, 255);
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-mbtiles-'));
+    archivePath = path.join(tmpDir, 'basemap.mbtiles');
+
+    const db = new Database(archivePath);
+    db.exec(`
+      CREATE TABLE metadata (name TEXT, value TEXT);
+      CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB);
+    `);
+
+    const insertMetadata = db.prepare('INSERT INTO metadata (name, value) VALUES (?, ?)');
+    insertMetadata.run('name', 'Test basemap');
+    insertMetadata.run('format', 'png');
+    insertMetadata.run('bounds', '-180,-85,180,85');
+    insertMetadata.run('center', '0,0,1');
+    insertMetadata.run('minzoom', '1');
+    insertMetadata.run('maxzoom', '1');
+    insertMetadata.run('attribution', '© Test Tiles');
+
+    // TMS rows count from the bottom: row 1 is the northern (top) row at zoom 1
+    const insertTile = db.prepare('INSERT INTO tiles VALUES (?, ?, ?, ?)');
+    insertTile.run(1, 0, 1, red);
+    insertTile.run(1, 1, 1, red);
+    insertTile.run(1, 0, 0, blue);
+    insertTile.run(1, 1, 0, blue);
+    db.close();
+  });
+
+  afterAll(async () => {
+    closeAllMBTiles();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads tiles with XYZ coordinates, flipping TMS rows', () => {
+    const reader = openMBTiles(archivePath);
+
+    expect(reader.getTile(1, 0, 0)?.equals(red)).toBe(true);
+    expect(reader.getTile(1, 0, 1)?.equals(blue)).toBe(true);
+    expect(reader.getTile(5, 0, 0)).toBeNull();
+  });
+
+  it('parses the metadata table', () => {
+    const metadata = openMBTiles(archivePath).getMetadata();
+
+    expect(metadata).toMatchObject({
+      name: 'Test basemap',
+      format: 'png',
+      attribution: '© Test Tiles',
+      bounds: [[-85, -180], [85, 180]],
+      center: { lat: 0, lng: 0, zoom: 1 },
+      minZoom: 1,
+      maxZoom: 1,
+    });
+  });
+
+  it('configures L.tileLayer.mbtiles from the archive metadata', () => {
+    const layer = L.tileLayer.mbtiles(archivePath);
+
+    expect(layer.options.attribution).toBe('© Test Tiles');
+    expect(layer.options.minNativeZoom).toBe(1);
+    expect(layer.options.maxNativeZoom).toBe(1);
+    expect((layer as any)._url).toMatch(/^mbtiles:\/\/\/.*basemap\.mbtiles\/\{z\}\/\{x\}\/\{y\}$/);
+  });
+
+  it('renders MBTiles tiles into exported images', async () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(512, 512);
+
+    try {
+      L.tileLayer.mbtiles(archivePath).addTo(map);
+      const buffer = await map.toBuffer('png', { waitForRender: { timeout: 5000 }, controls: false });
+      const png = PNG.sync.read(buffer);
+
+      expect(pixelAt(png, 10, 10)).toEqual([255, 0, 0]);
+      expect(pixelAt(png, 500, 500)).toEqual([0, 0, 255]);
+    } finally {
+      map.remove();
+      element.remove();
+    }
+  });
+
+  it('reports missing tiles and malformed URLs as load errors', async () => {
+    const { loadImageSource } = await import('../src/image.js');
+
+    await expect(loadImageSource(`mbtiles://${archivePath}/3/0/0`)).rejects.toThrow('not found');
+    await expect(loadImageSource('mbtiles://no-archive-here/1/0/0')).rejects.toThrow('Invalid MBTiles URL');
+  });
+});
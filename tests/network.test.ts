@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { loadImageSource } from '../src/image.js';
+import { configureImageCache } from '../src/image-cache.js';
+import { configureNetwork } from '../src/network.js';
+import { ensureTileFixture, getTileFixturePath } from './helpers/tile-fixture.js';
+
+describe('Network scheduling', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let tileBuffer: Buffer;
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let requestTimes: number[] = [];
+  let requestPaths: string[] = [];
+  const failuresByPath = new Map<string, number>();
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    configureImageCache({ enabled: false });
+    tileBuffer = await fs.readFile(getTileFixturePath());
+
+    server = http.createServer((req, res) => {
+      const url = req.url ?? '';
+      requestTimes.push(Date.now());
+      requestPaths.push(url);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+
+      const respond = (status: number, headers: http.OutgoingHttpHeaders = {}, body?: Buffer) => {
+        setTimeout(() => {
+          inFlight--;
+          res.writeHead(status, headers);
+          res.end(body);
+        }, 30);
+      };
+
+      const remainingFailures = failuresByPath.get(url) ?? 0;
+      if (remainingFailures > 0) {
+        failuresByPath.set(url, remainingFailures - 1);
+        if (url.startsWith('/rate-limited/')) {
+          respond(429, { 'Retry-After': '0' });
+        } else {
+          respond(503);
+        }
+        return;
+      }
+
+      if (url.startsWith('/always-fails/')) {
+        respond(500);
+        return;
+      }
+
+      respond(200, { 'Content-Type': 'image/png' }, tileBuffer);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    configureNetwork({});
+    configureImageCache({ enabled: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    inFlight = 0;
+    maxInFlight = 0;
+    requestTimes = [];
+    requestPaths = [];
+    failuresByPath.clear();
+  });
+
+  it('limits concurrent requests per host', async () => {
+    configureNetwork({ maxConcurrencyPerHost: 2 });
+
+    const images = await Promise.all(
+      Array.from({ length: 6 }, (_, index) => loadImageSource(`${baseUrl}/concurrency/${index}.png`))
+    );
+
+    expect(images).toHaveLength(6);
+    expect(maxInFlight).toBeLessThanOrEqual(2);
+  });
+
+  it('limits concurrent requests globally', async () => {
+    configureNetwork({ maxConcurrency: 1, maxConcurrencyPerHost: 6 });
+
+    await Promise.all(
+      Array.from({ length: 3 }, (_, index) => loadImageSource(`${baseUrl}/global/${index}.png`))
+    );
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('caps requests per second for a host', async () => {
+    configureNetwork({ hosts: { [new URL(baseUrl).host]: { requestsPerSecond: 10 } } });
+
+    await Promise.all(
+      Array.from({ length: 3 }, (_, index) => loadImageSource(`${baseUrl}/rate/${index}.png`))
+    );
+
+    expect(requestTimes).toHaveLength(3);
+    expect(requestTimes[2] - requestTimes[0]).toBeGreaterThanOrEqual(190);
+  });
+
+  it('retries 5xx responses with backoff', async () => {
+    configureNetwork({ retry: { retries: 3, minDelay: 10 } });
+    failuresByPath.set('/flaky/0.png', 2);
+
+    const image = await loadImageSource(`${baseUrl}/flaky/0.png`);
+
+    expect(image.width).toBe(256);
+    expect(requestTimes).toHaveLength(3);
+  });
+
+  it('retries 429 responses honouring Retry-After', async () => {
+    configureNetwork({ retry: { retries: 1, minDelay: 10 } });
+    failuresByPath.set('/rate-limited/0.png', 1);
+
+    const image = await loadImageSource(`${baseUrl}/rate-limited/0.png`);
+
+    expect(image.width).toBe(256);
+    expect(requestTimes).toHaveLength(2);
+  });
+
+  it('fails once retries are exhausted', async () => {
+    configureNetwork({ retry: { retries: 1, minDelay: 10 } });
+
+    await expect(loadImageSource(`${baseUrl}/always-fails/0.png`)).rejects.toThrow('500');
+    expect(requestTimes).toHaveLength(2);
+  });
+
+  it('drops aborted requests from the queue', async () => {
+    configureNetwork({ maxConcurrencyPerHost: 1 });
+    const controller = new AbortController();
+
+    const first = loadImageSource(`${baseUrl}/queued/0.png`);
+    const aborted = Array.from({ length: 3 }, (_, index) =>
+      loadImageSource(`${baseUrl}/queued/aborted-${index}.png`, { signal: controller.signal })
+    );
+    controller.abort();
+
+    await Promise.all(aborted.map((load) => expect(load).rejects.toThrow()));
+    await first;
+    await loadImageSource(`${baseUrl}/queued/1.png`);
+
+    expect(requestPaths).toEqual(['/queued/0.png', '/queued/1.png']);
+  });
+
+  it('does not retry aborted requests', async () => {
+    configureNetwork({ retry: { retries: 3, minDelay: 200 } });
+    const controller = new AbortController();
+
+    const load = loadImageSource(`${baseUrl}/always-fails/aborted.png`, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+
+    await expect(load).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(requestTimes).toHaveLength(1);
+  });
+
+  it('frees rate-limited slots for tiles still needed after zooming', async () => {
+    configureNetwork({ requestsPerSecondPerHost: 5 });
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(256, 256);
+
+    try {
+      L.tileLayer(`${baseUrl}/pan/{z}/{x}/{y}.png`, { tileSize: 256 }).addTo(map);
+      map.setView([0, 0], 2, { animate: false });
+      await map.whenRendered({ timeout: 5000 });
+
+      const outdated = requestPaths.filter((path) => path.startsWith('/pan/1/'));
+      const current = requestPaths.filter((path) => path.startsWith('/pan/2/'));
+      expect(outdated.length).toBeLessThanOrEqual(1);
+      expect(current).toHaveLength(4);
+    } finally {
+      map.remove();
+      element.remove();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import L, { OfflineModeError, configureOffline, configureTileCache } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { loadImageSource } from '../src/image.js';
+import { configureImageCache } from '../src/image-cache.js';
+import { getTileFixturePath, ensureTileFixture } from './helpers/tile-fixture.js';
+
+describe('Offline mode', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let tileBuffer: Buffer;
+  let requests: string[] = [];
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    configureImageCache({ enabled: false });
+    tileBuffer = await fs.readFile(getTileFixturePath());
+
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      if (req.url?.endsWith('.css')) {
+        res.writeHead(200, { 'Content-Type': 'text/css' });
+        res.end('body { color: red; }');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-cache' });
+      res.end(tileBuffer);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    configureImageCache({ enabled: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    configureOffline(false);
+    configureTileCache(null);
+  });
+
+  it('fails fast with an OfflineModeError naming the blocked URL', async () => {
+    configureOffline(true);
+    const url = `${baseUrl}/tiles/0/0/0.png`;
+
+    const error = await loadImageSource(url).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(OfflineModeError);
+    expect((error as OfflineModeError).url).toBe(url);
+    expect((error as Error).message).toContain(url);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('still loads local files and data URIs', async () => {
+    configureOffline(true);
+
+    const image = await loadImageSource(getTileFixturePath());
+
+    expect(image.width).toBe(256);
+  });
+
+  it('allows allowlisted hosts', async () => {
+    configureOffline({ allowHosts: ['127.0.0.1'] });
+
+    const image = await loadImageSource(`${baseUrl}/tiles/0/0/0.png`);
+
+    expect(image.width).toBe(256);
+    expect(requests).toHaveLength(1);
+
+    configureOffline({ allowHosts: ['127.0.0.1:1'] });
+    await expect(loadImageSource(`${baseUrl}/tiles/0/0/0.png`)).rejects.toBeInstanceOf(OfflineModeError);
+  });
+
+  it('serves tile cache hits, including stale entries, unless disabled', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-offline-'));
+    const url = `${baseUrl}/tiles/1/0/0.png`;
+
+    try {
+      configureTileCache({ directory: cacheDir });
+      await loadImageSource(url);
+      expect(requests).toHaveLength(1);
+
+      configureOffline(true);
+      const cached = await loadImageSource(url);
+      expect(cached.width).toBe(256);
+      expect(requests).toHaveLength(1);
+
+      configureOffline({ allowCache: false });
+      await expect(loadImageSource(url)).rejects.toBeInstanceOf(OfflineModeError);
+      await expect(loadImageSource(`${baseUrl}/tiles/1/1/0.png`)).rejects.toBeInstanceOf(OfflineModeError);
+      expect(requests).toHaveLength(1);
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('blocks jsdom resource loading', async () => {
+    configureOffline(true);
+    const virtualConsoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      const failed = new Promise<void>((resolve) => link.addEventListener('error', () => resolve()));
+      link.href = `${baseUrl}/style.css`;
+      document.head.appendChild(link);
+
+      await failed;
+      link.remove();
+
+      expect(requests).toHaveLength(0);
+    } finally {
+      virtualConsoleError.mockRestore();
+    }
+  });
+
+  it('reports blocked resources from whenRendered and exports', async () => {
+    configureOffline(true);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 0);
+    map.setSize(256, 256);
+
+    try {
+      L.tileLayer(`${baseUrl}/tiles/{z}/{x}/{y}.png`).addTo(map);
+      const status = await map.whenRendered({ timeout: 5000 });
+
+      expect(status.complete).toBe(true);
+      expect(status.blocked).toEqual([{ type: 'tile', url: `${baseUrl}/tiles/0/0/0.png` }]);
+
+      const onBlocked = vi.fn();
+      await map.toBuffer('png', { onBlocked });
+      expect(onBlocked).toHaveBeenCalledWith([{ type: 'tile', url: `${baseUrl}/tiles/0/0/0.png` }]);
+      expect(warn).not.toHaveBeenCalled();
+      expect(requests).toHaveLength(0);
+    } finally {
+      warn.mockRestore();
+      map.remove();
+      element.remove();
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promises as fs } from 'fs';
+import { PNG } from 'pngjs';
+import L, { openPMTiles, closeAllPMTiles } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { zxyToTileId } from '../src/pmtiles.js';
+import { pixelAt, solidTile } from './helpers/png-analysis.js';
+
+interface Entry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function serializeDirectory(entries: Entry[]): Buffer {
+  const bytes = [...varint(entries.length)];
+  let lastId = 0;
+  for (const entry of entries) {
+    bytes.push(...varint(entry.tileId - lastId));
+    lastId = entry.tileId;
+  }
+  entries.forEach((entry) => bytes.push(...varint(entry.runLength)));
+  entries.forEach((entry) => bytes.push(...varint(entry.length)));
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    const contiguous = previous && entry.offset === previous.offset + previous.length;
+    bytes.push(...varint(contiguous ? 0 : entry.offset + 1));
+  });
+  return zlib.gzipSync(Buffer.from(bytes));
+}
+
+/**
+ * Build a gzip-compressed PMTiles v3 archive whose root directory points at a
+ * single leaf directory
+ */
+function buildArchive(red: Buffer, blue: Buffer): Buffer {
+  // Zoom 1 Hilbert ids: 1 = (0,0), 2 = (0,1), 3 = (1,1), 4 = (1,0)
+  const leaf = serializeDirectory([
+    { tileId: 1, offset: 0, length: red.length, runLength: 1 },
+    { tileId: 2, offset: red.length, length: blue.length, runLength: 2 },
+    { tileId: 4, offset: 0, length: red.length, runLength: 1 },
+  ]);
+  const root = serializeDirectory([{ tileId: 1, offset: 0, length: leaf.length, runLength: 0 }]);
+  const metadata = zlib.gzipSync(Buffer.from(JSON.stringify({ name: 'Test basemap', attribution: '© Test Tiles' })));
+  const tileData = Buffer.concat([red, blue]);
+
+  const header = Buffer.alloc(127);
+  header.write('PMTiles', 0, 'ascii');
+  header[7] = 3;
+  const sections = [root, metadata, leaf, tileData];
+  let offset = header.length;
+  sections.forEach((section, i) => {
+    header.writeBigUInt64LE(BigInt(offset), 8 + i * 16);
+    header.writeBigUInt64LE(BigInt(section.length), 16 + i * 16);
+    offset += section.length;
+  });
+  header[96] = 1; // clustered
+  header[97] = 2; // gzip internal compression
+  header[98] = 1; // uncompressed tiles
+  header[99] = 2; // png
+  header[100] = 1;
+  header[101] = 1;
+  header.writeInt32LE(-180e7, 102);
+  header.writeInt32LE(-85e7, 106);
+  header.writeInt32LE(180e7, 110);
+  header.writeInt32LE(85e7, 114);
+  header[118] = 1;
+
+  return Buffer.concat([header, ...sections]);
+}
+
+describe('PMTiles', () => {
+  let tmpDir: string;
+  let archivePath: string;
+  const red = solidTile(255, 0, 0);
+  const blue = solidTile(0, 0, 255);
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-pmtiles-'));
+    archivePath = path.join(tmpDir, 'basemap.pmtiles');
+    await fs.writeFile(archivePath, buildArchive(red, blue));
+  });
+
+  afterAll(async () => {
+    await closeAllPMTiles();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('maps XYZ coordinates onto Hilbert tile ids', () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect(zxyToTileId(1, 0, 0)).toBe(1);
+    expect(zxyToTileId(1, 0, 1)).toBe(2);
+    expect(zxyToTileId(1, 1, 1)).toBe(3);
+    expect(zxyToTileId(1, 1, 0)).toBe(4);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+    expect(() => zxyToTileId(1, 2, 0)).toThrow('outside the zoom level bounds');
+  });
+
+  it('reads tiles through leaf directories and run lengths', async () => {
+    const reader = openPMTiles(archivePath);
+
+    expect((await reader.getTile(1, 0, 0))?.equals(red)).toBe(true);
+    expect((await reader.getTile(1, 1, 0))?.equals(red)).toBe(true);
+    expect((await reader.getTile(1, 0, 1))?.equals(blue)).toBe(true);
+    expect((await reader.getTile(1, 1, 1))?.equals(blue)).toBe(true);
+    expect(await reader.getTile(0, 0, 0)).toBeNull();
+    expect(await reader.getTile(3, 0, 0)).toBeNull();
+  });
+
+  it('parses the header and compressed metadata', async () => {
+    const reader = openPMTiles(archivePath);
+
+    expect(await reader.getHeader()).toMatchObject({
+      version: 3,
+      internalCompression: 'gzip',
+      tileCompression: 'none',
+      tileType: 'png',
+      minZoom: 1,
+      maxZoom: 1,
+      bounds: [[-85, -180], [85, 180]],
+      center: { lat: 0, lng: 0, zoom: 1 },
+    });
+    expect(await reader.getMetadata()).toEqual({ name: 'Test basemap', attribution: '© Test Tiles' });
+  });
+
+  it('configures L.tileLayer.pmtiles from the archive header', () => {
+    const layer = L.tileLayer.pmtiles(archivePath, { maxNativeZoom: 2 });
+
+    expect(layer.options.attribution).toBe('© Test Tiles');
+    expect(layer.options.minNativeZoom).toBe(1);
+    expect(layer.options.maxNativeZoom).toBe(2);
+    expect((layer as any)._url).toMatch(/^pmtiles:\/\/\/.*basemap\.pmtiles\/\{z\}\/\{x\}\/\{y\}$/);
+  });
+
+  it('renders PMTiles tiles into exported images', async () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(512, 512);
+
+    try {
+      L.tileLayer.pmtiles(archivePath).addTo(map);
+      const buffer = await map.toBuffer('png', { waitForRender: { timeout: 5000 }, controls: false });
+      const png = PNG.sync.read(buffer);
+
+      expect(pixelAt(png, 10, 10)).toEqual([255, 0, 0]);
+      expect(pixelAt(png, 500, 10)).toEqual([255, 0, 0]);
+      expect(pixelAt(png, 500, 500)).toEqual([0, 0, 255]);
+    } finally {
+      map.remove();
+      element.remove();
+    }
+  });
+
+  it('reports missing tiles and malformed URLs as load errors', async () => {
+    const { loadImageSource } = await import('../src/image.js');
+
+    await expect(loadImageSource(`pmtiles://${archivePath}/3/0/0`)).rejects.toThrow('not found');
+    await expect(loadImageSource('pmtiles://no-archive-here/1/0/0')).rejects.toThrow('Invalid PMTiles URL');
+  });
+});
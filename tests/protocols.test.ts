@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { Image as CanvasImage } from '@napi-rs/canvas';
+import L, { registerImageProtocol, unregisterImageProtocol } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { loadImageSource } from '../src/image.js';
+import { clearImageCache } from '../src/image-cache.js';
+import { analyzePng } from './helpers/png-analysis.js';
+import { ensureTileFixture, getTileFixturePath } from './helpers/tile-fixture.js';
+
+describe('Image protocol handlers', () => {
+  let tileBuffer: Buffer;
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    tileBuffer = await fs.readFile(getTileFixturePath());
+  });
+
+  beforeEach(() => {
+    clearImageCache();
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 0);
+    map.setSize(256, 256);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+    unregisterImageProtocol('tiles');
+    unregisterImageProtocol('decoded');
+  });
+
+  it('serves tile layers from a custom scheme', async () => {
+    const requested: string[] = [];
+    registerImageProtocol('tiles', (url) => {
+      requested.push(url);
+      return tileBuffer;
+    });
+
+    L.tileLayer('tiles://basemap/{z}/{x}/{y}', { tileSize: 256, maxZoom: 0 }).addTo(map);
+
+    const buffer = await map.toBuffer('png', { waitForRender: { timeout: 5000 } });
+    const analysis = analyzePng(buffer);
+
+    expect(requested).toContain('tiles://basemap/0/0/0');
+    expect(analysis.nonTransparentPixels).toBeGreaterThan(5000);
+    expect(analysis.uniqueColorCount).toBeGreaterThan(20);
+  });
+
+  it('accepts already decoded images from handlers', async () => {
+    const decoded = await loadImageSource(getTileFixturePath());
+    registerImageProtocol('decoded://', async () => decoded);
+
+    const image = await loadImageSource('decoded://anything');
+
+    expect(image).toBeInstanceOf(CanvasImage);
+    expect(image).toBe(decoded);
+  });
+
+  it('loads image overlays and marker icons through handlers', async () => {
+    registerImageProtocol('tiles', async () => new Uint8Array(tileBuffer));
+
+    L.imageOverlay('tiles://overlay', [[-40, -40], [40, 40]]).addTo(map);
+    L.marker([0, 0], {
+      icon: L.icon({ iconUrl: 'tiles://icon', iconSize: [20, 20] }),
+    }).addTo(map);
+
+    const status = await map.whenRendered({ timeout: 5000 });
+
+    expect(status.complete).toBe(true);
+    const images = Array.from(element.querySelectorAll('img')) as any[];
+    expect(images.length).toBe(2);
+    expect(images.every((img) => img._napiImage)).toBe(true);
+  });
+
+  it('aborts the handler signal when the image source is replaced', async () => {
+    let capturedSignal: AbortSignal | null = null;
+    registerImageProtocol('tiles', (_url, { signal }) => {
+      capturedSignal = signal;
+      return new Promise<Buffer>((resolve) => setTimeout(() => resolve(tileBuffer), 50));
+    });
+
+    const img = document.createElement('img');
+    img.src = 'tiles://slow';
+    img.src = getTileFixturePath();
+
+    expect(capturedSignal).not.toBeNull();
+    expect(capturedSignal!.aborted).toBe(true);
+  });
+
+  it('keeps a shared load running while another image still waits for it', async () => {
+    const signals: AbortSignal[] = [];
+    registerImageProtocol('tiles', (_url, { signal }) => {
+      signals.push(signal);
+      return new Promise<Buffer>((resolve) => setTimeout(() => resolve(tileBuffer), 50));
+    });
+
+    const waiting = document.createElement('img');
+    const replaced = document.createElement('img');
+    const events: string[] = [];
+    waiting.addEventListener('load', () => events.push('waiting:load'));
+    waiting.addEventListener('error', () => events.push('waiting:error'));
+    replaced.addEventListener('error', () => events.push('replaced:error'));
+
+    // The first image starts the load, then moves on to another source
+    replaced.src = 'tiles://shared';
+    waiting.src = 'tiles://shared';
+    replaced.src = getTileFixturePath();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(false);
+    expect(events).toEqual(['waiting:load']);
+    expect((waiting as any)._napiImage).toBeInstanceOf(CanvasImage);
+
+    // Once every waiter is gone, the shared load is aborted
+    const only = document.createElement('img');
+    only.src = 'tiles://other';
+    only.src = getTileFixturePath();
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it('surfaces handler failures as image errors', async () => {
+    registerImageProtocol('tiles', () => {
+      throw new Error('tile store offline');
+    });
+
+    await expect(loadImageSource('tiles://broken')).rejects.toThrow('tile store offline');
+  });
+
+  it('rejects invalid scheme names', () => {
+    expect(() => registerImageProtocol('1bad', () => tileBuffer)).toThrow('Invalid image protocol scheme');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { MapSpecError, RenderPool, RenderPoolError } from '../src/index.js';
+import type { RenderJob } from '../src/types.js';
+import { decodePng } from './helpers/decode-png.js';
+import { flatImageUrl } from './helpers/flat-image.js';
+
+function pointJob(width: number, height: number): RenderJob {
+  return {
+    size: { width, height },
+    view: { center: [0, 0], zoom: 2 },
+    layers: [
+      // A data URL, since image protocols registered here do not reach the workers
+      { type: 'tile', url: flatImageUrl('#0000ff') },
+      {
+        type: 'geojson',
+        data: { type: 'Point', coordinates: [0, 0] } as GeoJSON.Point,
+        pointRadius: 10,
+        style: { stroke: false, fillColor: '#ff0000', fillOpacity: 1 },
+      },
+    ],
+    exportOptions: { controls: false },
+  };
+}
+
+describe('RenderPool', () => {
+  let pool: RenderPool;
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('renders jobs on worker threads', async () => {
+    pool = new RenderPool({ size: 2 });
+    expect(pool.size).toBe(2);
+
+    const [wide, tall] = await Promise.all([pool.render(pointJob(200, 100)), pool.render(pointJob(100, 200))]);
+    const wideImage = await decodePng(wide);
+    const tallImage = await decodePng(tall);
+    expect([wideImage.width, wideImage.height, tallImage.width, tallImage.height]).toEqual([200, 100, 100, 200]);
+    expect(wideImage.pixel(100, 50)).toEqual([255, 0, 0, 255]);
+    expect(wideImage.pixel(10, 10)).toEqual([0, 0, 255, 255]);
+    expect(tallImage.pixel(50, 100)).toEqual([255, 0, 0, 255]);
+
+    const bounds = await pool.render({
+      size: { width: 120, height: 120 },
+      view: { bounds: [[-10, -10], [10, 10]], padding: 10 },
+      format: 'svg',
+    });
+    expect(bounds.toString('utf-8')).toContain('<svg');
+  });
+
+  it('rejects failed jobs and keeps their worker', async () => {
+    pool = new RenderPool({ size: 1 });
+    const invalid = { ...pointJob(50, 50), layers: [{ type: 'heatmap' }] } as unknown as RenderJob;
+    await expect(pool.render(invalid)).rejects.toThrow('Unknown render job layer type "heatmap"');
+    expect((await decodePng(await pool.render(pointJob(50, 50)))).width).toBe(50);
+  });
+
+  it('rejects jobs that fail in their worker and keeps it', async () => {
+    pool = new RenderPool({ size: 1 });
+    const data = { type: 'Nope' } as unknown as GeoJSON.GeoJsonObject;
+    const failing: RenderJob = { ...pointJob(50, 50), layers: [{ type: 'geojson', data }] };
+    await expect(pool.render(failing)).rejects.toThrow('Invalid GeoJSON object.');
+    expect((await decodePng(await pool.render(pointJob(50, 50)))).width).toBe(50);
+  });
+
+  it('validates jobs before queueing them', async () => {
+    pool = new RenderPool({ size: 1 });
+    const invalid = { ...pointJob(50, 50), layers: [{ type: 'heatmap' }] } as unknown as RenderJob;
+    await expect(pool.render(invalid)).rejects.toThrow(MapSpecError);
+    await expect(pool.render(invalid)).rejects.toThrow('layers[0].type: Unknown render job layer type "heatmap"; expected one of "tile", "geojson", "marker", "popup"');
+    expect(pool.queueSize).toBe(0);
+  });
+
+  it('times out slow jobs and replaces their worker', async () => {
+    pool = new RenderPool({ size: 1 });
+    const slow = pool.render({ ...pointJob(50, 50), timeout: 1 });
+    const next = pool.render(pointJob(60, 60));
+
+    await expect(slow).rejects.toThrow(RenderPoolError);
+    await expect(slow).rejects.toThrow('Render job timed out after 1ms');
+    expect((await decodePng(await next)).width).toBe(60);
+  });
+
+  it('recovers from crashed workers', async () => {
+    pool = new RenderPool({ size: 1 });
+    await pool.render(pointJob(50, 50));
+
+    const crashed = pool.render(pointJob(50, 50));
+    // Kill the worker while it renders
+    await (pool as any).workers[0].worker.terminate();
+    await expect(crashed).rejects.toThrow('Render worker exited with code 1');
+    expect((await decodePng(await pool.render(pointJob(70, 70)))).width).toBe(70);
+  });
+
+  it('applies backpressure through a bounded queue', async () => {
+    pool = new RenderPool({ size: 1, maxQueue: 1 });
+
+    // The worker is still starting, so the first job waits in the queue
+    const first = pool.render(pointJob(50, 50));
+    expect(pool.queueSize).toBe(1);
+    await expect(pool.render(pointJob(50, 50))).rejects.toThrow('RenderPool queue is full (1 jobs waiting)');
+
+    await pool.whenReady();
+    expect(pool.queueSize).toBe(0);
+    const second = pool.render(pointJob(50, 50));
+    await Promise.all([first, second]);
+
+    await pool.close();
+    await expect(pool.render(pointJob(50, 50))).rejects.toThrow('RenderPool is closed');
+  });
+
+  it('names the missing worker script outside the test runner', async () => {
+    const runner = process.env.VITEST;
+    delete process.env.VITEST;
+    try {
+      expect(() => new RenderPool({ size: 1 })).toThrow(RenderPoolError);
+      expect(() => new RenderPool({ size: 1 })).toThrow(/RenderPool worker script not found: .*render-worker\.js$/);
+    } finally {
+      process.env.VITEST = runner;
+    }
+
+    pool = new RenderPool({ size: 1 });
+    expect((await decodePng(await pool.render(pointJob(50, 50)))).width).toBe(50);
+  });
+
+  it('splits the tile cache size between the workers', async () => {
+    const tile = Buffer.from(flatImageUrl('#00ff00').split(',')[1], 'base64');
+    const server = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'max-age=3600' });
+      res.end(tile);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-pool-cache-'));
+
+    try {
+      pool = new RenderPool({ size: 2, tileCache: { directory, maxSize: tile.length * 3 } });
+      await Promise.all(Array.from({ length: 8 }, (_, index) => pool.render({
+        size: { width: 256, height: 256 },
+        view: { center: [0, 0], zoom: 0 },
+        layers: [{ type: 'tile', url: `http://127.0.0.1:${port}/${index}/{z}/{x}/{y}.png` }],
+      })));
+
+      let total = 0;
+      for (const bucket of await fs.readdir(directory)) {
+        for (const file of await fs.readdir(path.join(directory, bucket))) {
+          if (file.endsWith('.bin')) {
+            total += (await fs.stat(path.join(directory, bucket, file))).size;
+          }
+        }
+      }
+      expect(total).toBeGreaterThan(0);
+      expect(total).toBeLessThanOrEqual(tile.length * 3);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
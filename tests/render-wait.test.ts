@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import L, { RenderTimeoutError } from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { analyzePng } from './helpers/png-analysis.js';
+import { ensureTileFixture, getTileFixtureUrl } from './helpers/tile-fixture.js';
+
+describe('whenRendered', () => {
+  let element: HTMLDivElement;
+  let map: LeafletHeadlessMap;
+  let hangingServer: http.Server;
+  let hangingUrl: string;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+
+    // Server that accepts requests but never answers them
+    hangingServer = http.createServer(() => {});
+    await new Promise<void>((resolve) => hangingServer.listen(0, '127.0.0.1', resolve));
+    const { port } = hangingServer.address() as AddressInfo;
+    hangingUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    hangingServer.closeAllConnections();
+    await new Promise<void>((resolve) => hangingServer.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    document.body.appendChild(element);
+    map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 0);
+    map.setSize(256, 256);
+  });
+
+  afterEach(() => {
+    map.remove();
+    element.remove();
+  });
+
+  it('resolves once local tiles and marker icons have loaded', async () => {
+    const tileLayer = L.tileLayer(getTileFixtureUrl(), { tileSize: 256, maxZoom: 0 }).addTo(map);
+    const marker = L.marker([0, 0]).addTo(map);
+
+    const status = await map.whenRendered({ timeout: 5000 });
+
+    expect(status).toEqual({ complete: true, pending: [], blocked: [] });
+    expect(tileLayer.isLoading()).toBe(false);
+    const icon = (marker as any)._icon;
+    expect(icon._napiImage).toBeDefined();
+  });
+
+  it('resolves immediately for a map without pending resources', async () => {
+    const status = await map.whenRendered({ timeout: 100 });
+    expect(status.complete).toBe(true);
+  });
+
+  it('rejects with RenderTimeoutError listing pending tiles', async () => {
+    L.tileLayer(`${hangingUrl}/{z}/{x}/{y}.png`, { tileSize: 256, maxZoom: 0 }).addTo(map);
+
+    const error = await map.whenRendered({ timeout: 200 }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(RenderTimeoutError);
+    expect(error.timeout).toBe(200);
+    expect(error.pending.length).toBeGreaterThan(0);
+    expect(error.pending[0].type).toBe('tile');
+    expect(error.pending[0].url).toContain(hangingUrl);
+  });
+
+  it('resolves with pending resources in partial mode', async () => {
+    L.tileLayer(`${hangingUrl}/{z}/{x}/{y}.png`, { tileSize: 256, maxZoom: 0 }).addTo(map);
+
+    const status = await map.whenRendered({ timeout: 200, partial: true });
+
+    expect(status.complete).toBe(false);
+    expect(status.pending.some((resource) => resource.url?.startsWith(hangingUrl))).toBe(true);
+  });
+
+  it('waits automatically before export when requested', async () => {
+    L.tileLayer(getTileFixtureUrl(), { tileSize: 256, maxZoom: 0 }).addTo(map);
+
+    const buffer = await map.toBuffer('png', { waitForRender: { timeout: 5000 } });
+    const analysis = analyzePng(buffer);
+
+    expect(analysis.nonTransparentPixels).toBeGreaterThan(5000);
+    expect(analysis.uniqueColorCount).toBeGreaterThan(20);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import L from '../src/index.js';
+import type { LeafletHeadlessMap } from '../src/types.js';
+import { loadImageSource } from '../src/image.js';
+import { clearImageCache } from '../src/image-cache.js';
+import { configureNetwork } from '../src/network.js';
+import { ensureTileFixture, getTileFixturePath } from './helpers/tile-fixture.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+describe('Request headers and URL signing', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    const tileBuffer = await fs.readFile(getTileFixturePath());
+
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url ?? '', headers: req.headers });
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end(tileBuffer);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    configureNetwork({});
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    clearImageCache();
+  });
+
+  afterEach(() => {
+    configureNetwork({});
+  });
+
+  it('sends the configured User-Agent, Referer and global headers', async () => {
+    configureNetwork({
+      userAgent: 'my-app/1.0 (ops@example.com)',
+      referer: 'https://example.com/',
+      headers: { 'X-Custom': 'yes' },
+    });
+
+    await loadImageSource(`${baseUrl}/global.png`);
+
+    expect(requests[0].headers['user-agent']).toBe('my-app/1.0 (ops@example.com)');
+    expect(requests[0].headers.referer).toBe('https://example.com/');
+    expect(requests[0].headers['x-custom']).toBe('yes');
+  });
+
+  it('applies header rules only to matching URLs', async () => {
+    configureNetwork({
+      headers: { Authorization: 'Bearer default' },
+      headerRules: [
+        { match: `${baseUrl}/private/*`, headers: { authorization: 'Bearer secret' } },
+        { match: /\.jpg$/, headers: { 'X-Jpeg': '1' } },
+      ],
+    });
+
+    await loadImageSource(`${baseUrl}/private/tile.png`);
+    await loadImageSource(`${baseUrl}/public/tile.png`);
+
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+    expect(requests[0].headers['x-jpeg']).toBeUndefined();
+    expect(requests[1].headers.authorization).toBe('Bearer default');
+  });
+
+  it('signs URLs with the async signing hook', async () => {
+    configureNetwork({
+      signUrl: async (url) => `${url}?signature=abc`,
+    });
+
+    await loadImageSource(`${baseUrl}/signed.png`);
+
+    expect(requests[0].url).toBe('/signed.png?signature=abc');
+  });
+
+  it('caches images apart per request headers and signer', async () => {
+    const url = `${baseUrl}/shared.png`;
+    const signA = (source: string) => `${source}?sig=a`;
+    const signB = (source: string) => `${source}?sig=b`;
+
+    const [first, second] = await Promise.all([
+      loadImageSource(url, { headers: { 'X-Api-Key': 'key-a' }, signUrl: signA }),
+      loadImageSource(url, { headers: { 'X-Api-Key': 'key-b' }, signUrl: signB }),
+    ]);
+    await loadImageSource(url);
+    const repeated = await loadImageSource(url, { headers: { 'x-api-key': 'key-a' }, signUrl: signA });
+
+    expect(first).not.toBe(second);
+    expect(repeated).toBe(first);
+    expect(requests.map((request) => [request.url, request.headers['x-api-key']]).sort()).toEqual([
+      ['/shared.png', undefined],
+      ['/shared.png?sig=a', 'key-a'],
+      ['/shared.png?sig=b', 'key-b'],
+    ]);
+  });
+
+  it('applies per-tile-layer headers and signing', async () => {
+    configureNetwork({ headers: { 'X-Layer': 'global' } });
+
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 0);
+    map.setSize(256, 256);
+
+    try {
+      L.tileLayer(`${baseUrl}/layer/{z}/{x}/{y}.png`, {
+        tileSize: 256,
+        maxZoom: 0,
+        headers: { 'X-Layer': 'override', 'X-Api-Key': 'key-123' },
+        signUrl: (url) => `${url}?sig=layer`,
+      }).addTo(map);
+
+      await map.whenRendered({ timeout: 5000 });
+
+      expect(requests.length).toBeGreaterThan(0);
+      expect(requests[0].url).toBe('/layer/0/0/0.png?sig=layer');
+      expect(requests[0].headers['x-layer']).toBe('override');
+      expect(requests[0].headers['x-api-key']).toBe('key-123');
+    } finally {
+      map.remove();
+      element.remove();
+    }
+  });
+
+  it('fires tileload once per tile, after its image has loaded', async () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const map = L.map(element) as LeafletHeadlessMap;
+    map.setView([0, 0], 1);
+    map.setSize(256, 256);
+
+    try {
+      const loads: boolean[] = [];
+      L.tileLayer(`${baseUrl}/ready/{z}/{x}/{y}.png`, {
+        tileSize: 256,
+        maxZoom: 1,
+        headers: { 'X-Layer': 'ready' },
+      })
+        .on('tileload', (event) => loads.push((event.tile as any)._napiImage !== undefined))
+        .addTo(map);
+
+      await map.whenRendered({ timeout: 5000 });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(loads).toEqual([true, true, true, true]);
+    } finally {
+      map.remove();
+      element.remove();
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import { loadImageSource } from '../src/image.js';
+import { configureTileCache } from '../src/tile-cache.js';
+import { configureImageCache } from '../src/image-cache.js';
+import { getTileFixturePath, ensureTileFixture } from './helpers/tile-fixture.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+describe('TileCache', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let tileBuffer: Buffer;
+  let requests: RecordedRequest[] = [];
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    await ensureTileFixture();
+    // Bypass decoded-image caching so every load reaches the disk cache
+    configureImageCache({ enabled: false });
+    tileBuffer = await fs.readFile(getTileFixturePath());
+
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url ?? '', headers: req.headers });
+
+      if (req.url?.startsWith('/fresh/')) {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'max-age=3600' });
+        res.end(tileBuffer);
+        return;
+      }
+
+      if (req.url?.startsWith('/etag/')) {
+        if (req.headers['if-none-match'] === '"v1"') {
+          res.writeHead(304, { ETag: '"v1"', 'Cache-Control': 'no-cache' });
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'image/png', ETag: '"v1"', 'Cache-Control': 'no-cache' });
+        res.end(tileBuffer);
+        return;
+      }
+
+      if (req.url?.startsWith('/no-store/')) {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' });
+        res.end(tileBuffer);
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    configureTileCache(null);
+    configureImageCache({ enabled: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leaflet-node-cache-'));
+  });
+
+  afterEach(async () => {
+    configureTileCache(null);
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('serves fresh responses from disk without refetching', async () => {
+    configureTileCache({ directory: cacheDir });
+
+    const first = await loadImageSource(`${baseUrl}/fresh/0.png`);
+    const second = await loadImageSource(`${baseUrl}/fresh/0.png`);
+
+    expect(first.width).toBe(256);
+    expect(second.width).toBe(256);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('persists entries across cache instances', async () => {
+    configureTileCache({ directory: cacheDir });
+    await loadImageSource(`${baseUrl}/fresh/1.png`);
+
+    configureTileCache({ directory: cacheDir });
+    await loadImageSource(`${baseUrl}/fresh/1.png`);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('revalidates stale entries with If-None-Match', async () => {
+    configureTileCache({ directory: cacheDir });
+
+    await loadImageSource(`${baseUrl}/etag/0.png`);
+    const revalidated = await loadImageSource(`${baseUrl}/etag/0.png`);
+
+    expect(revalidated.width).toBe(256);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers['if-none-match']).toBe('"v1"');
+  });
+
+  it('does not store responses marked no-store', async () => {
+    const cache = configureTileCache({ directory: cacheDir })!;
+
+    await loadImageSource(`${baseUrl}/no-store/0.png`);
+
+    expect(await cache.has(`${baseUrl}/no-store/0.png`)).toBe(false);
+  });
+
+  it('serves stale entries offline and fails on misses', async () => {
+    configureTileCache({ directory: cacheDir, ttl: 0 });
+    await loadImageSource(`${baseUrl}/etag/1.png`);
+
+    configureTileCache({ directory: cacheDir, offline: true });
+    const cached = await loadImageSource(`${baseUrl}/etag/1.png`);
+
+    expect(cached.width).toBe(256);
+    expect(requests).toHaveLength(1);
+    await expect(loadImageSource(`${baseUrl}/fresh/missing.png`)).rejects.toThrow(/cache miss/);
+  });
+
+  it('evicts least recently used entries beyond maxSize', async () => {
+    const cache = configureTileCache({ directory: cacheDir, maxSize: tileBuffer.length * 2 })!;
+
+    await loadImageSource(`${baseUrl}/fresh/a.png`);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await loadImageSource(`${baseUrl}/fresh/b.png`);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await loadImageSource(`${baseUrl}/fresh/c.png`);
+
+    expect(await cache.has(`${baseUrl}/fresh/a.png`)).toBe(false);
+    expect(await cache.has(`${baseUrl}/fresh/b.png`)).toBe(true);
+    expect(await cache.has(`${baseUrl}/fresh/c.png`)).toBe(true);
+  });
+});
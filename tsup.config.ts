@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/render-worker.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
@@ -9,7 +9,7 @@ export default defineConfig({
   sourcemap: true,
   splitting: false,
   treeshake: true,
-  external: ['leaflet', 'canvas', 'jsdom'],
+  external: ['leaflet', 'canvas', 'jsdom', 'better-sqlite3'],
   shims: true,
   target: 'node18',
 });